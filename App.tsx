@@ -1,43 +1,151 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import GameCanvas from './components/GameCanvas';
-import { GameState, UpgradeStats, Difficulty } from './types';
-import { Shield, Play, Zap, Crosshair, Circle, Coins, RefreshCw, Pause, Star, Anchor, Hexagon, Volume2, VolumeX, Mail, Target } from 'lucide-react';
+import ReplayViewer from './components/ReplayViewer';
+import SaveSlotList from './components/SaveSlotList';
+import RunHistory from './components/RunHistory';
+import NewsFlash from './components/NewsFlash';
+import NewsSettingsPanel from './components/NewsSettingsPanel';
+import LevelEditor from './components/LevelEditor';
+import UpgradeTree from './components/UpgradeTree';
+import DefenseBuilder from './components/DefenseBuilder';
+import { useI18n } from './i18n/I18nContext';
+import { LOCALES, LOCALE_CODES } from './i18n/locales';
+import { AmmoStock, SpecialAmmoType, Structure, StructureType, TurretPriority, GameState, UpgradeStats, Difficulty, Replay, LevelCarryOver, LevelResult, SaveSlot, CampaignSnapshot, LevelRecord, RunRecord, NewsContext, NewsReport, NewsSettings, LevelDefinition, EngineStatus } from './types';
+import { createSeed } from './engine/random';
+import { ReplayVersionError, createReplay, parseReplay, serializeReplay } from './engine/replay';
+import { UpgradeId, canRefund, createUpgradeStats, getRefundValue, getRespecValue, getUpgradeCost, getUpgradeLock } from './engine/upgrades';
+import { AMMO_DEFINITIONS, SPECIAL_AMMO_TYPES, addAmmoPack, canBuyAmmo, createAmmoStock } from './engine/ammo';
+import { canRepair, getBuildingDefinition, getDamageStage, getRepairCost, hasCityEffect, repairBuilding } from './engine/buildings';
+import {
+  GroundSlot, createStructure, fitStructuresToResearch, getStructureCap, getStructureDefinition, getStructureRepairCost, getStructureSellValue,
+  getStructureUpgradeCost, repairStructure
+} from './engine/structures';
+import { DEFAULT_CITY, canCompleteLevel, createBlankLevel, getLevelDefinition, parseLevelPack, serializeLevelPack } from './engine/levels';
+import { listSaveSlots, saveCampaign, autosaveCampaign, deleteSaveSlot, createSlotId, canWriteSaves } from './services/saveService';
+import { fetchNewsReport, loadNewsSettings, saveNewsSettings } from './services/newsService';
+import { templateNewsProvider } from './services/templateNewsService';
+import { migrateLegacyHighScore, recordRun, getBestScore, exportRunHistory, importRunHistory, createRunId, loadPlayerName, savePlayerName } from './services/leaderboardService';
+import { Shield, Play, Coins, RefreshCw, Pause, Star, Volume2, VolumeX, Mail, Film, Download, Upload, Save, FolderOpen, Trophy, Radio, PenTool, Building2, Rocket } from 'lucide-react';
+
+const downloadJson = (fileName: string, json: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 export default function App() {
+  const { t, locale, setLocale, formatNumber } = useI18n();
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [level, setLevel] = useState(1);
   const [credits, setCredits] = useState(0);
+  const [upgradesBought, setUpgradesBought] = useState(0); // Armory purchases this campaign
   const [buildingsRemaining, setBuildingsRemaining] = useState(6);
-  const [highScore, setHighScore] = useState(0);
+  const [bossReward, setBossReward] = useState(0); // Credits from the mothership on the level just completed
   const [isMuted, setIsMuted] = useState(false);
   
   // Difficulty State
   const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.MEDIUM);
+
+  // Leaderboard & Run History
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [levelRecords, setLevelRecords] = useState<LevelRecord[]>([]);
+  const [playerName, setPlayerName] = useState('');
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const highScore = getBestScore(runs, difficulty);
+
+  // Campaign seed - together with level & difficulty it fixes every attack wave
+  const [seed, setSeed] = useState<number>(() => createSeed());
+
+  // Replays: the run being recorded and the one open in the viewer
+  const [recording, setRecording] = useState<Replay | null>(null);
+  const [viewedReplay, setViewedReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+
+  // Surviving city (buildings & score) carried into the next level
+  const [city, setCity] = useState<LevelCarryOver | null>(null);
+
+  // Save Slots
+  const [saveSlots, setSaveSlots] = useState<SaveSlot[]>([]);
+  const [showSaveSlots, setShowSaveSlots] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // News Flash for the last battle
+  const [news, setNews] = useState<NewsReport | null>(null);
+  const [isNewsLoading, setIsNewsLoading] = useState(false);
+  const newsRequestRef = useRef(0);
+  // Set by loadCampaign so the armory it opens doesn't autosave over the autosave slot before anything changed
+  const skipAutosaveRef = useRef(false);
+  const [newsSettings, setNewsSettings] = useState<NewsSettings>(() => loadNewsSettings());
+  const [showNewsSettings, setShowNewsSettings] = useState(false);
+
+  // Level Editor
+  const [editorLevel, setEditorLevel] = useState<LevelDefinition>(() => createBlankLevel());
+  const [isPlaytesting, setIsPlaytesting] = useState(false);
+  const [playtestResult, setPlaytestResult] = useState<Exclude<EngineStatus, 'RUNNING'> | null>(null);
+  const [levelError, setLevelError] = useState<string | null>(null);
   
   // Upgrade State
-  const [upgrades, setUpgrades] = useState<UpgradeStats>({
-    speedLevel: 0,
-    radiusLevel: 0,
-    rateLevel: 0,
-    turretLevel: 0,
-    shieldLevel: 0,
-    targetingLevel: 0
-  });
-
-  // Load High Score
+  const [upgrades, setUpgrades] = useState<UpgradeStats>(() => createUpgradeStats());
+
+  // Special rounds, spent during play and topped up in the armory
+  const [ammoStock, setAmmoStock] = useState<AmmoStock>(() => createAmmoStock());
+
+  // Load Records & Saves
   useEffect(() => {
-    const saved = localStorage.getItem('shomrei_hair_highscore');
-    if (saved) setHighScore(parseInt(saved, 10));
+    setRuns(migrateLegacyHighScore());
+    setPlayerName(loadPlayerName());
+    setSaveSlots(listSaveSlots());
+    if (!canWriteSaves()) setSaveError(t('errors.saves'));
   }, []);
 
+  const getCampaignSnapshot = (): CampaignSnapshot | null => city && {
+    level,
+    credits,
+    upgrades,
+    ammo: ammoStock,
+    difficulty,
+    seed,
+    buildingsRemaining,
+    city,
+    levelRecords,
+    upgradesBought
+  };
+
+  // Autosave whenever the armory is shown or changes (purchases)
+  useEffect(() => {
+    if (gameState !== GameState.LEVEL_COMPLETE) return;
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    const campaign = getCampaignSnapshot();
+    if (!campaign) return;
+    if (!autosaveCampaign(campaign, t('saves.autosave'))) setSaveError(t('errors.saves'));
+    setSaveSlots(listSaveSlots());
+  }, [gameState, level, credits, upgrades, ammoStock, city]);
+
   const startGame = () => {
     setGameState(GameState.PLAYING);
     setLevel(1);
     setCredits(0);
-    setBuildingsRemaining(6);
+    setUpgradesBought(0);
+    setBuildingsRemaining(getLevelDefinition(1)?.city?.count ?? DEFAULT_CITY.count);
+    setCity(null);
+    setLevelRecords([]);
+    const newSeed = createSeed();
+    setSeed(newSeed);
+    setRecording(createReplay(newSeed, difficulty));
     // Reset upgrades but keep high score - Game starts from beginning
-    setUpgrades({ speedLevel: 0, radiusLevel: 0, rateLevel: 0, turretLevel: 0, shieldLevel: 0, targetingLevel: 0 }); 
+    setUpgrades(createUpgradeStats());
+    setAmmoStock(createAmmoStock());
   };
 
   const nextLevel = () => {
@@ -53,57 +161,346 @@ export default function App() {
     }
   };
 
+  const requestNews = (context: NewsContext) => {
+    // Only the latest battle's report may land on screen
+    const requestId = ++newsRequestRef.current;
+    setNews(null);
+    setIsNewsLoading(true);
+    // A provider that fails even to start still gets the offline report on screen
+    Promise.resolve()
+      .then(() => fetchNewsReport(context, newsSettings))
+      .catch(error => {
+        console.error("News Error:", error);
+        return templateNewsProvider.generateReport(context);
+      })
+      .then(report => {
+        if (newsRequestRef.current !== requestId) return;
+        setNews(report);
+        setIsNewsLoading(false);
+      });
+  };
+
+  const changeNewsSettings = (settings: NewsSettings) => {
+    setNewsSettings(settings);
+    saveNewsSettings(settings);
+  };
+
+  const clearNews = () => {
+    newsRequestRef.current++;
+    setNews(null);
+    setIsNewsLoading(false);
+  };
+
   const quitToMenu = () => {
+    if (isPlaytesting) {
+      endPlaytest(null);
+      return;
+    }
     setGameState(GameState.MENU);
   };
 
-  const handleLevelComplete = (stats: { buildingsLost: number; enemiesDestroyed: number }) => {
+  const handleLevelComplete = (stats: LevelResult) => {
+    if (isPlaytesting) {
+      endPlaytest('LEVEL_COMPLETE');
+      return;
+    }
     setGameState(GameState.LEVEL_COMPLETE);
-    const currentRemaining = Math.max(0, buildingsRemaining - stats.buildingsLost);
+    setCity(stats.city);
+    setAmmoStock(stats.ammo);
+    setSavedMessage(null);
+    setBossReward(stats.combat.bossReward);
+    // Counts any building the city grew after the level
+    const currentRemaining = stats.city.buildings.filter(b => !b.isDestroyed).length;
     setBuildingsRemaining(currentRemaining);
+    setLevelRecords(records => [...records, {
+      level,
+      buildingsLost: stats.buildingsLost,
+      buildingsStanding: currentRemaining,
+      enemiesDestroyed: stats.enemiesDestroyed,
+      score: stats.city.score
+    }]);
+    requestNews({ locale, outcome: 'LEVEL_COMPLETE', level, buildingsLost: stats.buildingsLost, buildingsRemaining: currentRemaining, combat: stats.combat });
     
     // Calculate Earned Credits based on difficulty
     let difficultyBonus = 1;
     if (difficulty === Difficulty.HARD) difficultyBonus = 1.5;
     if (difficulty === Difficulty.EASY) difficultyBonus = 0.8;
 
-    const earned = Math.floor(((currentRemaining * 50) + (stats.enemiesDestroyed * 10) + 100) * difficultyBonus); 
+    const earned = Math.floor((stats.cityCredits + (stats.enemiesDestroyed * 10) + 100) * difficultyBonus) + stats.combat.bonusCredits + stats.combat.bossReward;
     setCredits(c => c + earned);
   };
 
-  const handleGameOver = (finalScore: number) => {
+  const handleGameOver = (result: LevelResult) => {
+    if (isPlaytesting) {
+      endPlaytest('GAME_OVER');
+      return;
+    }
     setGameState(GameState.GAME_OVER);
     setBuildingsRemaining(0);
-    
-    if (finalScore > highScore) {
-      setHighScore(finalScore);
-      localStorage.setItem('shomrei_hair_highscore', finalScore.toString());
+
+    const levels: LevelRecord[] = [...levelRecords, {
+      level,
+      buildingsLost: result.buildingsLost,
+      buildingsStanding: 0,
+      enemiesDestroyed: result.enemiesDestroyed,
+      score: result.city.score
+    }];
+    setLevelRecords(levels);
+    requestNews({ locale, outcome: 'GAME_OVER', level, buildingsLost: result.buildingsLost, buildingsRemaining: 0, combat: result.combat });
+
+    setRuns(recordRun({
+      id: createRunId(),
+      mode: 'CAMPAIGN',
+      playerName: playerName.trim() || t('player.anonymous'),
+      difficulty,
+      seed,
+      date: new Date().toISOString(),
+      score: result.city.score,
+      levelReached: level,
+      buildingsSaved: levels.reduce((sum, l) => sum + l.buildingsStanding, 0),
+      enemiesDestroyed: levels.reduce((sum, l) => sum + l.enemiesDestroyed, 0),
+      upgradesBought,
+      upgrades: { ...upgrades },
+      levels
+    }));
+  };
+
+  // Records Logic
+  const changePlayerName = (name: string) => {
+    setPlayerName(name);
+    savePlayerName(name);
+  };
+
+  const openRecords = () => {
+    setHistoryError(null);
+    setGameState(GameState.RECORDS);
+  };
+
+  const exportHistory = () => {
+    downloadJson('shomrei-hair-history.json', exportRunHistory(runs));
+  };
+
+  const importHistory = (json: string) => {
+    try {
+      setRuns(importRunHistory(json));
+      setHistoryError(null);
+    } catch (error) {
+      console.error("History Error:", error);
+      setHistoryError(t('errors.history'));
     }
   };
 
-  // Upgrade Logic
-  const getUpgradeCost = (currentLevel: number) => 500 * (currentLevel + 1);
-
-  const buyUpgrade = (type: keyof UpgradeStats) => {
-    const cost = getUpgradeCost(upgrades[type]);
-    if (credits >= cost) {
-      setCredits(c => c - cost);
-      setUpgrades(prev => ({
-        ...prev,
-        [type]: prev[type] + 1
-      }));
+  // Editor Logic
+  const openEditor = () => {
+    setLevelError(null);
+    setPlaytestResult(null);
+    setGameState(GameState.EDITOR);
+  };
+
+  // Playtests run outside the campaign: no news, credits or run history
+  const startPlaytest = () => {
+    if (!canCompleteLevel(editorLevel)) return;
+    setPlaytestResult(null);
+    setIsPlaytesting(true);
+    clearNews();
+    setGameState(GameState.PLAYING);
+  };
+
+  const endPlaytest = (result: Exclude<EngineStatus, 'RUNNING'> | null) => {
+    setIsPlaytesting(false);
+    setPlaytestResult(result);
+    setGameState(GameState.EDITOR);
+  };
+
+  const exportLevel = () => {
+    downloadJson(`shomrei-hair-level-${editorLevel.level}.json`, serializeLevelPack([editorLevel]));
+  };
+
+  const importLevel = (json: string) => {
+    try {
+      const [imported] = parseLevelPack(json);
+      if (!imported) throw new Error('Invalid level pack: no levels');
+      setEditorLevel(imported);
+      setLevelError(null);
+    } catch (error) {
+      console.error("Level Error:", error);
+      setLevelError(t('errors.level'));
+    }
+  };
+
+  // Save Logic
+  const loadCampaign = (slot: SaveSlot) => {
+    const campaign = slot.campaign;
+    setLevel(campaign.level);
+    setCredits(campaign.credits);
+    setUpgradesBought(campaign.upgradesBought);
+    setUpgrades({ ...campaign.upgrades });
+    setAmmoStock({ ...campaign.ammo });
+    setDifficulty(campaign.difficulty);
+    setSeed(campaign.seed);
+    setBuildingsRemaining(campaign.buildingsRemaining);
+    setCity(campaign.city);
+    setLevelRecords(campaign.levelRecords);
+    setRecording(createReplay(campaign.seed, campaign.difficulty));
+    setShowSaveSlots(false);
+    setSavedMessage(null);
+    clearNews();
+    skipAutosaveRef.current = true;
+    // Resume in the armory of the last completed level
+    setGameState(GameState.LEVEL_COMPLETE);
+  };
+
+  const saveToSlot = () => {
+    const campaign = getCampaignSnapshot();
+    if (!campaign) return;
+    const name = saveName.trim() || t('shop.defaultSaveName', { level });
+    if (!saveCampaign(createSlotId(), name, campaign)) {
+      setSavedMessage(null);
+      setSaveError(t('errors.saves'));
+      return;
+    }
+    setSaveSlots(listSaveSlots());
+    setSaveName('');
+    setSavedMessage(t('shop.saved', { name }));
+  };
+
+  const removeSaveSlot = (slot: SaveSlot) => {
+    if (!deleteSaveSlot(slot.id)) setSaveError(t('errors.saves'));
+    setSaveSlots(listSaveSlots());
+  };
+
+  // Replay Logic
+  const watchReplay = (replay: Replay) => {
+    setReplayError(null);
+    setViewedReplay(replay);
+    setGameState(GameState.REPLAY);
+  };
+
+  const closeReplay = () => {
+    setViewedReplay(null);
+    setGameState(GameState.MENU);
+  };
+
+  const downloadReplay = (replay: Replay) => {
+    downloadJson(`shomrei-hair-replay-${replay.seed}.json`, serializeReplay(replay));
+  };
+
+  const loadReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      watchReplay(parseReplay(await file.text()));
+    } catch (error) {
+      console.error("Replay Error:", error);
+      setReplayError(t(error instanceof ReplayVersionError ? 'errors.replayVersion' : 'errors.replay'));
     }
   };
 
+  const hasRecording = recording !== null && recording.levels.some(l => l.frames.length > 0);
+
+  // Upgrade Logic
+  const buyUpgrade = (id: UpgradeId) => {
+    const cost = getUpgradeCost(id, upgrades[id]);
+    if (getUpgradeLock(upgrades, id) || credits < cost) return;
+    setCredits(c => c - cost);
+    setUpgradesBought(n => n + 1);
+    setUpgrades(prev => ({ ...prev, [id]: prev[id] + 1 }));
+  };
+
+  // Selling research also scales back the ground defenses that depend on it
+  const applyResearch = (next: UpgradeStats, refund: number) => {
+    const fitted = city ? fitStructuresToResearch(city.structures, next) : null;
+    setCredits(c => c + refund + (fitted?.refund ?? 0));
+    setUpgrades(next);
+    if (city && fitted) setCity({ ...city, structures: fitted.structures });
+  };
+
+  const refundUpgrade = (id: UpgradeId) => {
+    if (!canRefund(upgrades, id)) return;
+    applyResearch({ ...upgrades, [id]: upgrades[id] - 1 }, getRefundValue(id, upgrades[id]));
+  };
+
+  const respecUpgrades = () => applyResearch(createUpgradeStats(), getRespecValue(upgrades));
+
+  const buyAmmo = (type: SpecialAmmoType) => {
+    const { packCost } = AMMO_DEFINITIONS[type];
+    if (!canBuyAmmo(ammoStock, type) || credits < packCost) return;
+    setCredits(c => c - packCost);
+    setUpgradesBought(n => n + 1);
+    setAmmoStock(prev => addAmmoPack(prev, type));
+  };
+
+  // Ground defenses are part of the city that carries over into the next level
+  const updateStructures = (update: (structures: Structure[]) => Structure[]) => {
+    if (city) setCity({ ...city, structures: update(city.structures) });
+  };
+
+  const buildStructure = (slot: GroundSlot, type: StructureType) => {
+    const { buildCost } = getStructureDefinition(type);
+    if (!city || city.structures.some(s => s.slot === slot.index) || getStructureCap(upgrades, type) === 0 || credits < buildCost) return;
+    setCredits(c => c - buildCost);
+    setUpgradesBought(n => n + 1);
+    const id = Math.max(0, ...city.structures.map(s => s.id)) + 1;
+    updateStructures(structures => [...structures, createStructure(id, type, slot)]);
+  };
+
+  const upgradeStructure = (id: number) => {
+    const structure = city?.structures.find(s => s.id === id);
+    if (!structure || structure.isDestroyed || structure.level >= getStructureCap(upgrades, structure.type)) return;
+    const cost = getStructureUpgradeCost(structure);
+    if (credits < cost) return;
+    setCredits(c => c - cost);
+    setUpgradesBought(n => n + 1);
+    updateStructures(structures => structures.map(s => s.id === id ? { ...s, level: s.level + 1 } : s));
+  };
+
+  const repairDefense = (id: number) => {
+    const structure = city?.structures.find(s => s.id === id);
+    if (!structure) return;
+    const cost = getStructureRepairCost(structure);
+    if (cost === 0 || credits < cost) return;
+    setCredits(c => c - cost);
+    setUpgradesBought(n => n + 1);
+    updateStructures(structures => structures.map(s => s.id === id ? repairStructure(s) : s));
+  };
+
+  const sellStructure = (id: number) => {
+    const structure = city?.structures.find(s => s.id === id);
+    if (!structure) return;
+    setCredits(c => c + getStructureSellValue(structure));
+    updateStructures(structures => structures.filter(s => s.id !== id));
+  };
+
+  const setTurretPriority = (id: number, priority: TurretPriority) =>
+    updateStructures(structures => structures.map(s => s.id === id ? { ...s, priority } : s));
+
+  // Repairs apply to the city that carries over into the next level
+  const buyRepair = (buildingId: number) => {
+    const building = city?.buildings.find(b => b.id === buildingId);
+    if (!city || !building || !canRepair(city.buildings, building)) return;
+    const cost = getRepairCost(building, level);
+    if (cost === 0 || credits < cost) return;
+    setCredits(c => c - cost);
+    setUpgradesBought(n => n + 1);
+    if (building.isDestroyed) setBuildingsRemaining(n => n + 1);
+    setCity({ ...city, buildings: city.buildings.map(b => b.id === buildingId ? repairBuilding(b) : b) });
+  };
+
   return (
     <div className="relative w-full h-screen bg-slate-900 overflow-hidden select-none">
       
       {/* Game Layer */}
       <GameCanvas 
         gameState={gameState} 
-        level={level}
+        level={isPlaytesting ? editorLevel.level : level}
         difficulty={difficulty}
         upgradeStats={upgrades}
+        ammoStock={ammoStock}
+        seed={seed}
+        city={isPlaytesting ? null : city}
+        recording={isPlaytesting ? null : recording}
+        script={isPlaytesting ? editorLevel : undefined}
         highScore={highScore}
         isMuted={isMuted}
         onGameOver={handleGameOver}
@@ -114,7 +511,7 @@ export default function App() {
       <button 
         onClick={() => setIsMuted(!isMuted)}
         className="absolute bottom-4 right-4 z-20 bg-slate-800/80 p-2 rounded-full border border-slate-600 hover:bg-slate-700 transition-colors shadow-lg active:scale-95 text-slate-300"
-        aria-label={isMuted ? "Unmute" : "Mute"}
+        aria-label={isMuted ? t('menu.unmute') : t('menu.mute')}
       >
         {isMuted ? <VolumeX className="w-6 h-6" /> : <Volume2 className="w-6 h-6" />}
       </button>
@@ -124,7 +521,7 @@ export default function App() {
           <div className="text-[10px] text-slate-600 font-mono pointer-events-auto inline-flex gap-4 items-center bg-slate-950/50 px-3 py-1 rounded-full backdrop-blur-sm">
               <span>(C) Noam Gold AI 2025</span>
               <a href="mailto:gold.noam@gmail.com" className="hover:text-blue-400 flex items-center gap-1 transition-colors">
-                  Send Feedback <Mail className="w-3 h-3" />
+                  {t('menu.feedback')} <Mail className="w-3 h-3" />
               </a>
           </div>
       </div>
@@ -148,22 +545,53 @@ export default function App() {
       {gameState === GameState.MENU && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm animate-fade-in">
           <div className="max-w-md w-full p-8 text-center space-y-8 animate-scale-in">
+            {/* Language */}
+            <div className="flex justify-center gap-1">
+              {LOCALE_CODES.map(code => (
+                <button
+                  key={code}
+                  onClick={() => setLocale(code)}
+                  className={`px-3 py-1 rounded-md text-sm font-bold transition-colors ${locale === code ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-blue-400'}`}
+                >
+                  {LOCALES[code].name}
+                </button>
+              ))}
+            </div>
+
             <div className="flex justify-center">
               <Shield className="w-20 h-20 text-blue-500 drop-shadow-lg" />
             </div>
             <div>
               <h1 className="text-5xl font-black text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-300 mb-2">
-                שומרי העיר
+                {t('app.title')}
               </h1>
-              <p className="text-slate-400 text-lg">מערכת הגנה אווירית מתקדמת</p>
+              <p className="text-slate-400 text-lg">{t('app.subtitle')}</p>
             </div>
 
             {highScore > 0 && (
               <div className="bg-slate-900/80 border border-slate-700 p-3 rounded-lg flex items-center justify-center gap-2">
                  <Star className="w-5 h-5 text-yellow-400 fill-yellow-400" />
-                 <span className="text-yellow-100 font-mono text-xl">שיא: {highScore}</span>
+                 <span className="text-yellow-100 font-mono text-xl">{t('menu.highScore', { score: highScore })}</span>
               </div>
             )}
+
+            {/* Player Name & Records */}
+            <div className="flex gap-2">
+              <input
+                value={playerName}
+                onChange={(e) => changePlayerName(e.target.value)}
+                placeholder={t('menu.playerName')}
+                maxLength={20}
+                className="flex-1 bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 focus:outline-none focus:border-blue-500"
+              />
+              <button
+                onClick={openRecords}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-yellow-300 rounded-lg font-bold border border-slate-700 transition-colors flex items-center gap-2"
+              >
+                <Trophy className="w-5 h-5" />
+                {t('menu.records')}
+              </button>
+            </div>
             
             {/* Difficulty Selector */}
             <div className="flex justify-center gap-2 bg-slate-900/50 p-2 rounded-lg border border-slate-800">
@@ -171,19 +599,19 @@ export default function App() {
                 onClick={() => setDifficulty(Difficulty.EASY)}
                 className={`px-4 py-2 rounded-md font-bold transition-all ${difficulty === Difficulty.EASY ? 'bg-green-600 text-white shadow-lg' : 'text-slate-500 hover:text-green-400'}`}
               >
-                קל
+                {t('difficulty.EASY')}
               </button>
               <button
                 onClick={() => setDifficulty(Difficulty.MEDIUM)}
                 className={`px-4 py-2 rounded-md font-bold transition-all ${difficulty === Difficulty.MEDIUM ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-blue-400'}`}
               >
-                רגיל
+                {t('difficulty.MEDIUM')}
               </button>
               <button
                 onClick={() => setDifficulty(Difficulty.HARD)}
                 className={`px-4 py-2 rounded-md font-bold transition-all ${difficulty === Difficulty.HARD ? 'bg-red-600 text-white shadow-lg' : 'text-slate-500 hover:text-red-400'}`}
               >
-                קשה
+                {t('difficulty.HARD')}
               </button>
             </div>
             
@@ -192,8 +620,84 @@ export default function App() {
               className="w-full py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xl shadow-lg shadow-blue-500/25 transition-all flex items-center justify-center gap-3 group"
             >
               <Play className="fill-current group-hover:scale-110 transition-transform" />
-              התחל משימה
+              {t('menu.start')}
+            </button>
+
+            {/* Saved Campaigns */}
+            {saveSlots.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => loadCampaign(saveSlots[0])}
+                    className="flex-1 py-3 bg-green-700 hover:bg-green-600 text-white rounded-lg font-bold transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Play className="w-5 h-5" />
+                    {t('menu.continue', { level: saveSlots[0].campaign.level + 1 })}
+                  </button>
+                  <button
+                    onClick={() => setShowSaveSlots(v => !v)}
+                    className="px-4 py-3 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg font-bold border border-slate-700 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <FolderOpen className="w-5 h-5" />
+                    {t('menu.load')}
+                  </button>
+                </div>
+                {showSaveSlots && (
+                  <div className="bg-slate-900/80 border border-slate-700 p-3 rounded-lg animate-fade-in">
+                    <SaveSlotList slots={saveSlots} onLoad={loadCampaign} onDelete={removeSaveSlot} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {saveError && <div className="text-red-400 text-sm">{saveError}</div>}
+
+            {/* Replays */}
+            <div className="flex gap-2">
+              {hasRecording && (
+                <button
+                  onClick={() => watchReplay(recording!)}
+                  className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg font-bold text-sm border border-slate-700 transition-colors flex items-center justify-center gap-2"
+                >
+                  <Film className="w-4 h-4" />
+                  {t('menu.watchLast')}
+                </button>
+              )}
+              <button
+                onClick={() => replayInputRef.current?.click()}
+                className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg font-bold text-sm border border-slate-700 transition-colors flex items-center justify-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                {t('menu.loadReplay')}
+              </button>
+              <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={loadReplayFile} />
+            </div>
+            {replayError && <div className="text-red-400 text-sm">{replayError}</div>}
+
+            {/* Level Editor */}
+            <button
+              onClick={openEditor}
+              className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-cyan-300 rounded-lg font-bold text-sm border border-slate-700 transition-colors flex items-center justify-center gap-2"
+            >
+              <PenTool className="w-4 h-4" />
+              {t('menu.editor')}
             </button>
+
+            {/* News Reporter Settings */}
+            <div className="space-y-2">
+              <button
+                onClick={() => setShowNewsSettings(v => !v)}
+                className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg font-bold text-sm border border-slate-700 transition-colors flex items-center justify-center gap-2"
+              >
+                <Radio className="w-4 h-4" />
+                {t('menu.newsSource')}
+              </button>
+              {showNewsSettings && (
+                <div className="bg-slate-900/80 border border-slate-700 p-3 rounded-lg animate-fade-in">
+                  <NewsSettingsPanel settings={newsSettings} onChange={changeNewsSettings} />
+                </div>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -202,7 +706,8 @@ export default function App() {
       {gameState === GameState.PAUSED && (
         <div className="absolute inset-0 z-40 flex items-center justify-center bg-slate-950/60 backdrop-blur-sm animate-fade-in">
           <div className="bg-slate-900 p-8 rounded-2xl border border-slate-700 shadow-2xl text-center space-y-6 max-w-sm w-full animate-scale-in">
-            <h2 className="text-3xl font-bold text-white">משחק מושהה</h2>
+            <h2 className="text-3xl font-bold text-white">{t('pause.title')}</h2>
+            <div className="text-xs text-slate-500 font-mono" dir="ltr">{t('pause.seed', { seed })}</div>
             
             <div className="space-y-3">
               <button 
@@ -210,7 +715,7 @@ export default function App() {
                 className="w-full py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-lg flex items-center justify-center gap-2 transition-colors hover:scale-105 transform"
               >
                 <Play className="w-5 h-5" />
-                המשך
+                {t('pause.resume')}
               </button>
               
               <button 
@@ -218,7 +723,7 @@ export default function App() {
                 className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-bold text-lg flex items-center justify-center gap-2 transition-colors hover:scale-105 transform"
               >
                 <RefreshCw className="w-5 h-5" />
-                חזור לתפריט
+                {t('pause.quit')}
               </button>
             </div>
           </div>
@@ -233,13 +738,27 @@ export default function App() {
             {/* Stats Summary */}
             <div className="grid grid-cols-2 gap-4 animate-slide-up">
               <div className="bg-slate-900 p-4 rounded-xl border border-slate-800 flex flex-col items-center">
-                <div className="text-slate-500 text-sm mb-1">שלב הושלם</div>
-                <div className="text-3xl font-mono text-green-400 font-bold">{level}</div>
+                <div className="text-slate-500 text-sm mb-1">{t('shop.levelComplete')}</div>
+                <div className="text-3xl font-mono text-green-400 font-bold">{formatNumber(level)}</div>
               </div>
               <div className="bg-slate-900 p-4 rounded-xl border border-slate-800 flex flex-col items-center">
-                <div className="text-slate-500 text-sm mb-1">בניינים שנותרו</div>
-                <div className="text-3xl font-mono text-blue-400 font-bold">{buildingsRemaining}</div>
+                <div className="text-slate-500 text-sm mb-1">{t('shop.buildingsLeft')}</div>
+                <div className="text-3xl font-mono text-blue-400 font-bold">{formatNumber(buildingsRemaining)}</div>
               </div>
+              {bossReward > 0 && (
+                <div className="col-span-2 bg-rose-950/60 p-4 rounded-xl border border-rose-700 flex items-center justify-between">
+                  <div className="text-rose-300 font-bold">{t('shop.bossReward')}</div>
+                  <div className="flex items-center gap-2 text-yellow-400 font-mono text-2xl font-bold">
+                    <Coins className="w-5 h-5" />
+                    +{formatNumber(bossReward)}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* News Flash */}
+            <div className="animate-slide-up">
+              <NewsFlash report={news} isLoading={isNewsLoading} />
             </div>
 
             {/* Armory / Upgrades */}
@@ -247,142 +766,134 @@ export default function App() {
               <div className="flex items-center justify-between border-b border-slate-700 pb-4">
                 <h3 className="text-2xl font-bold text-white flex items-center gap-2">
                   <Shield className="w-6 h-6 text-blue-500" />
-                  נשקייה
+                  {t('shop.title')}
                 </h3>
                 <div className="flex items-center gap-2 text-yellow-400 font-mono text-xl">
                   <Coins className="w-5 h-5" />
-                  {credits}
+                  {formatNumber(credits)}
                 </div>
               </div>
 
-              <div className="space-y-3 overflow-y-auto max-h-[400px] pr-2">
-                {/* Speed Upgrade */}
-                <div className="bg-slate-800 p-3 rounded-lg flex items-center justify-between hover:bg-slate-750 transition-colors">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-blue-500/20 rounded-lg">
-                      <Zap className="w-5 h-5 text-blue-400" />
-                    </div>
-                    <div>
-                      <div className="font-bold text-sm">מהירות יירוט</div>
-                      <div className="text-xs text-slate-400">רמה {upgrades.speedLevel + 1}</div>
+              <div className="space-y-3 overflow-y-auto max-h-[400px] pe-2">
+                {/* City Repairs */}
+                {city && (
+                  <div className="bg-slate-800 p-3 rounded-lg space-y-2 border border-amber-900/50">
+                    <div className="font-bold text-sm flex items-center gap-2">
+                      <Building2 className="w-5 h-5 text-amber-400" />
+                      {t('repair.title')}
                     </div>
+                    {!hasCityEffect(city.buildings, 'repairs') && (
+                      <div className="text-xs text-red-400">{t('repair.needsHospital')}</div>
+                    )}
+                    {city.buildings.map(b => {
+                      const cost = getRepairCost(b, level);
+                      const { effect } = getBuildingDefinition(b.type);
+                      return (
+                        <div key={b.id} className="flex items-center gap-3">
+                          <div className="w-24 shrink-0">
+                            <div className="text-xs">{t(`building.${b.type}`)}</div>
+                            {effect && <div className="text-[10px] text-cyan-400">{t(`building.effect.${effect}`)}</div>}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                              <div
+                                className={`h-full ${b.health / b.maxHealth > 0.6 ? 'bg-green-500' : b.health / b.maxHealth > 0.3 ? 'bg-orange-500' : 'bg-red-500'}`}
+                                style={{ width: `${(b.health / b.maxHealth) * 100}%` }}
+                              />
+                            </div>
+                            <div className="text-[10px] text-slate-400">{t(`damage.${getDamageStage(b)}`)}</div>
+                          </div>
+                          {cost > 0 && (
+                            <button
+                              onClick={() => buyRepair(b.id)}
+                              disabled={credits < cost || !canRepair(city.buildings, b)}
+                              className="px-2 py-1 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:hover:bg-amber-600 rounded text-xs font-bold transition-colors shrink-0"
+                            >
+                              {t(b.isDestroyed ? 'repair.rebuild' : 'repair.repair', { cost })}
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
-                  <button 
-                    onClick={() => buyUpgrade('speedLevel')}
-                    disabled={credits < getUpgradeCost(upgrades.speedLevel)}
-                    className="px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 rounded text-xs font-bold transition-colors"
-                  >
-                    שדרג ({getUpgradeCost(upgrades.speedLevel)})
-                  </button>
-                </div>
+                )}
 
-                {/* Radius Upgrade */}
-                <div className="bg-slate-800 p-3 rounded-lg flex items-center justify-between hover:bg-slate-750 transition-colors">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-orange-500/20 rounded-lg">
-                      <Circle className="w-5 h-5 text-orange-400" />
-                    </div>
-                    <div>
-                      <div className="font-bold text-sm">ראש קרב</div>
-                      <div className="text-xs text-slate-400">רמה {upgrades.radiusLevel + 1}</div>
-                    </div>
-                  </div>
-                  <button 
-                    onClick={() => buyUpgrade('radiusLevel')}
-                    disabled={credits < getUpgradeCost(upgrades.radiusLevel)}
-                    className="px-2 py-1 bg-orange-600 hover:bg-orange-500 disabled:opacity-50 disabled:hover:bg-orange-600 rounded text-xs font-bold transition-colors"
-                  >
-                    שדרג ({getUpgradeCost(upgrades.radiusLevel)})
-                  </button>
-                </div>
+                {/* Ground Defenses */}
+                {city && (
+                  <DefenseBuilder
+                    city={city}
+                    width={window.innerWidth}
+                    upgrades={upgrades}
+                    credits={credits}
+                    onBuild={buildStructure}
+                    onUpgrade={upgradeStructure}
+                    onRepair={repairDefense}
+                    onSell={sellStructure}
+                    onPriority={setTurretPriority}
+                  />
+                )}
 
-                 {/* Fire Rate Upgrade */}
-                 <div className="bg-slate-800 p-3 rounded-lg flex items-center justify-between hover:bg-slate-750 transition-colors">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-green-500/20 rounded-lg">
-                      <Crosshair className="w-5 h-5 text-green-400" />
-                    </div>
-                    <div>
-                      <div className="font-bold text-sm">קצב אש</div>
-                      <div className="text-xs text-slate-400">רמה {upgrades.rateLevel + 1}</div>
-                    </div>
-                  </div>
-                  <button 
-                    onClick={() => buyUpgrade('rateLevel')}
-                    disabled={credits < getUpgradeCost(upgrades.rateLevel)}
-                    className="px-2 py-1 bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:hover:bg-green-600 rounded text-xs font-bold transition-colors"
-                  >
-                    שדרג ({getUpgradeCost(upgrades.rateLevel)})
-                  </button>
-                </div>
-
-                {/* Targeting System Upgrade */}
-                <div className="bg-slate-800 p-3 rounded-lg flex items-center justify-between hover:bg-slate-750 transition-colors border border-red-900/50">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-red-500/20 rounded-lg">
-                      <Target className="w-5 h-5 text-red-400" />
-                    </div>
-                    <div>
-                      <div className="font-bold text-sm">מערכת כיוון</div>
-                      <div className="text-xs text-slate-400">{upgrades.targetingLevel === 0 ? 'לא נרכש' : `רמה ${upgrades.targetingLevel}`}</div>
-                    </div>
+                {/* Special Ammo */}
+                <div className="bg-slate-800 p-3 rounded-lg space-y-2 border border-slate-700">
+                  <div className="font-bold text-sm flex items-center gap-2">
+                    <Rocket className="w-5 h-5 text-pink-400" />
+                    {t('ammo.title')}
                   </div>
-                  <button 
-                    onClick={() => buyUpgrade('targetingLevel')}
-                    disabled={credits < getUpgradeCost(upgrades.targetingLevel)}
-                    className="px-2 py-1 bg-red-600 hover:bg-red-500 disabled:opacity-50 disabled:hover:bg-red-600 rounded text-xs font-bold transition-colors"
-                  >
-                    {upgrades.targetingLevel === 0 ? 'רכוש' : 'שדרג'} ({getUpgradeCost(upgrades.targetingLevel)})
-                  </button>
+                  {SPECIAL_AMMO_TYPES.map(type => {
+                    const def = AMMO_DEFINITIONS[type];
+                    return (
+                      <div key={type} className="flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-xs font-bold" style={{ color: def.color }}>
+                            {t(`ammo.${type}`)} <span className="text-slate-500 font-mono">[{def.hotkey.replace('Key', '')}]</span>
+                          </div>
+                          <div className="text-[10px] text-slate-400">{t(`ammo.description.${type}`)}</div>
+                        </div>
+                        <div className="text-xs font-mono text-slate-300 shrink-0">
+                          {t('ammo.stock', { stock: ammoStock[type], max: def.maxStock })}
+                        </div>
+                        <button
+                          onClick={() => buyAmmo(type)}
+                          disabled={credits < def.packCost || !canBuyAmmo(ammoStock, type)}
+                          className="px-2 py-1 bg-pink-600 hover:bg-pink-500 disabled:opacity-50 disabled:hover:bg-pink-600 rounded text-xs font-bold transition-colors shrink-0"
+                        >
+                          {t('ammo.buy', { count: def.packSize, cost: formatNumber(def.packCost) })}
+                        </button>
+                      </div>
+                    );
+                  })}
                 </div>
 
-                {/* Turret Upgrade */}
-                <div className="bg-slate-800 p-3 rounded-lg flex items-center justify-between hover:bg-slate-750 transition-colors border border-purple-900/50">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-purple-500/20 rounded-lg">
-                      <Anchor className="w-5 h-5 text-purple-400" />
-                    </div>
-                    <div>
-                      <div className="font-bold text-sm">צריח אוטומטי</div>
-                      <div className="text-xs text-slate-400">{upgrades.turretLevel === 0 ? 'לא נרכש' : `רמה ${upgrades.turretLevel}`}</div>
-                    </div>
-                  </div>
-                  <button 
-                    onClick={() => buyUpgrade('turretLevel')}
-                    disabled={credits < getUpgradeCost(upgrades.turretLevel)}
-                    className="px-2 py-1 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:hover:bg-purple-600 rounded text-xs font-bold transition-colors"
-                  >
-                    {upgrades.turretLevel === 0 ? 'רכוש' : 'שדרג'} ({getUpgradeCost(upgrades.turretLevel)})
-                  </button>
-                </div>
+                {/* Tech Tree */}
+                <UpgradeTree upgrades={upgrades} credits={credits} onBuy={buyUpgrade} onRefund={refundUpgrade} onRespec={respecUpgrades} />
 
-                {/* Shield Upgrade */}
-                <div className="bg-slate-800 p-3 rounded-lg flex items-center justify-between hover:bg-slate-750 transition-colors border border-cyan-900/50">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-cyan-500/20 rounded-lg">
-                      <Hexagon className="w-5 h-5 text-cyan-400" />
-                    </div>
-                    <div>
-                      <div className="font-bold text-sm">מגן אנרגיה</div>
-                      <div className="text-xs text-slate-400">{upgrades.shieldLevel === 0 ? 'לא נרכש' : `רמה ${upgrades.shieldLevel}`}</div>
-                    </div>
-                  </div>
-                  <button 
-                    onClick={() => buyUpgrade('shieldLevel')}
-                    disabled={credits < getUpgradeCost(upgrades.shieldLevel)}
-                    className="px-2 py-1 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:hover:bg-cyan-600 rounded text-xs font-bold transition-colors"
-                  >
-                    {upgrades.shieldLevel === 0 ? 'רכוש' : 'שדרג'} ({getUpgradeCost(upgrades.shieldLevel)})
-                  </button>
-                </div>
+              </div>
 
+              {/* Manual Save */}
+              <div className="flex gap-2 items-center">
+                <input
+                  value={saveName}
+                  onChange={(e) => setSaveName(e.target.value)}
+                  placeholder={t('shop.saveName')}
+                  maxLength={32}
+                  className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={saveToSlot}
+                  className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors"
+                >
+                  <Save className="w-4 h-4" />
+                  {t('shop.save')}
+                </button>
               </div>
+              {savedMessage && <div className="text-green-400 text-xs">{savedMessage}</div>}
+              {saveError && <div className="text-red-400 text-xs">{saveError}</div>}
 
               <button 
                 onClick={nextLevel}
                 className="w-full py-4 bg-green-600 hover:bg-green-500 text-white rounded-lg font-bold text-xl shadow-lg shadow-green-500/25 transition-all mt-4 hover:scale-105 transform active:scale-95"
               >
-                המשך לשלב הבא
+                {t('shop.next')}
               </button>
             </div>
 
@@ -395,32 +906,82 @@ export default function App() {
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-red-950/90 backdrop-blur-md animate-fade-in delay-1000 opacity-0 fill-mode-forwards" style={{animationDelay: '1.5s', animationFillMode: 'forwards'}}>
           <div className="text-center space-y-6 max-w-lg p-8 animate-scale-in">
             <h2 className="text-6xl font-black text-white drop-shadow-[0_5px_5px_rgba(0,0,0,0.5)]">
-              העיר נפלה
+              {t('gameOver.title')}
             </h2>
             <p className="text-red-200 text-2xl">
-              כל הבניינים נהרסו. המערכה הסתיימה.
+              {t('gameOver.subtitle')}
             </p>
             <div className="text-4xl font-mono font-bold text-white py-4 border-y border-white/20">
-              הגעת לשלב {level}
+              {t('gameOver.reached', { level })}
             </div>
+            <NewsFlash report={news} isLoading={isNewsLoading} />
             <div className="flex flex-col gap-4 w-full">
               <button 
                 onClick={startGame}
                 className="w-full px-8 py-3 bg-red-600 text-white font-bold rounded-full hover:bg-red-500 transition-all shadow-xl text-lg flex items-center justify-center gap-2 hover:scale-105 transform"
               >
                 <RefreshCw className="w-5 h-5" />
-                נסה שוב (התחל מחדש)
+                {t('gameOver.retry')}
               </button>
+              {hasRecording && (
+                <div className="flex gap-2">
+                  <button 
+                    onClick={() => watchReplay(recording!)}
+                    className="flex-1 px-4 py-3 bg-white/10 text-white font-bold rounded-full hover:bg-white/20 transition-all flex items-center justify-center gap-2"
+                  >
+                    <Film className="w-5 h-5" />
+                    {t('gameOver.watchReplay')}
+                  </button>
+                  <button 
+                    onClick={() => downloadReplay(recording!)}
+                    className="flex-1 px-4 py-3 bg-white/10 text-white font-bold rounded-full hover:bg-white/20 transition-all flex items-center justify-center gap-2"
+                  >
+                    <Download className="w-5 h-5" />
+                    {t('gameOver.saveReplay')}
+                  </button>
+                </div>
+              )}
               <button 
                 onClick={() => setGameState(GameState.MENU)}
                 className="w-full px-8 py-3 bg-white/10 text-white font-bold rounded-full hover:bg-white/20 transition-all text-lg flex items-center justify-center gap-2"
               >
-                חזור לתפריט הראשי
+                {t('gameOver.menu')}
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {/* Leaderboard & Run History */}
+      {gameState === GameState.RECORDS && (
+        <RunHistory
+          runs={runs}
+          initialDifficulty={difficulty}
+          onImport={importHistory}
+          onExport={exportHistory}
+          onClose={() => setGameState(GameState.MENU)}
+          importError={historyError}
+        />
+      )}
+
+      {/* Level Editor */}
+      {gameState === GameState.EDITOR && (
+        <LevelEditor
+          level={editorLevel}
+          playtestResult={playtestResult}
+          onChange={setEditorLevel}
+          onPlaytest={startPlaytest}
+          onImport={importLevel}
+          onExport={exportLevel}
+          onClose={() => setGameState(GameState.MENU)}
+          importError={levelError}
+        />
+      )}
+
+      {/* Replay Viewer */}
+      {gameState === GameState.REPLAY && viewedReplay && (
+        <ReplayViewer key={viewedReplay.recordedAt + viewedReplay.seed} replay={viewedReplay} onClose={closeReplay} />
+      )}
     </div>
   );
 }
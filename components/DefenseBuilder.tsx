@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { LevelCarryOver, StructureType, TurretPriority, UpgradeStats } from '../types';
+import { MessageKey } from '../i18n/he';
+import { getBuildingDefinition } from '../engine/buildings';
+import {
+  GroundSlot, STRUCTURE_TYPES, TURRET_PRIORITIES, getGroundSlots, getStructureCap, getStructureDefinition,
+  getStructureRepairCost, getStructureSellValue, getStructureUpgradeCost, positionStructures
+} from '../engine/structures';
+import { useI18n } from '../i18n/I18nContext';
+import { Castle } from 'lucide-react';
+
+interface DefenseBuilderProps {
+  city: LevelCarryOver;
+  width: number; // screen width the city was laid out for
+  upgrades: UpgradeStats;
+  credits: number;
+  onBuild: (slot: GroundSlot, type: StructureType) => void;
+  onUpgrade: (id: number) => void;
+  onRepair: (id: number) => void;
+  onSell: (id: number) => void;
+  onPriority: (id: number, priority: TurretPriority) => void;
+}
+
+// Tech tree node names, for the "research first" hint
+const RESEARCH_NAMES: Partial<Record<keyof UpgradeStats, MessageKey>> = {
+  turretLevel: 'upgrade.turret',
+  targetingLevel: 'upgrade.targeting',
+  shieldLevel: 'upgrade.shield'
+};
+
+const DefenseBuilder: React.FC<DefenseBuilderProps> = ({ city, width, upgrades, credits, onBuild, onUpgrade, onRepair, onSell, onPriority }) => {
+  const { t, formatNumber } = useI18n();
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
+
+  const slots = getGroundSlots(city.buildings, width);
+  const structures = positionStructures(city.structures, city.buildings, width);
+  const slot = slots.find(s => s.index === selectedSlot) ?? null;
+  const selected = structures.find(s => s.slot === selectedSlot) ?? null;
+
+  const researchName = (type: StructureType) => {
+    const { research } = getStructureDefinition(type);
+    const name = RESEARCH_NAMES[research];
+    return name ? t(name) : research;
+  };
+
+  return (
+    <div className="bg-slate-800 p-3 rounded-lg space-y-2 border border-violet-900/50">
+      <div className="font-bold text-sm flex items-center gap-2">
+        <Castle className="w-5 h-5 text-violet-400" />
+        {t('defense.title')}
+      </div>
+
+      {slots.length === 0 ? (
+        <div className="text-xs text-slate-400">{t('defense.noSlots')}</div>
+      ) : (
+        <>
+          {/* Ground strip: buildings in their colours, slots as buttons between them */}
+          <div dir="ltr" className="relative h-16 bg-slate-950 rounded border border-slate-700 overflow-hidden">
+            {city.buildings.map(b => (
+              <div
+                key={b.id}
+                className={`absolute bottom-0 ${b.isDestroyed ? 'opacity-20' : 'opacity-60'}`}
+                style={{
+                  left: `${(b.x / width) * 100}%`,
+                  width: `${(b.width / width) * 100}%`,
+                  height: `${b.height * 0.8}%`,
+                  backgroundColor: getBuildingDefinition(b.type).color
+                }}
+              />
+            ))}
+            {slots.map(s => {
+              const structure = structures.find(st => st.slot === s.index);
+              return (
+                <button
+                  key={s.index}
+                  onClick={() => setSelectedSlot(s.index === selectedSlot ? null : s.index)}
+                  title={structure ? t(`structure.${structure.type}`) : t('defense.emptySlot')}
+                  className={`absolute bottom-0 w-5 h-6 -translate-x-1/2 rounded-t border-2 text-[9px] font-bold ${s.index === selectedSlot ? 'border-yellow-400' : 'border-slate-500'} ${structure?.isDestroyed ? 'opacity-40' : ''}`}
+                  style={{ left: `${(s.x / width) * 100}%`, backgroundColor: structure ? getStructureDefinition(structure.type).color : 'transparent' }}
+                >
+                  {structure ? structure.level : '+'}
+                </button>
+              );
+            })}
+          </div>
+
+          {!slot && <div className="text-xs text-slate-400">{t('defense.pickSlot')}</div>}
+
+          {/* Empty slot: what can go there */}
+          {slot && !selected && STRUCTURE_TYPES.map(type => {
+            const def = getStructureDefinition(type);
+            const cap = getStructureCap(upgrades, type);
+            return (
+              <div key={type} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-bold">{t(`structure.${type}`)}</div>
+                  <div className="text-[10px] text-slate-400">{t(`structure.description.${type}`)}</div>
+                </div>
+                {cap === 0 ? (
+                  <div className="text-[10px] text-slate-500 shrink-0">{t('defense.needsResearch', { name: researchName(type) })}</div>
+                ) : (
+                  <button
+                    onClick={() => onBuild(slot, type)}
+                    disabled={credits < def.buildCost}
+                    className="px-2 py-1 bg-violet-600 hover:bg-violet-500 disabled:opacity-50 disabled:hover:bg-violet-600 rounded text-xs font-bold transition-colors shrink-0"
+                  >
+                    {t('defense.build', { cost: formatNumber(def.buildCost) })}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Built slot: the structure's own settings */}
+          {selected && (() => {
+            const cap = getStructureCap(upgrades, selected.type);
+            const upgradeCost = getStructureUpgradeCost(selected);
+            const repairCost = getStructureRepairCost(selected);
+            return (
+              <div className="space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-bold">{t(`structure.${selected.type}`)}</div>
+                    <div className="text-[10px] text-slate-400">
+                      {t('upgrade.levelOf', { level: selected.level, max: getStructureDefinition(selected.type).maxLevel })}
+                      {' · '}
+                      {selected.isDestroyed ? t('damage.destroyed') : `${selected.health}/${selected.maxHealth}`}
+                    </div>
+                  </div>
+                  {selected.type === StructureType.TURRET && (
+                    <label className="text-[10px] text-slate-400 flex items-center gap-1 shrink-0">
+                      {t('defense.priority')}
+                      <select
+                        value={selected.priority}
+                        onChange={(e) => onPriority(selected.id, e.target.value as TurretPriority)}
+                        className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white"
+                      >
+                        {TURRET_PRIORITIES.map(p => <option key={p} value={p}>{t(`priority.${p}`)}</option>)}
+                      </select>
+                    </label>
+                  )}
+                </div>
+
+                {selected.type === StructureType.TURRET && (
+                  <div className="text-[10px] text-slate-400">{t(`priority.description.${selected.priority}`)}</div>
+                )}
+
+                <div className="flex gap-2">
+                  {selected.level < cap ? (
+                    <button
+                      onClick={() => onUpgrade(selected.id)}
+                      disabled={credits < upgradeCost || selected.isDestroyed}
+                      className="flex-1 px-2 py-1 bg-violet-600 hover:bg-violet-500 disabled:opacity-50 disabled:hover:bg-violet-600 rounded text-xs font-bold transition-colors"
+                    >
+                      {t('upgrade.upgrade', { cost: formatNumber(upgradeCost) })}
+                    </button>
+                  ) : (
+                    <div className="flex-1 text-[10px] text-slate-400 self-center">
+                      {selected.level >= getStructureDefinition(selected.type).maxLevel ? t('upgrade.maxed') : t('defense.researchCap', { name: researchName(selected.type) })}
+                    </div>
+                  )}
+                  {repairCost > 0 && (
+                    <button
+                      onClick={() => onRepair(selected.id)}
+                      disabled={credits < repairCost}
+                      className="px-2 py-1 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:hover:bg-amber-600 rounded text-xs font-bold transition-colors"
+                    >
+                      {t(selected.isDestroyed ? 'repair.rebuild' : 'repair.repair', { cost: repairCost })}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onSell(selected.id)}
+                    className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-slate-300 transition-colors"
+                  >
+                    {t('defense.sell', { value: formatNumber(getStructureSellValue(selected)) })}
+                  </button>
+                </div>
+              </div>
+            );
+          })()}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DefenseBuilder;
@@ -1,6 +1,16 @@
-
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Building, EnemyMissile, Interceptor, Explosion, GameState, UpgradeStats, EnemyType, Difficulty, Projectile } from '../types';
+import { AmmoStock, AmmoType, BatteryId, ShieldAbility, StructureType, GameState, UpgradeStats, Difficulty, EngineState, EngineInput, EngineEvent, SoundEffect, Replay, ReplayLevel, LevelCarryOver, LevelResult, LevelDefinition } from '../types';
+import {
+  createEngineState, createInput, step, getComboProgress, getTimeLeft, getWavesLeft, getActiveStructures, getShieldAbilityLock,
+  isShieldAbilityActive, ShieldAbilityLock
+} from '../engine/gameEngine';
+import { AMMO_DEFINITIONS, AMMO_TYPES, SPECIAL_AMMO_TYPES, createAmmoStock } from '../engine/ammo';
+import { getShieldMaxEnergy } from '../engine/structures';
+import { SHIELD_ABILITIES, SHIELD_ABILITY_DEFINITIONS } from '../engine/shieldAbilities';
+import { beginReplayLevel, recordFrame, recordPause } from '../engine/replay';
+import { advanceFixedStep, createFixedStepClock, FIXED_STEP } from '../engine/fixedStep';
+import { drawScene, capturePositions, PositionSnapshot } from './sceneRenderer';
+import { useI18n } from '../i18n/I18nContext';
 import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Crosshair } from 'lucide-react';
 
 interface GameCanvasProps {
@@ -8,78 +18,90 @@ interface GameCanvasProps {
   level: number;
   difficulty: Difficulty;
   upgradeStats: UpgradeStats;
+  ammoStock: AmmoStock; // Special rounds bought in the armory
+  seed: number;
+  city: LevelCarryOver | null; // Surviving city from the previous level
+  recording: Replay | null; // Replay being recorded for the current run
+  script?: LevelDefinition; // Level being playtested from the editor instead of the campaign's
   highScore: number;
   isMuted: boolean;
-  onGameOver: (score: number) => void;
-  onLevelComplete: (stats: { buildingsLost: number; enemiesDestroyed: number }) => void;
+  onGameOver: (result: LevelResult) => void;
+  onLevelComplete: (result: LevelResult) => void;
 }
 
-const LEVEL_DURATION = 30; // seconds
-const COMBO_TIMEOUT = 2500; // ms to keep combo alive
+type ControlKey = 'up' | 'down' | 'left' | 'right' | 'fire';
+
+// What the shield panel shows, rounded so idle frames compare equal
+interface ShieldHud {
+  generators: { id: number; level: number; charge: number; overload: boolean }[];
+  abilities: { type: ShieldAbility; lock: ShieldAbilityLock | null; active: boolean; cooldown: number }[];
+}
+
+const getShieldHud = (state: EngineState): ShieldHud => ({
+  generators: getActiveStructures(state, StructureType.SHIELD_GENERATOR).map(g => ({
+    id: g.id,
+    level: g.level,
+    charge: Math.round(100 * g.energy / getShieldMaxEnergy(g.level)),
+    overload: g.overloadUntil > 0
+  })),
+  abilities: SHIELD_ABILITIES.map(type => ({
+    type,
+    lock: getShieldAbilityLock(state, type),
+    active: isShieldAbilityActive(state, type),
+    cooldown: Math.max(0, Math.ceil(state.shieldAbilities[type].readyAt - state.levelTime))
+  }))
+});
+
+const isSameShieldHud = (a: ShieldHud, b: ShieldHud) =>
+  a.generators.length === b.generators.length &&
+  a.generators.every((g, i) => {
+    const other = b.generators[i];
+    return g.id === other.id && g.level === other.level && g.charge === other.charge && g.overload === other.overload;
+  }) &&
+  a.abilities.every((ability, i) => {
+    const other = b.abilities[i];
+    return ability.lock === other.lock && ability.active === other.active && ability.cooldown === other.cooldown;
+  });
 
-const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, upgradeStats, highScore, isMuted, onGameOver, onLevelComplete }) => {
+const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, upgradeStats, ammoStock, seed, city, recording, script, highScore, isMuted, onGameOver, onLevelComplete }) => {
+  const { t } = useI18n();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>();
   
   // Audio Context
   const audioCtxRef = useRef<AudioContext | null>(null);
-  const warningPlayedRef = useRef<boolean>(false);
   
   // Mute Ref to avoid stale closures in RAF loop
   const isMutedRef = useRef(isMuted);
 
-  // Game State Refs (Mutable for performance in game loop)
-  const buildingsRef = useRef<Building[]>([]);
-  const enemiesRef = useRef<EnemyMissile[]>([]);
-  const interceptorsRef = useRef<Interceptor[]>([]);
-  const explosionsRef = useRef<Explosion[]>([]);
-  
-  // New Defense Refs
-  const projectilesRef = useRef<Projectile[]>([]); // Turret shots
-  const shieldEnergyRef = useRef<number>(0);
-  const shieldHitTimeRef = useRef<number>(0); // Timestamp of last shield hit
-  const lastTurretFireTimeRef = useRef<number>(0);
-  
-  // Scoring & Combo Refs
-  const multiplierRef = useRef<number>(1);
-  const lastKillTimeRef = useRef<number>(0);
+  // Simulation state, owned by the engine (mutable for performance in game loop)
+  const engineRef = useRef<EngineState | null>(null);
+
+  // Replay segment being recorded for the current level
+  const replayLevelRef = useRef<ReplayLevel | null>(null);
   
   const lastTimeRef = useRef<number>(0);
-  const levelTimeRef = useRef<number>(0);
-  const nextSpawnTimeRef = useRef<number>(0);
-  const lastShotTimeRef = useRef<number>(0);
+  const stepClockRef = useRef(createFixedStepClock());
+  const previousPositionsRef = useRef<PositionSnapshot | null>(null); // for render interpolation
   
   // Game Over Animation Ref
   const gameOverStartRef = useRef<number>(0);
-  
-  // Stats for the current level
-  const buildingsLostInLevelRef = useRef<number>(0);
-  const enemiesDestroyedRef = useRef<number>(0);
 
   // Track previous game state to handle Resume vs Restart
   const prevGameStateRef = useRef<GameState>(gameState);
 
-  // Crosshair & Input Refs
-  const crosshairRef = useRef<{x: number, y: number}>({ x: 0, y: 0 });
-  const inputStateRef = useRef<{up: boolean, down: boolean, left: boolean, right: boolean, fire: boolean}>({
-      up: false, down: false, left: false, right: false, fire: false
-  });
+  // Input collected from DOM events, consumed by the engine every frame
+  const inputStateRef = useRef<EngineInput>(createInput());
 
   // UI State exposed to React
-  const [displayTime, setDisplayTime] = useState(LEVEL_DURATION);
+  const [objective, setObjective] = useState(''); // Timer, waves left or boss banner
   const [displayScore, setDisplayScore] = useState(0);
   const [displayMultiplier, setDisplayMultiplier] = useState(1);
   const [comboProgress, setComboProgress] = useState(0); // 0 to 1 for bar
-
-  // Calculate stats based on upgrades
-  const interceptorSpeed = 600 + (upgradeStats.speedLevel * 150);
-  const explosionMaxRadius = 60 + (upgradeStats.radiusLevel * 15);
-  // Cooldown: 500ms base, decreases by 50ms per level, min 100ms
-  const fireCooldown = Math.max(100, 500 - (upgradeStats.rateLevel * 50)); 
-  
-  // Static Defense Stats
-  const shieldMaxEnergy = upgradeStats.shieldLevel * 100;
-  const turretCooldown = Math.max(200, 1000 - (upgradeStats.turretLevel * 100)); // 1s base -> 0.2s
+  const [displayBattery, setDisplayBattery] = useState<BatteryId | null>(null);
+  const [displayAmmo, setDisplayAmmo] = useState(AmmoType.STANDARD);
+  const [displayAmmoStock, setDisplayAmmoStock] = useState<AmmoStock>(createAmmoStock);
+  const [shieldHud, setShieldHud] = useState<ShieldHud>({ generators: [], abilities: [] });
 
   // Sync mute prop to ref
   useEffect(() => {
@@ -112,6 +134,18 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
               case 'KeyA': case 'ArrowLeft': inputStateRef.current.left = true; break;
               case 'KeyD': case 'ArrowRight': inputStateRef.current.right = true; break;
               case 'Space': case 'Enter': inputStateRef.current.fire = true; break;
+              // Battery selection: 1-3 pick a launcher, 0 / ` go back to the nearest one
+              case 'Digit1': inputStateRef.current.selectBattery = 'left'; break;
+              case 'Digit2': inputStateRef.current.selectBattery = 'center'; break;
+              case 'Digit3': inputStateRef.current.selectBattery = 'right'; break;
+              case 'Digit0': case 'Backquote': inputStateRef.current.selectBattery = 'nearest'; break;
+              // Ammo selection and shield abilities, see the hotkeys in engine/ammo.ts and engine/shieldAbilities.ts
+              default: {
+                  const ammo = AMMO_TYPES.find(type => AMMO_DEFINITIONS[type].hotkey === e.code);
+                  if (ammo) inputStateRef.current.selectAmmo = ammo;
+                  const ability = SHIELD_ABILITIES.find(type => SHIELD_ABILITY_DEFINITIONS[type].hotkey === e.code);
+                  if (ability) inputStateRef.current.shieldAbility = ability;
+              }
           }
       };
       
@@ -133,7 +167,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
       };
   }, [gameState]);
 
-  const playSound = (type: 'warning' | 'shoot' | 'explode_normal' | 'explode_heavy' | 'turret_shoot' | 'shield_hit' | 'nuke', intensity: number = 1) => {
+  const playSound = (type: SoundEffect, intensity: number = 1) => {
     if (isMutedRef.current) return;
     if (!audioCtxRef.current) return;
 
@@ -169,6 +203,241 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
       osc.start();
       osc.stop(ctx.currentTime + 0.2);
     }
+    else if (type === 'mirv_warning') {
+      // Two-tone siren
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(500, ctx.currentTime);
+      osc.frequency.setValueAtTime(700, ctx.currentTime + 0.15);
+      osc.frequency.setValueAtTime(500, ctx.currentTime + 0.3);
+      gainNode.gain.setValueAtTime(0.06, ctx.currentTime);
+      gainNode.gain.linearRampToValueAtTime(0.01, ctx.currentTime + 0.45);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.45);
+    }
+    else if (type === 'mirv_split') {
+      // Descending burst as the warheads separate
+      osc.type = 'square';
+      osc.frequency.setValueAtTime(1200, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(200, ctx.currentTime + 0.25);
+      gainNode.gain.setValueAtTime(0.08, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.25);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.25);
+    }
+    else if (type === 'laser_charge') {
+      // Rising whine while an emitter charges
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(200, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(1600, ctx.currentTime + 1.5);
+      gainNode.gain.setValueAtTime(0.01, ctx.currentTime);
+      gainNode.gain.linearRampToValueAtTime(0.07, ctx.currentTime + 1.4);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 1.5);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 1.5);
+    }
+    else if (type === 'laser_fire') {
+      // Harsh zap
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(1800, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(80, ctx.currentTime + 0.35);
+      gainNode.gain.setValueAtTime(0.15, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.35);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.35);
+    }
+    else if (type === 'bullet_burst') {
+      // Three quick cracks
+      osc.type = 'square';
+      osc.frequency.setValueAtTime(900, ctx.currentTime);
+      [0, 0.08, 0.16].forEach(offset => {
+        gainNode.gain.setValueAtTime(0.06, ctx.currentTime + offset);
+        gainNode.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + offset + 0.05);
+      });
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.22);
+    }
+    else if (type === 'aircraft') {
+      // Low engine drone fading in and out
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(70, ctx.currentTime);
+      osc.frequency.linearRampToValueAtTime(90, ctx.currentTime + 1.2);
+      gainNode.gain.setValueAtTime(0.01, ctx.currentTime);
+      gainNode.gain.linearRampToValueAtTime(0.05, ctx.currentTime + 0.4);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 1.2);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 1.2);
+    }
+    else if (type === 'boss_warning') {
+      // Slow air-raid siren
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(300, ctx.currentTime);
+      osc.frequency.linearRampToValueAtTime(600, ctx.currentTime + 1);
+      osc.frequency.linearRampToValueAtTime(300, ctx.currentTime + 2);
+      gainNode.gain.setValueAtTime(0.08, ctx.currentTime);
+      gainNode.gain.linearRampToValueAtTime(0.01, ctx.currentTime + 2);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 2);
+    }
+    else if (type === 'boss_hit') {
+      // Metallic clang
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(220, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(110, ctx.currentTime + 0.3);
+      gainNode.gain.setValueAtTime(0.15, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.3);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.3);
+    }
+    else if (type === 'boss_phase') {
+      // Angry rising roar
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(60, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(240, ctx.currentTime + 0.8);
+      gainNode.gain.setValueAtTime(0.12, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.8);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.8);
+    }
+    else if (type === 'boss_destroyed') {
+      // Long collapsing boom
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(150, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(20, ctx.currentTime + 2.5);
+      gainNode.gain.setValueAtTime(0.3, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 2.5);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 2.5);
+    }
+    else if (type === 'ammo_select') {
+      // Magazine swap
+      osc.type = 'square';
+      osc.frequency.setValueAtTime(300, ctx.currentTime);
+      osc.frequency.setValueAtTime(450, ctx.currentTime + 0.04);
+      gainNode.gain.setValueAtTime(0.04, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.08);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.08);
+    }
+    else if (type === 'emp') {
+      // Electric pulse warbling down
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(1400, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(60, ctx.currentTime + 0.6);
+      gainNode.gain.setValueAtTime(0.12, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.6);
+
+      const lfo = ctx.createOscillator();
+      const lfoGain = ctx.createGain();
+      lfo.frequency.setValueAtTime(30, ctx.currentTime);
+      lfoGain.gain.setValueAtTime(200, ctx.currentTime);
+      lfo.connect(lfoGain);
+      lfoGain.connect(osc.frequency);
+      lfo.start();
+      lfo.stop(ctx.currentTime + 0.6);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.6);
+    }
+    else if (type === 'shield_overload') {
+      // Power failing: buzz sliding down
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(220, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(30, ctx.currentTime + 0.9);
+      gainNode.gain.setValueAtTime(0.12, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.9);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.9);
+    }
+    else if (type === 'shield_restore') {
+      // Power coming back: hum rising
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(80, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(400, ctx.currentTime + 0.5);
+      gainNode.gain.setValueAtTime(0.01, ctx.currentTime);
+      gainNode.gain.linearRampToValueAtTime(0.08, ctx.currentTime + 0.4);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.5);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.5);
+    }
+    else if (type === 'shield_pulse') {
+      // Deep thump with a bright ring
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(900, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(40, ctx.currentTime + 0.4);
+      gainNode.gain.setValueAtTime(0.25, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.4);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.4);
+    }
+    else if (type === 'shield_dome') {
+      // Dome raised: two-note chime
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(520, ctx.currentTime);
+      osc.frequency.setValueAtTime(780, ctx.currentTime + 0.12);
+      gainNode.gain.setValueAtTime(0.1, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.35);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.35);
+    }
+    else if (type === 'dry_fire') {
+      // Empty launcher click
+      osc.type = 'square';
+      osc.frequency.setValueAtTime(120, ctx.currentTime);
+      gainNode.gain.setValueAtTime(0.04, ctx.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.05);
+
+      osc.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.05);
+    }
     else if (type === 'turret_shoot') {
       // Pew pew
       osc.type = 'square';
@@ -273,61 +542,40 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
     }
   };
 
+
   // Initialize Level
   const initLevel = useCallback(() => {
     if (!canvasRef.current) return;
-    const width = canvasRef.current.width;
-    const height = canvasRef.current.height;
-
-    // Reset transients
-    enemiesRef.current = [];
-    interceptorsRef.current = [];
-    explosionsRef.current = [];
-    projectilesRef.current = [];
-    
-    levelTimeRef.current = 0; // Explicitly reset timer
-    nextSpawnTimeRef.current = 0;
-    buildingsLostInLevelRef.current = 0;
-    enemiesDestroyedRef.current = 0;
-    lastShotTimeRef.current = 0;
-    lastTurretFireTimeRef.current = 0;
-    warningPlayedRef.current = false;
+
+    const state = createEngineState({
+      width: canvasRef.current.width,
+      height: canvasRef.current.height,
+      level,
+      difficulty,
+      upgrades: upgradeStats,
+      ammo: ammoStock,
+      seed,
+      script
+    }, city);
+    engineRef.current = state;
+    replayLevelRef.current = recording ? beginReplayLevel(recording, state) : null;
+
+    inputStateRef.current.aim = null;
+    inputStateRef.current.fireTargets = [];
+    inputStateRef.current.selectBattery = null;
+    inputStateRef.current.selectAmmo = null;
+    inputStateRef.current.shieldAbility = null;
+    stepClockRef.current = createFixedStepClock();
+    previousPositionsRef.current = null;
     gameOverStartRef.current = 0;
-    
-    // Reset combo
-    multiplierRef.current = 1;
-    lastKillTimeRef.current = 0;
+
+    setDisplayScore(state.score);
     setDisplayMultiplier(1);
-    
-    // Reset Shield Energy
-    shieldEnergyRef.current = upgradeStats.shieldLevel * 100;
-    shieldHitTimeRef.current = 0;
-
-    // Center Crosshair
-    crosshairRef.current = { x: width / 2, y: height / 2 };
-
-    // Create buildings if it's level 1 (New Game) or if missing
-    // We only reset buildings layout on Level 1. On subsequent levels, we keep the previous state.
-    if (level === 1 || buildingsRef.current.length === 0) {
-      const buildingCount = 6;
-      const buildingWidth = 60;
-      const gap = (width - (buildingCount * buildingWidth)) / (buildingCount + 1);
-      
-      const newBuildings: Building[] = [];
-      for (let i = 0; i < buildingCount; i++) {
-        newBuildings.push({
-          id: i,
-          x: gap + i * (buildingWidth + gap),
-          y: height - 50,
-          width: buildingWidth,
-          height: 40,
-          isDestroyed: false
-        });
-      }
-      buildingsRef.current = newBuildings;
-      setDisplayScore(0);
-    }
-  }, [level, upgradeStats.shieldLevel]);
+    setComboProgress(0);
+    setDisplayAmmo(state.selectedAmmo);
+    setDisplayAmmoStock({ ...state.ammoStock });
+    setShieldHud(getShieldHud(state));
+  }, [level, difficulty, upgradeStats, ammoStock, seed, city, recording, script]);
 
   // Handle Input (Mouse/Touch)
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -336,22 +584,28 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
     const canvas = canvasRef.current;
     if (!canvas) return;
     const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    // Whole pixels keep replay files small
+    const x = Math.round(e.clientX - rect.left);
+    const y = Math.round(e.clientY - rect.top);
 
-    // Update crosshair to click position
-    crosshairRef.current = { x, y };
+    // Resume audio context if suspended (browser policy)
+    if (audioCtxRef.current?.state === 'suspended' && !isMutedRef.current) {
+      audioCtxRef.current.resume();
+    }
 
-    attemptFire(x, y);
+    // Fired on the next engine step
+    inputStateRef.current.fireTargets.push({ x, y });
   };
   
+  const setCrosshair = (x: number, y: number) => {
+      inputStateRef.current.aim = { x: Math.round(x), y: Math.round(y) };
+  };
+
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
       const canvas = canvasRef.current;
       if (!canvas) return;
       const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-      crosshairRef.current = { x, y };
+      setCrosshair(e.clientX - rect.left, e.clientY - rect.top);
   };
 
   const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
@@ -360,1077 +614,141 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
       if (!canvas) return;
       const rect = canvas.getBoundingClientRect();
       const touch = e.touches[0];
-      const x = touch.clientX - rect.left;
-      const y = touch.clientY - rect.top;
-      
-      crosshairRef.current = { x, y };
+      setCrosshair(touch.clientX - rect.left, touch.clientY - rect.top);
   };
 
-  const attemptFire = (targetX: number, targetY: number) => {
-    if (gameState !== GameState.PLAYING) return;
-    
-    // Resume audio context if suspended (browser policy)
-    if (audioCtxRef.current?.state === 'suspended' && !isMutedRef.current) {
-      audioCtxRef.current.resume();
-    }
-    
-    const now = Date.now();
-    if (now - lastShotTimeRef.current < fireCooldown) return;
-    
-    playSound('shoot');
-    lastShotTimeRef.current = now;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    // Spawn from bottom center
-    const startX = canvas.width / 2;
-    const startY = canvas.height - 20;
-
-    interceptorsRef.current.push({
-      id: Date.now() + Math.random(),
-      x: startX,
-      y: startY,
-      startX,
-      startY,
-      targetX,
-      targetY,
-      speed: interceptorSpeed,
-      exploded: false,
-      trail: []
-    });
-  };
-
-  const getEnemyConfig = (level: number, difficulty: Difficulty) => {
-    const rand = Math.random();
-    let type = EnemyType.STANDARD;
-    let speedMultiplier = 1;
-    let difficultySpeedMod = 1;
-
-    // Adjust entry levels based on difficulty
-    let fastStart = 2;
-    let bombStart = 3; 
-    let heavyStart = 4;
-    let bulletStart = 5;
-    let wobblyStart = 6;
-    let laserStart = 7;
-    
-    if (difficulty === Difficulty.EASY) {
-      fastStart = 3;
-      bombStart = 4;
-      heavyStart = 6;
-      bulletStart = 7;
-      wobblyStart = 8;
-      laserStart = 9;
-      difficultySpeedMod = 0.8;
-    } else if (difficulty === Difficulty.HARD) {
-      fastStart = 1; 
-      bombStart = 2;
-      heavyStart = 3;
-      bulletStart = 3;
-      wobblyStart = 5;
-      laserStart = 5;
-      difficultySpeedMod = 1.25;
-    }
-
-    // Weighted Random Selection based on Level
-    const availableTypes = [EnemyType.STANDARD];
-    
-    if (level >= fastStart) availableTypes.push(EnemyType.FAST);
-    if (level >= bombStart) availableTypes.push(EnemyType.BOMB);
-    if (level >= heavyStart) availableTypes.push(EnemyType.HEAVY);
-    if (level >= bulletStart) availableTypes.push(EnemyType.BULLET);
-    if (level >= wobblyStart) availableTypes.push(EnemyType.WOBBLY);
-    if (level >= laserStart) availableTypes.push(EnemyType.LASER);
-
-    // Bias towards newer types, but keep some standards
-    if (availableTypes.length > 1) {
-        // Simple logic: higher chance for advanced types if unlocked
-        if (rand > 0.4) {
-            type = availableTypes[Math.floor(Math.random() * (availableTypes.length - 1)) + 1];
-        } else {
-            type = EnemyType.STANDARD;
-        }
-    }
-
-    // Hard Mode specific: Chaos
-    if (difficulty === Difficulty.HARD && level >= 3 && rand > 0.9) {
-        type = EnemyType.FAST; 
-    }
+  const copyCombatStats = (state: EngineState) => ({
+    ...state.combat,
+    killsByType: { ...state.combat.killsByType }
+  });
 
-    // Config based on type
-    let color = '#ef4444'; // Red (Standard)
-    switch(type) {
-      case EnemyType.FAST:
-        speedMultiplier = 1.6;
-        color = '#facc15'; // Yellow
-        break;
-      case EnemyType.HEAVY:
-        speedMultiplier = 0.5; // Slower but bigger boom
-        color = '#c2410c'; // Dark Orange
-        break;
-      case EnemyType.WOBBLY:
-        speedMultiplier = 0.8;
-        color = '#d946ef'; // Purple
+  const handleEngineEvent = (state: EngineState, event: EngineEvent) => {
+    switch (event.type) {
+      case 'sound':
+        playSound(event.sound, event.intensity);
         break;
-      case EnemyType.BOMB:
-        speedMultiplier = 0.6; // Falls slower
-        color = '#1e293b'; // Slate 800 (Blackish)
-        break;
-      case EnemyType.BULLET:
-        speedMultiplier = 3.0; // Extremely Fast - Bullet speed
-        color = '#94a3b8'; // Slate 400 (Metallic)
+      case 'levelComplete':
+        onLevelComplete({
+          buildingsLost: event.buildingsLost,
+          enemiesDestroyed: event.enemiesDestroyed,
+          combat: copyCombatStats(state),
+          city: { buildings: state.buildings.map(b => ({ ...b })), structures: state.structures.map(s => ({ ...s })), score: state.score },
+          cityCredits: event.cityCredits,
+          ammo: { ...state.ammoStock }
+        });
         break;
-      case EnemyType.LASER:
-        speedMultiplier = 2.5; // Very Fast
-        color = '#a3e635'; // Lime
+      case 'gameOver':
+        onGameOver({
+          buildingsLost: state.buildingsLostInLevel,
+          enemiesDestroyed: state.enemiesDestroyed,
+          combat: copyCombatStats(state),
+          city: { buildings: state.buildings.map(b => ({ ...b })), structures: state.structures.map(s => ({ ...s })), score: event.score },
+          cityCredits: 0,
+          ammo: { ...state.ammoStock }
+        });
         break;
     }
+  };
 
-    return { type, speedMultiplier: speedMultiplier * difficultySpeedMod, color };
+  const drawGameOver = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, time: number) => {
+     if (gameOverStartRef.current === 0) {
+         gameOverStartRef.current = time;
+         playSound('nuke');
+     }
+
+     const animTime = (time - gameOverStartRef.current) / 1000;
+     
+     if (animTime < 0.2) {
+         ctx.fillStyle = `rgba(255, 255, 255, ${1 - animTime * 5})`;
+         ctx.fillRect(0, 0, canvas.width, canvas.height);
+     } else {
+         ctx.fillStyle = `rgba(0, 0, 0, ${Math.min(0.8, (animTime - 0.2) * 0.5)})`;
+         ctx.fillRect(0, 0, canvas.width, canvas.height);
+         
+         const shakeAmt = Math.max(0, 20 - animTime * 10);
+         const dx = (Math.random() - 0.5) * shakeAmt;
+         const dy = (Math.random() - 0.5) * shakeAmt;
+         
+         ctx.save();
+         ctx.translate(canvas.width/2 + dx, canvas.height/2 + dy);
+         
+         const radius = Math.pow(animTime, 2) * 200;
+         
+         ctx.beginPath();
+         ctx.arc(0, 0, radius, 0, Math.PI * 2);
+         const grad = ctx.createRadialGradient(0, 0, 0, 0, 0, radius);
+         grad.addColorStop(0, 'rgba(255, 255, 255, 1)');
+         grad.addColorStop(0.3, 'rgba(255, 200, 50, 0.8)');
+         grad.addColorStop(0.7, 'rgba(255, 50, 0, 0.6)');
+         grad.addColorStop(1, 'rgba(50, 0, 0, 0)');
+         ctx.fillStyle = grad;
+         ctx.fill();
+         
+         ctx.beginPath();
+         ctx.arc(0, 0, radius * 1.2, 0, Math.PI * 2);
+         ctx.strokeStyle = `rgba(255, 255, 255, ${Math.max(0, 1 - animTime * 0.3)})`;
+         ctx.lineWidth = 10;
+         ctx.stroke();
+
+         ctx.restore();
+     }
   };
 
   const update = (time: number) => {
     // We allow drawing in GAME_OVER for the explosion animation
     if (gameState !== GameState.PLAYING && gameState !== GameState.GAME_OVER) return;
 
-    const deltaTime = (time - lastTimeRef.current) / 1000;
+    const frameDelta = (time - lastTimeRef.current) / 1000;
     lastTimeRef.current = time;
-    const now = Date.now();
-
-    // Prevent massive jumps if tab was inactive
-    if (deltaTime > 0.1) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const state = engineRef.current;
+    if (!ctx || !state) return;
 
     // --- GAME OVER ANIMATION SEQUENCE ---
     if (gameState === GameState.GAME_OVER) {
-       // ... (Animation logic preserved) ...
-       if (gameOverStartRef.current === 0) {
-           gameOverStartRef.current = time;
-           playSound('nuke');
-       }
-
-       const animTime = (time - gameOverStartRef.current) / 1000;
-       
-       if (animTime < 0.2) {
-           ctx.fillStyle = `rgba(255, 255, 255, ${1 - animTime * 5})`;
-           ctx.fillRect(0, 0, canvas.width, canvas.height);
-       } else {
-           ctx.fillStyle = `rgba(0, 0, 0, ${Math.min(0.8, (animTime - 0.2) * 0.5)})`;
-           ctx.fillRect(0, 0, canvas.width, canvas.height);
-           
-           const shakeAmt = Math.max(0, 20 - animTime * 10);
-           const dx = (Math.random() - 0.5) * shakeAmt;
-           const dy = (Math.random() - 0.5) * shakeAmt;
-           
-           ctx.save();
-           ctx.translate(canvas.width/2 + dx, canvas.height/2 + dy);
-           
-           const radius = Math.pow(animTime, 2) * 200;
-           
-           ctx.beginPath();
-           ctx.arc(0, 0, radius, 0, Math.PI * 2);
-           const grad = ctx.createRadialGradient(0, 0, 0, 0, 0, radius);
-           grad.addColorStop(0, 'rgba(255, 255, 255, 1)');
-           grad.addColorStop(0.3, 'rgba(255, 200, 50, 0.8)');
-           grad.addColorStop(0.7, 'rgba(255, 50, 0, 0.6)');
-           grad.addColorStop(1, 'rgba(50, 0, 0, 0)');
-           ctx.fillStyle = grad;
-           ctx.fill();
-           
-           ctx.beginPath();
-           ctx.arc(0, 0, radius * 1.2, 0, Math.PI * 2);
-           ctx.strokeStyle = `rgba(255, 255, 255, ${Math.max(0, 1 - animTime * 0.3)})`;
-           ctx.lineWidth = 10;
-           ctx.stroke();
-
-           ctx.restore();
-       }
-       
+       drawGameOver(ctx, canvas, time);
        requestRef.current = requestAnimationFrame(() => update(performance.now()));
        return;
     }
 
-    // --- NORMAL GAMEPLAY LOGIC ---
-    
-    // 0. Update Crosshair Position from Input
-    const moveSpeed = 600 * deltaTime; // px per second
+    // --- SIMULATION (fixed steps; long stalls are clamped by the clock) ---
     const input = inputStateRef.current;
-    
-    if (input.up) crosshairRef.current.y -= moveSpeed;
-    if (input.down) crosshairRef.current.y += moveSpeed;
-    if (input.left) crosshairRef.current.x -= moveSpeed;
-    if (input.right) crosshairRef.current.x += moveSpeed;
-    
-    // Clamp Crosshair
-    crosshairRef.current.x = Math.max(0, Math.min(canvas.width, crosshairRef.current.x));
-    crosshairRef.current.y = Math.max(0, Math.min(canvas.height, crosshairRef.current.y));
-
-    // Handle Keyboard Fire
-    if (input.fire) {
-        attemptFire(crosshairRef.current.x, crosshairRef.current.y);
-    }
-    
-    // Combo Timeout Check
-    if (multiplierRef.current > 1) {
-        const timeSinceKill = now - lastKillTimeRef.current;
-        if (timeSinceKill > COMBO_TIMEOUT) {
-            multiplierRef.current = 1;
-            setDisplayMultiplier(1);
-            setComboProgress(0);
-        } else {
-            setComboProgress(1 - (timeSinceKill / COMBO_TIMEOUT));
-        }
-    }
-
-    // 1. Level Timer
-    levelTimeRef.current += deltaTime;
-    const timeLeft = Math.max(0, LEVEL_DURATION - levelTimeRef.current);
-    setDisplayTime(Math.ceil(timeLeft));
-
-    if (timeLeft <= 0) {
-      onLevelComplete({
-        buildingsLost: buildingsLostInLevelRef.current,
-        enemiesDestroyed: enemiesDestroyedRef.current
-      });
-      return;
-    }
-
-    // 2. Audio Warning Logic
-    const timeUntilSpawn = nextSpawnTimeRef.current - levelTimeRef.current;
-    if (timeUntilSpawn < 0.5 && timeUntilSpawn > 0 && !warningPlayedRef.current) {
-        playSound('warning');
-        warningPlayedRef.current = true;
-    }
-
-    // 3. Spawn Enemies
-    if (levelTimeRef.current > nextSpawnTimeRef.current) {
-      const activeBuildings = buildingsRef.current.filter(b => !b.isDestroyed);
-      
-      if (activeBuildings.length > 0) {
-        const targetB = activeBuildings[Math.floor(Math.random() * activeBuildings.length)];
-        const targetX = targetB ? (targetB.x + targetB.width/2) : Math.random() * canvas.width;
-        const targetY = canvas.height;
-        
-        let startX = Math.random() * canvas.width;
-        const startY = -30;
-
-        const baseSpeed = 50 + (level * 10);
-        const { type, speedMultiplier, color } = getEnemyConfig(level, difficulty);
-        
-        if (type === EnemyType.BOMB) {
-            startX = targetX; 
-        }
-
-        const dist = Math.hypot(targetX - startX, targetY - startY);
-        const maxHealth = type === EnemyType.HEAVY ? 3 : 1;
-
-        enemiesRef.current.push({
-          id: Date.now() + Math.random(),
-          type,
-          x: startX,
-          y: startY,
-          startX: startX,
-          startY: startY,
-          targetX: targetX,
-          targetY: targetY,
-          totalDistance: dist,
-          traveledDistance: 0,
-          speed: (baseSpeed + (Math.random() * 40)) * speedMultiplier,
-          color: color,
-          trail: [],
-          health: maxHealth,
-          maxHealth: maxHealth,
-          hitByExplosionIds: []
-        });
-
-        let baseRate = Math.max(0.4, 2.5 - (level * 0.15));
-        let rateMod = 1;
-        if (difficulty === Difficulty.EASY) rateMod = 1.3;
-        if (difficulty === Difficulty.HARD) rateMod = 0.7;
-
-        const spawnRate = baseRate * rateMod;
-        
-        nextSpawnTimeRef.current = levelTimeRef.current + (Math.random() * spawnRate);
-        warningPlayedRef.current = false;
-      }
-    }
-
-    // 4. Auto-Turret Logic
-    if (upgradeStats.turretLevel > 0) {
-      if (now - lastTurretFireTimeRef.current > turretCooldown) {
-        let closestDist = Infinity;
-        let closestEnemy: EnemyMissile | null = null;
-        
-        const turretX = 60;
-        const turretY = canvas.height - 40;
-
-        enemiesRef.current.forEach(e => {
-          const d = Math.hypot(e.x - turretX, e.y - turretY);
-          if (d < closestDist && e.y < canvas.height - 100) {
-            closestDist = d;
-            closestEnemy = e;
-          }
-        });
-
-        if (closestEnemy) {
-          const angle = Math.atan2((closestEnemy as EnemyMissile).y - turretY, (closestEnemy as EnemyMissile).x - turretX);
-          const pSpeed = 800;
-          projectilesRef.current.push({
-            id: now + Math.random(),
-            x: turretX,
-            y: turretY,
-            velocityX: Math.cos(angle) * pSpeed,
-            velocityY: Math.sin(angle) * pSpeed,
-            speed: pSpeed,
-            trail: []
-          });
-          lastTurretFireTimeRef.current = now;
-          playSound('turret_shoot');
-        }
-      }
-    }
-
-    // Helper: Handle Kill Scoring & Combo
-    const handleKill = (enemy: EnemyMissile) => {
-        enemiesDestroyedRef.current += 1;
-        
-        let baseScore = 10;
-        if (enemy.type === EnemyType.FAST) baseScore = 20;
-        if (enemy.type === EnemyType.BULLET) baseScore = 25;
-        if (enemy.type === EnemyType.WOBBLY) baseScore = 30;
-        if (enemy.type === EnemyType.LASER) baseScore = 35;
-        if (enemy.type === EnemyType.HEAVY) baseScore = 40;
-        if (enemy.type === EnemyType.BOMB) baseScore = 40;
-        
-        let diffMult = 1;
-        if (difficulty === Difficulty.HARD) diffMult = 1.5;
-        if (difficulty === Difficulty.EASY) diffMult = 0.8;
-
-        const timeSinceLast = now - lastKillTimeRef.current;
-        if (timeSinceLast < COMBO_TIMEOUT) {
-            multiplierRef.current = Math.min(multiplierRef.current + 1, 10);
-        } else {
-            multiplierRef.current = 1;
-        }
-        
-        lastKillTimeRef.current = now;
-        setDisplayMultiplier(multiplierRef.current);
-        setComboProgress(1);
-
-        const totalScore = Math.ceil(baseScore * diffMult * multiplierRef.current);
-        setDisplayScore(s => s + totalScore);
-    };
-
-    // 5. Move Turret Projectiles
-    for (let i = projectilesRef.current.length - 1; i >= 0; i--) {
-      const p = projectilesRef.current[i];
-      p.x += p.velocityX * deltaTime;
-      p.y += p.velocityY * deltaTime;
-      
-      p.trail.push({x: p.x, y: p.y});
-      if (p.trail.length > 5) p.trail.shift();
-
-      if (p.x < 0 || p.x > canvas.width || p.y < 0) {
-        projectilesRef.current.splice(i, 1);
-        continue;
-      }
-
-      for (let j = enemiesRef.current.length - 1; j >= 0; j--) {
-        const e = enemiesRef.current[j];
-        const dist = Math.hypot(p.x - e.x, p.y - e.y);
-        if (dist < 20) {
-          projectilesRef.current.splice(i, 1);
-          e.health -= 1;
-          if (e.health <= 0) {
-              enemiesRef.current.splice(j, 1);
-              explosionsRef.current.push({
-                id: Date.now(),
-                x: e.x,
-                y: e.y,
-                currentRadius: 5,
-                maxRadius: 30,
-                alpha: 1
-              });
-              playSound('explode_normal');
-              handleKill(e);
-          } else {
-              explosionsRef.current.push({
-                id: Date.now() + Math.random(),
-                x: e.x,
-                y: e.y,
-                currentRadius: 2,
-                maxRadius: 10,
-                alpha: 1
-              });
-          }
-          break;
-        }
-      }
-    }
-
-    // 6. Move Interceptors
-    for (let i = interceptorsRef.current.length - 1; i >= 0; i--) {
-      const missile = interceptorsRef.current[i];
-      const dx = missile.targetX - missile.x;
-      const dy = missile.targetY - missile.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      
-      missile.trail.push({ x: missile.x, y: missile.y });
-      if (missile.trail.length > 20) missile.trail.shift();
-
-      if (dist < missile.speed * deltaTime) {
-        missile.x = missile.targetX;
-        missile.y = missile.targetY;
-        missile.exploded = true;
-        
-        explosionsRef.current.push({
-          id: Date.now() + Math.random(),
-          x: missile.x,
-          y: missile.y,
-          currentRadius: 1,
-          maxRadius: explosionMaxRadius,
-          alpha: 1
-        });
-        
-        interceptorsRef.current.splice(i, 1);
-      } else {
-        const angle = Math.atan2(dy, dx);
-        missile.x += Math.cos(angle) * missile.speed * deltaTime;
-        missile.y += Math.sin(angle) * missile.speed * deltaTime;
-      }
-    }
-
-    // 7. Update Explosions
-    for (let i = explosionsRef.current.length - 1; i >= 0; i--) {
-      const exp = explosionsRef.current[i];
-      exp.currentRadius += 100 * deltaTime;
-      if (exp.currentRadius > exp.maxRadius) {
-        exp.alpha -= 2 * deltaTime;
-        if (exp.alpha <= 0) {
-          explosionsRef.current.splice(i, 1);
-        }
-      }
-    }
-
-    // 8. Move Enemies & Collisions
-    for (let i = enemiesRef.current.length - 1; i >= 0; i--) {
-      const enemy = enemiesRef.current[i];
-      
-      enemy.traveledDistance += enemy.speed * deltaTime;
-      const t = enemy.traveledDistance / enemy.totalDistance;
-
-      enemy.trail.push({ x: enemy.x, y: enemy.y });
-      
-      // Update: Much longer trails for LASERS to create beam effect
-      const maxTrail = (enemy.type === EnemyType.LASER) ? 80 : 
-                       (enemy.type === EnemyType.WOBBLY) ? 40 : 25;
-                       
-      if (enemy.trail.length > maxTrail) enemy.trail.shift();
-
-      let currentX = enemy.startX + (enemy.targetX - enemy.startX) * t;
-      let currentY = enemy.startY + (enemy.targetY - enemy.startY) * t;
-
-      if (enemy.type === EnemyType.WOBBLY) {
-        const dx = enemy.targetX - enemy.startX;
-        const dy = enemy.targetY - enemy.startY;
-        const angle = Math.atan2(dy, dx);
-        
-        const perpX = Math.cos(angle + Math.PI/2);
-        const perpY = Math.sin(angle + Math.PI/2);
-        
-        const wave = Math.sin(enemy.traveledDistance * 0.03) * 60;
-        
-        currentX += perpX * wave;
-        currentY += perpY * wave;
-      }
-
-      enemy.x = currentX;
-      enemy.y = currentY;
-
-      // --- SHIELD COLLISION ---
-      if (upgradeStats.shieldLevel > 0 && shieldEnergyRef.current > 0) {
-        const shieldX = canvas.width / 2;
-        const shieldY = canvas.height - 20;
-        const baseShieldRadius = 180;
-        const energyPct = shieldEnergyRef.current / shieldMaxEnergy;
-        const visualShieldRadius = baseShieldRadius * (0.9 + (0.1 * energyPct));
-        
-        const distToShield = Math.hypot(enemy.x - shieldX, enemy.y - shieldY);
-        
-        if (distToShield < visualShieldRadius) {
-           handleKill(enemy);
-
-           shieldEnergyRef.current -= 30;
-           if (shieldEnergyRef.current < 0) shieldEnergyRef.current = 0;
-           
-           shieldHitTimeRef.current = Date.now();
-           playSound('shield_hit', shieldEnergyRef.current / shieldMaxEnergy);
-           
-           explosionsRef.current.push({
-            id: Date.now(),
-            x: enemy.x,
-            y: enemy.y,
-            currentRadius: 5,
-            maxRadius: 20,
-            alpha: 1
-          });
-          
-          enemiesRef.current.splice(i, 1);
-          continue;
-        }
-      }
-
-      // Check Collision with Explosions
-      let destroyed = false;
-      for (const exp of explosionsRef.current) {
-        const distToExp = Math.hypot(enemy.x - exp.x, enemy.y - exp.y);
-        
-        if (distToExp < exp.currentRadius) {
-          if (!enemy.hitByExplosionIds.includes(exp.id)) {
-              enemy.hitByExplosionIds.push(exp.id);
-              enemy.health -= 1;
-              
-              if (enemy.health <= 0) {
-                  destroyed = true;
-                  handleKill(enemy);
-                  
-                  explosionsRef.current.push({
-                    id: Date.now(),
-                    x: enemy.x,
-                    y: enemy.y,
-                    currentRadius: 5,
-                    maxRadius: 30,
-                    alpha: 1
-                  });
-                  playSound(enemy.type === EnemyType.HEAVY ? 'explode_heavy' : 'explode_normal');
-                  break; 
-              } else {
-                  explosionsRef.current.push({
-                    id: Date.now() + Math.random(),
-                    x: enemy.x,
-                    y: enemy.y,
-                    currentRadius: 2,
-                    maxRadius: 10,
-                    alpha: 1
-                  });
-              }
-          }
-        }
-      }
-
-      if (destroyed) {
-        enemiesRef.current.splice(i, 1);
-        continue;
-      }
-
-      // Check Collision with Ground/Buildings
-      if (t >= 1 || enemy.y >= canvas.height - 40) {
-        let hitBuilding = false;
-        const impactRadius = (enemy.type === EnemyType.BOMB || enemy.type === EnemyType.HEAVY) ? 90 : 40;
-
-        for (const b of buildingsRef.current) {
-          if (!b.isDestroyed && enemy.x >= b.x && enemy.x <= b.x + b.width) {
-            b.isDestroyed = true;
-            hitBuilding = true;
-            buildingsLostInLevelRef.current += 1;
-            
-            multiplierRef.current = 1;
-            setDisplayMultiplier(1);
-            setComboProgress(0);
-            
-            explosionsRef.current.push({
-              id: Date.now(),
-              x: enemy.x,
-              y: canvas.height - 30,
-              currentRadius: 1,
-              maxRadius: impactRadius, 
-              alpha: 1
-            });
-            playSound('explode_heavy');
-          }
-        }
-        
-        if (!hitBuilding) {
-           explosionsRef.current.push({
-              id: Date.now(),
-              x: enemy.x,
-              y: canvas.height - 20,
-              currentRadius: 1,
-              maxRadius: impactRadius - 20,
-              alpha: 1
-            });
-            playSound(enemy.type === EnemyType.HEAVY ? 'explode_heavy' : 'explode_normal');
-        }
-        
-        enemiesRef.current.splice(i, 1);
-
-        if (buildingsRef.current.every(b => b.isDestroyed)) {
-          onGameOver(displayScore);
-          return;
-        }
-      }
-    }
-
-    // --- DRAWING ---
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw Sky
-    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-    gradient.addColorStop(0, '#0f172a');
-    gradient.addColorStop(1, '#1e293b');
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Draw Ground
-    ctx.fillStyle = '#1c1917';
-    ctx.fillRect(0, canvas.height - 20, canvas.width, 20);
-
-    // Draw Crosshair (if active)
-    ctx.strokeStyle = '#ffffff';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(crosshairRef.current.x - 10, crosshairRef.current.y);
-    ctx.lineTo(crosshairRef.current.x + 10, crosshairRef.current.y);
-    ctx.moveTo(crosshairRef.current.x, crosshairRef.current.y - 10);
-    ctx.lineTo(crosshairRef.current.x, crosshairRef.current.y + 10);
-    ctx.stroke();
-    ctx.beginPath();
-    ctx.arc(crosshairRef.current.x, crosshairRef.current.y, 6, 0, Math.PI * 2);
-    ctx.stroke();
-    
-    // --- TARGETING SYSTEM UPGRADE VISUALS ---
-    if (upgradeStats.targetingLevel > 0) {
-        // Draw dashed line from launcher to crosshair
-        ctx.beginPath();
-        ctx.setLineDash([5, 5]);
-        ctx.moveTo(canvas.width / 2, canvas.height - 20);
-        ctx.lineTo(crosshairRef.current.x, crosshairRef.current.y);
-        ctx.strokeStyle = 'rgba(239, 68, 68, 0.4)'; // Red-500 low opacity
-        ctx.lineWidth = 1;
-        ctx.stroke();
-        ctx.setLineDash([]);
-        
-        // Level 2: Draw blast radius preview
-        if (upgradeStats.targetingLevel > 1) {
-            ctx.beginPath();
-            ctx.arc(crosshairRef.current.x, crosshairRef.current.y, explosionMaxRadius, 0, Math.PI * 2);
-            ctx.fillStyle = 'rgba(239, 68, 68, 0.1)';
-            ctx.fill();
-            ctx.strokeStyle = 'rgba(239, 68, 68, 0.3)';
-            ctx.stroke();
-        }
-    }
-
-    // Draw Auto-Turret
-    if (upgradeStats.turretLevel > 0) {
-       const tx = 60;
-       const ty = canvas.height - 25;
-       ctx.fillStyle = '#4c1d95';
-       ctx.fillRect(tx - 15, ty, 30, 20);
-       ctx.save();
-       ctx.translate(tx, ty);
-       ctx.fillStyle = '#a78bfa';
-       ctx.beginPath();
-       ctx.arc(0, 0, 12, 0, Math.PI * 2);
-       ctx.fill();
-       ctx.restore();
-    }
-
-    // Draw Buildings
-    buildingsRef.current.forEach(b => {
-      if (!b.isDestroyed) {
-        ctx.fillStyle = '#3b82f6';
-        ctx.fillRect(b.x, b.y, b.width, b.height);
-        ctx.fillStyle = '#fef08a';
-        for(let wx = b.x + 5; wx < b.x + b.width; wx += 15) {
-             for(let wy = b.y + 5; wy < b.y + b.height; wy += 12) {
-                 if (Math.random() > 0.3) ctx.fillRect(wx, wy, 8, 8);
-             }
-        }
-      } else {
-        ctx.fillStyle = '#44403c';
-        ctx.beginPath();
-        ctx.moveTo(b.x, canvas.height - 20);
-        ctx.lineTo(b.x + 10, canvas.height - 30);
-        ctx.lineTo(b.x + 30, canvas.height - 25);
-        ctx.lineTo(b.x + 50, canvas.height - 35);
-        ctx.lineTo(b.x + b.width, canvas.height - 20);
-        ctx.fill();
-      }
-    });
-
-    // Draw Defense Battery
-    const batteryColor = upgradeStats.rateLevel > 1 ? '#3b82f6' : '#64748b';
-    ctx.fillStyle = batteryColor;
-    ctx.beginPath();
-    ctx.arc(canvas.width / 2, canvas.height - 20, 20, Math.PI, 0);
-    ctx.fill();
-    
-    if (upgradeStats.rateLevel > 0) {
-        ctx.strokeStyle = '#93c5fd';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.arc(canvas.width / 2, canvas.height - 20, 12, Math.PI, 0);
-        ctx.stroke();
-    }
-    
-    const onCooldown = (Date.now() - lastShotTimeRef.current) < fireCooldown;
-    ctx.fillStyle = onCooldown ? '#ef4444' : '#22c55e';
-    ctx.shadowBlur = onCooldown ? 0 : 5;
-    ctx.shadowColor = '#22c55e';
-    ctx.beginPath();
-    ctx.arc(canvas.width / 2, canvas.height - 20, 5, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.shadowBlur = 0;
-
-    // Draw Energy Shield
-    if (upgradeStats.shieldLevel > 0 && shieldEnergyRef.current > 0) {
-       const shieldX = canvas.width / 2;
-       const shieldY = canvas.height - 20;
-       
-       const energyPct = shieldEnergyRef.current / shieldMaxEnergy;
-       const baseRadius = 180;
-       const radius = baseRadius * (0.9 + (0.1 * energyPct));
-       
-       ctx.beginPath();
-       ctx.arc(shieldX, shieldY, radius, Math.PI, 0); 
-       
-       const shieldGrad = ctx.createRadialGradient(shieldX, shieldY, radius * 0.8, shieldX, shieldY, radius);
-       
-       let r, g, b;
-       
-       if (energyPct > 0.5) {
-           r = 59; g = 130 + Math.floor(100 * (1 - energyPct)); b = 246;
-       } else {
-           r = 59 + Math.floor(180 * (1 - (energyPct * 2))); 
-           g = 130 - Math.floor(100 * (1 - (energyPct * 2)));
-           b = 246 - Math.floor(200 * (1 - (energyPct * 2)));
-       }
-       
-       if (energyPct < 0.25) { r = 239; g = 68; b = 68; } 
-       else if (energyPct > 0.7) { r = 59; g = 130; b = 246; }
-
-       const timeSinceHit = Date.now() - shieldHitTimeRef.current;
-       if (timeSinceHit < 100) { r = 255; g = 255; b = 255; }
-       
-       let alphaMod = 1;
-       if (energyPct < 0.3) alphaMod = 0.5 + (Math.sin(Date.now() / 100) * 0.4); 
-       
-       shieldGrad.addColorStop(0, `rgba(${r}, ${g}, ${b}, 0)`);
-       shieldGrad.addColorStop(0.8, `rgba(${r}, ${g}, ${b}, ${0.1 * energyPct * alphaMod})`);
-       shieldGrad.addColorStop(1, `rgba(${r}, ${g}, ${b}, ${0.4 * energyPct * alphaMod})`);
-       
-       ctx.fillStyle = shieldGrad;
-       ctx.fill();
-       
-       ctx.lineWidth = energyPct < 0.3 ? (3 + Math.sin(Date.now() / 50)) : 2;
-       ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${0.6 * energyPct * alphaMod})`;
-       ctx.stroke();
-    }
-
-    // Draw Turret Projectiles
-    ctx.fillStyle = '#d8b4fe';
-    projectilesRef.current.forEach(p => {
-       ctx.beginPath();
-       ctx.arc(p.x, p.y, 3, 0, Math.PI * 2);
-       ctx.fill();
-       if (p.trail.length > 1) {
-           ctx.beginPath();
-           ctx.moveTo(p.trail[0].x, p.trail[0].y);
-           for(let k=1; k<p.trail.length; k++) ctx.lineTo(p.trail[k].x, p.trail[k].y);
-           ctx.strokeStyle = `rgba(167, 139, 250, 0.5)`;
-           ctx.lineWidth = 1;
-           ctx.stroke();
-       }
+    const alpha = advanceFixedStep(stepClockRef.current, frameDelta, () => {
+      previousPositionsRef.current = capturePositions(state);
+      const { events } = step(state, input, FIXED_STEP);
+      if (replayLevelRef.current) recordFrame(replayLevelRef.current, input);
+      // One-shot input is consumed by the first step that sees it
+      input.aim = null;
+      input.fireTargets = [];
+      input.selectBattery = null;
+      input.selectAmmo = null;
+      input.shieldAbility = null;
+      events.forEach(event => handleEngineEvent(state, event));
+      return state.status === 'RUNNING';
     });
 
-    // Draw Incoming Missiles
-    enemiesRef.current.forEach(e => {
-      // Draw Trail
-      if (e.trail.length > 1) {
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        
-        if (e.type === EnemyType.LASER) {
-             // Continuous Beam Effect for Laser
-             // Create a single path for the entire trail
-             ctx.beginPath();
-             ctx.moveTo(e.trail[0].x, e.trail[0].y);
-             for (let k = 1; k < e.trail.length; k++) {
-                 ctx.lineTo(e.trail[k].x, e.trail[k].y);
-             }
-             
-             // 1. Wide colored glow
-             ctx.shadowBlur = 20;
-             ctx.shadowColor = '#84cc16'; // Lime-500
-             ctx.lineWidth = 6;
-             ctx.strokeStyle = 'rgba(163, 230, 53, 0.6)'; // Lime-400
-             ctx.stroke();
-             
-             // 2. Inner bright beam
-             ctx.shadowBlur = 0;
-             ctx.lineWidth = 2;
-             ctx.strokeStyle = '#f7fee7'; // Lime-50
-             ctx.stroke();
-             
-        } else {
-            let lineWidth = 3;
-            if (e.type === EnemyType.HEAVY) lineWidth = 8;
-            if (e.type === EnemyType.FAST) lineWidth = 2;
-            if (e.type === EnemyType.WOBBLY) lineWidth = 3;
-            if (e.type === EnemyType.BULLET) lineWidth = 1;
-
-            ctx.lineWidth = lineWidth;
-            
-            for (let k = 0; k < e.trail.length - 1; k++) {
-                const p1 = e.trail[k];
-                const p2 = e.trail[k+1];
-                const opacity = k / e.trail.length;
-                
-                ctx.beginPath();
-                ctx.moveTo(p1.x, p1.y);
-                ctx.lineTo(p2.x, p2.y);
-                
-                let strokeColor = '';
-                
-                if (e.type === EnemyType.HEAVY) strokeColor = `rgba(50, 20, 20, ${opacity * 0.8})`; 
-                else if (e.type === EnemyType.FAST) strokeColor = `rgba(255, 255, 100, ${opacity})`;
-                else if (e.type === EnemyType.WOBBLY) strokeColor = `rgba(217, 70, 239, ${opacity})`;
-                else if (e.type === EnemyType.BULLET) strokeColor = `rgba(226, 232, 240, ${opacity * 0.3})`;
-                else if (e.type === EnemyType.BOMB) strokeColor = `rgba(30, 41, 59, ${opacity * 0.6})`;
-                else strokeColor = `rgba(239, 68, 68, ${opacity})`;
-                
-                ctx.strokeStyle = strokeColor;
-                ctx.stroke();
-
-                if (e.type === EnemyType.FAST) {
-                    ctx.beginPath();
-                    ctx.moveTo(p1.x, p1.y);
-                    ctx.lineTo(p2.x, p2.y);
-                    ctx.lineWidth = 1;
-                    ctx.strokeStyle = `rgba(255, 255, 255, ${opacity})`;
-                    ctx.stroke();
-                    ctx.lineWidth = lineWidth;
-                }
-
-                if (e.type === EnemyType.WOBBLY) {
-                    ctx.strokeStyle = `rgba(217, 70, 239, ${opacity})`;
-                    ctx.stroke();
-                    ctx.beginPath();
-                    const jitter = (Math.random() * 4) - 2;
-                    ctx.moveTo(p1.x + 4 + jitter, p1.y);
-                    ctx.lineTo(p2.x + 4 + jitter, p2.y);
-                    ctx.strokeStyle = `rgba(34, 211, 238, ${opacity * 0.7})`;
-                    ctx.lineWidth = 1;
-                    ctx.stroke();
-                    ctx.lineWidth = 3; 
-                }
-            }
-        }
-      }
-
-      let angle = Math.atan2(e.targetY - e.startY, e.targetX - e.startX);
-      if (e.type === EnemyType.WOBBLY && e.trail.length > 1) {
-           const p1 = e.trail[e.trail.length - 1];
-           const p2 = e.trail[e.trail.length - 2];
-           angle = Math.atan2(p1.y - p2.y, p1.x - p2.x);
-      }
-
-      ctx.save();
-      ctx.translate(e.x, e.y);
-      ctx.rotate(angle); 
-
-      ctx.fillStyle = e.color;
-      
-      if (e.type === EnemyType.HEAVY) {
-          ctx.beginPath();
-          ctx.arc(0, 0, 10, 0, Math.PI * 2);
-          ctx.fill();
-          ctx.fillStyle = '#450a0a';
-          ctx.beginPath();
-          ctx.arc(0, 0, 6, 0, Math.PI * 2);
-          ctx.fill();
-          ctx.fillStyle = 'rgba(255,255,255,0.2)';
-          ctx.beginPath();
-          ctx.arc(-3, -3, 3, 0, Math.PI * 2);
-          ctx.fill();
-
-      } else if (e.type === EnemyType.FAST) {
-          ctx.shadowBlur = 15;
-          ctx.shadowColor = '#fff';
-          ctx.beginPath();
-          ctx.moveTo(15, 0);
-          ctx.lineTo(-10, 5);
-          ctx.lineTo(-5, 0); 
-          ctx.lineTo(-10, -5);
-          ctx.closePath();
-          ctx.fill();
-          ctx.shadowBlur = 0;
-          ctx.fillStyle = '#fff';
-          ctx.beginPath();
-          ctx.moveTo(-5, 0);
-          ctx.lineTo(-15, 0);
-          ctx.strokeStyle = '#fff';
-          ctx.lineWidth = 2;
-          ctx.stroke();
-
-      } else if (e.type === EnemyType.WOBBLY) {
-           ctx.beginPath();
-           ctx.moveTo(8, 0);
-           ctx.lineTo(0, 6);
-           ctx.lineTo(-8, 0);
-           ctx.lineTo(0, -6);
-           ctx.closePath();
-           ctx.fill();
-           ctx.fillStyle = '#22d3ee';
-           if (Math.random() > 0.5) ctx.fillRect(-4, -2, 8, 2);
-           if (Math.random() > 0.5) ctx.fillRect(-2, 1, 4, 2);
-
-      } else if (e.type === EnemyType.BOMB) {
-           ctx.beginPath();
-           ctx.arc(0, 0, 8, 0, Math.PI * 2);
-           ctx.fill();
-           ctx.fillStyle = '#475569';
-           ctx.fillRect(-10, -8, 4, 16);
-           if (Math.floor(Date.now() / 200) % 2 === 0) {
-               ctx.fillStyle = '#ef4444';
-               ctx.beginPath();
-               ctx.arc(0, 0, 3, 0, Math.PI * 2);
-               ctx.fill();
-           }
-
-      } else if (e.type === EnemyType.BULLET) {
-           ctx.fillStyle = '#e2e8f0'; 
-           ctx.beginPath();
-           ctx.ellipse(0, 0, 8, 2, 0, 0, Math.PI * 2); 
-           ctx.fill();
-           ctx.fillStyle = '#fff';
-           ctx.beginPath();
-           ctx.ellipse(0, 0, 4, 1, 0, 0, Math.PI * 2);
-           ctx.fill();
-
-      } else if (e.type === EnemyType.LASER) {
-           ctx.shadowBlur = 10;
-           ctx.shadowColor = '#a3e635';
-           ctx.fillRect(-15, -1.5, 30, 3);
-           ctx.shadowBlur = 0;
-           ctx.fillStyle = '#ecfccb';
-           ctx.fillRect(-15, -0.5, 30, 1);
-
-      } else {
-          ctx.beginPath();
-          ctx.moveTo(10, 0);
-          ctx.quadraticCurveTo(0, 6, -8, 6);
-          ctx.lineTo(-6, 0);
-          ctx.lineTo(-8, -6);
-          ctx.quadraticCurveTo(0, -6, 10, 0);
-          ctx.fill();
-      }
-
-      ctx.restore();
-      
-      ctx.shadowBlur = (e.type === EnemyType.FAST || e.type === EnemyType.LASER) ? 20 : 5;
-      ctx.shadowColor = e.color;
-      ctx.shadowBlur = 0; 
-
-      if (e.maxHealth > 1) {
-         const barWidth = 24;
-         const barHeight = 4;
-         const barX = e.x - barWidth/2;
-         const barY = e.y - 20;
-
-         ctx.fillStyle = 'rgba(0,0,0,0.5)';
-         ctx.fillRect(barX, barY, barWidth, barHeight);
-
-         const pct = Math.max(0, e.health / e.maxHealth);
-         
-         if (pct > 0.5) ctx.fillStyle = '#22c55e';
-         else if (pct > 0.25) ctx.fillStyle = '#eab308';
-         else ctx.fillStyle = '#ef4444';
-
-         ctx.fillRect(barX, barY, barWidth * pct, barHeight);
-      }
-    });
-
-    // Draw Interceptors
-    interceptorsRef.current.forEach(i => {
-      const isUpgradedSpeed = upgradeStats.speedLevel > 0;
-      const trailWidth = 2 + (upgradeStats.speedLevel * 0.5);
-      
-      if (i.trail.length > 1) {
-        ctx.lineWidth = trailWidth;
-        ctx.lineCap = 'round';
-        
-        for (let k = 0; k < i.trail.length - 1; k++) {
-            const p1 = i.trail[k];
-            const p2 = i.trail[k+1];
-            const opacity = (k / i.trail.length) * 0.8; 
-            
-            ctx.beginPath();
-            ctx.moveTo(p1.x, p1.y);
-            ctx.lineTo(p2.x, p2.y);
-            
-            const r = isUpgradedSpeed ? 59 : 96;
-            const g = isUpgradedSpeed ? 130 : 165;
-            const b = isUpgradedSpeed ? 246 : 250;
-            
-            ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${opacity})`;
-            ctx.stroke();
-        }
-        
-        if (upgradeStats.speedLevel > 1) {
-            ctx.strokeStyle = `rgba(255, 255, 255, 0.4)`;
-            ctx.lineWidth = 1;
-            ctx.stroke();
-        }
-      }
-
-      ctx.fillStyle = '#bfdbfe';
-      ctx.beginPath();
-      const headSize = 2 + (upgradeStats.radiusLevel * 0.3);
-      ctx.arc(i.x, i.y, headSize, 0, Math.PI * 2);
-      ctx.fill();
-      
-      ctx.shadowBlur = 10;
-      ctx.shadowColor = '#60a5fa';
-      ctx.fill();
-      ctx.shadowBlur = 0;
-    });
-
-    // Draw Explosions
-    explosionsRef.current.forEach(exp => {
-      ctx.beginPath();
-      ctx.arc(exp.x, exp.y, exp.currentRadius, 0, Math.PI * 2);
-      const red = 251;
-      const green = Math.max(100, 146 - (upgradeStats.radiusLevel * 20));
-      ctx.fillStyle = `rgba(${red}, ${green}, 60, ${exp.alpha})`;
-      ctx.fill();
-      
-      ctx.strokeStyle = `rgba(255, 255, 255, ${exp.alpha})`;
-      ctx.lineWidth = 2;
-      ctx.stroke();
-
-      if (upgradeStats.radiusLevel > 0) {
-          ctx.beginPath();
-          ctx.arc(exp.x, exp.y, exp.currentRadius * 0.6, 0, Math.PI * 2);
-          ctx.strokeStyle = `rgba(255, 255, 255, ${exp.alpha * 0.7})`;
-          ctx.lineWidth = 1 + upgradeStats.radiusLevel;
-          ctx.stroke();
-      }
-      
-      if (upgradeStats.radiusLevel > 2) {
-          ctx.beginPath();
-          ctx.arc(exp.x, exp.y, exp.currentRadius * 0.85, 0, Math.PI * 2);
-          ctx.strokeStyle = `rgba(255, 200, 100, ${exp.alpha * 0.5})`;
-          ctx.lineWidth = 1;
-          ctx.stroke();
-      }
-    });
+    setObjective(
+      state.boss ? t('hud.boss')
+      : state.script?.win === 'clear' ? t('hud.wavesLeft', { waves: getWavesLeft(state) })
+      : t('hud.timeLeft', { time: Math.ceil(getTimeLeft(state)) })
+    );
+    setDisplayScore(state.score);
+    setDisplayMultiplier(state.multiplier);
+    setComboProgress(getComboProgress(state));
+    setDisplayBattery(state.selectedBattery);
+    setDisplayAmmo(state.selectedAmmo);
+    // Only a new object when a count changed, so idle frames don't re-render
+    setDisplayAmmoStock(prev => SPECIAL_AMMO_TYPES.every(type => prev[type] === state.ammoStock[type]) ? prev : { ...state.ammoStock });
+    const nextShieldHud = getShieldHud(state);
+    setShieldHud(prev => isSameShieldHud(prev, nextShieldHud) ? prev : nextShieldHud);
+
+    if (state.status !== 'RUNNING') return;
+
+    // --- DRAWING (interpolated between the last two steps) ---
+    drawScene(ctx, state, { previous: previousPositionsRef.current ?? capturePositions(state), alpha });
 
     requestRef.current = requestAnimationFrame(() => update(performance.now()));
   };
@@ -1447,6 +765,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
         }
     }
 
+    if (gameState === GameState.PAUSED && replayLevelRef.current) {
+        recordPause(replayLevelRef.current);
+    }
+
     if (gameState === GameState.PLAYING || gameState === GameState.GAME_OVER) {
         requestRef.current = requestAnimationFrame((time) => {
             lastTimeRef.current = time;
@@ -1462,10 +784,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
   }, [gameState, level, initLevel]);
 
   // Mobile Control Handlers
-  const handleTouchStart = (key: keyof typeof inputStateRef.current) => {
+  const handleTouchStart = (key: ControlKey) => {
       inputStateRef.current[key] = true;
   };
-  const handleTouchEnd = (key: keyof typeof inputStateRef.current) => {
+  const handleTouchEnd = (key: ControlKey) => {
       inputStateRef.current[key] = false;
   };
 
@@ -1486,7 +808,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
           <div className="flex flex-col items-start gap-1">
              <div className="bg-slate-900/80 border border-slate-700 p-3 rounded-lg flex gap-4 items-center shadow-lg shadow-blue-500/10">
                 <div className="text-blue-400 font-bold font-mono text-xl">
-                  נקודות: {displayScore}
+                  {t('hud.score', { score: displayScore })}
                 </div>
                 {displayMultiplier > 1 && (
                     <div className={`relative px-2 py-1 rounded font-black italic transform transition-all ${
@@ -1502,14 +824,87 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, level, difficulty, u
              </div>
              {highScore > 0 && (
                <div className="bg-slate-900/60 border border-slate-700 px-2 py-1 rounded text-yellow-400 font-mono text-sm">
-                  שיא: {highScore}
+                  {t('hud.highScore', { score: highScore })}
                </div>
              )}
+             <div className="bg-slate-900/60 border border-slate-700 px-2 py-1 rounded text-slate-300 text-xs">
+                {t('hud.battery', { battery: t(`battery.${displayBattery ?? 'nearest'}`) })}
+             </div>
           </div>
           
           <div className="bg-slate-900/80 border border-slate-700 p-3 rounded-lg text-red-400 font-bold font-mono text-xl shadow-lg shadow-red-500/10">
-            זמן שנותר: {displayTime}
+            {objective}
+          </div>
+        </div>
+
+        {/* Shield panel: charge of each generator and the abilities they power */}
+        {shieldHud.generators.length > 0 && (
+          <div className="absolute bottom-20 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-1 pointer-events-auto">
+            <div className="flex gap-1">
+              {shieldHud.generators.map(g => (
+                <div key={g.id} className="bg-slate-900/80 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] font-mono w-20">
+                  <div className={g.overload ? 'text-red-400 animate-pulse' : 'text-cyan-300'}>
+                    {g.overload ? t('hud.shieldOverload') : t('hud.shield', { level: g.level })}
+                  </div>
+                  <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${g.overload ? 'bg-red-500' : g.charge < 30 ? 'bg-amber-400' : 'bg-cyan-400'}`}
+                      style={{ width: `${g.charge}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              {shieldHud.abilities.map(ability => {
+                const def = SHIELD_ABILITY_DEFINITIONS[ability.type];
+                // The emitter can be moved again while it is up
+                const usable = !ability.lock || (ability.type === ShieldAbility.EMITTER && ability.active);
+                return (
+                  <button
+                    key={ability.type}
+                    onClick={() => { inputStateRef.current.shieldAbility = ability.type; }}
+                    disabled={!usable}
+                    className={`bg-slate-900/80 border-2 px-2 py-1 rounded text-xs font-mono flex flex-col items-center min-w-[4rem] transition-colors disabled:opacity-40 ${ability.active ? 'text-white' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                    style={ability.active ? { borderColor: def.color } : undefined}
+                  >
+                    <span className="font-bold" style={{ color: def.color }}>
+                      {def.hotkey.replace('Key', '')} · {t(`shieldAbility.${ability.type}`)}
+                    </span>
+                    <span>
+                      {ability.active ? t('hud.abilityActive')
+                        : ability.lock === 'level' ? t('hud.abilityLevel', { level: def.minLevel })
+                        : ability.cooldown > 0 ? `${ability.cooldown}s`
+                        : def.energyCost}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
           </div>
+        )}
+
+        {/* Ammo selector: hotkey, name and rounds left of each type */}
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex gap-1 pointer-events-auto">
+          {AMMO_TYPES.map(type => {
+            const def = AMMO_DEFINITIONS[type];
+            const stock = type === AmmoType.STANDARD ? null : displayAmmoStock[type];
+            const isSelected = displayAmmo === type;
+            return (
+              <button
+                key={type}
+                onClick={() => { inputStateRef.current.selectAmmo = type; }}
+                disabled={stock === 0}
+                className={`bg-slate-900/80 border-2 px-2 py-1 rounded text-xs font-mono flex flex-col items-center min-w-[4rem] transition-colors disabled:opacity-40 ${isSelected ? 'text-white' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                style={isSelected ? { borderColor: def.color } : undefined}
+              >
+                <span className="font-bold" style={{ color: def.color }}>
+                  {def.hotkey.replace('Key', '')} · {t(`ammo.${type}`)}
+                </span>
+                <span>{stock === null ? '∞' : stock}</span>
+              </button>
+            );
+          })}
         </div>
 
         {/* ON-SCREEN MOBILE CONTROLS (Fallback / Alternative) */}
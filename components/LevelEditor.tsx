@@ -0,0 +1,448 @@
+import React, { useRef, useState } from 'react';
+import { CityLayout, EnemyType, EngineStatus, LevelDefinition, WaveDefinition } from '../types';
+import { CAMPAIGN_LEVELS, CITY_LIMITS, DEFAULT_CITY, FORMATIONS, TARGET_POLICIES, WIN_CONDITIONS, canCompleteLevel, createBlankLevel } from '../engine/levels';
+import { ENEMY_DEFINITIONS } from '../engine/enemies';
+import { createCity, getBuildingDefinition } from '../engine/buildings';
+import { LEVEL_DURATION } from '../engine/gameEngine';
+import { useI18n } from '../i18n/I18nContext';
+import { PenTool, X, Download, Upload, Play, Copy, Trash2, FilePlus } from 'lucide-react';
+
+interface LevelEditorProps {
+  level: LevelDefinition;
+  playtestResult: Exclude<EngineStatus, 'RUNNING'> | null;
+  onChange: (level: LevelDefinition) => void;
+  onPlaytest: () => void;
+  onImport: (json: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+  importError: string | null;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500";
+
+const clamp = (value: number, [min, max]: readonly [number, number]) => Math.min(max, Math.max(min, value));
+
+// Seconds from the first to the last enemy of a wave
+const getWaveSpan = (wave: WaveDefinition) => (wave.count - 1) * wave.interval;
+
+const createWave = (delay: number): WaveDefinition => ({
+  delay,
+  enemyType: EnemyType.STANDARD,
+  count: 3,
+  spawnX: [0.05, 0.95],
+  target: 'random',
+  formation: 'scatter',
+  interval: 1
+});
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ level, playtestResult, onChange, onPlaytest, onImport, onExport, onClose, importError }) => {
+  const { t, formatNumber } = useI18n();
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const city = level.city ?? DEFAULT_CITY;
+  const selected = selectedIndex !== null ? level.waves[selectedIndex] : undefined;
+  const isPlayable = canCompleteLevel(level);
+
+  // The timeline always covers the level's duration and every authored wave
+  const timelineLength = Math.max(
+    level.duration ?? LEVEL_DURATION,
+    ...level.waves.map(w => w.delay + getWaveSpan(w) + 2)
+  );
+
+  // The engine's own city on a 1000px wide screen
+  const preview = createCity(1000, 0, city);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setSelectedIndex(null);
+    onImport(await file.text());
+  };
+
+  const update = (changes: Partial<LevelDefinition>) => onChange({ ...level, ...changes });
+
+  const updateCity = (changes: Partial<CityLayout>) => update({ city: { ...city, ...changes } });
+
+  const updateWave = (index: number, changes: Partial<WaveDefinition>) =>
+    update({ waves: level.waves.map((w, i) => i === index ? { ...w, ...changes } : w) });
+
+  const addWave = (wave: WaveDefinition) => {
+    update({ waves: [...level.waves, wave] });
+    setSelectedIndex(level.waves.length);
+  };
+
+  const deleteWave = (index: number) => {
+    update({ waves: level.waves.filter((_, i) => i !== index) });
+    setSelectedIndex(null);
+  };
+
+  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = clamp((e.clientX - rect.left) / rect.width, [0, 1]);
+    addWave(createWave(Math.round(fraction * timelineLength * 10) / 10));
+  };
+
+  const loadCampaignLevel = (levelNumber: number) => {
+    const source = CAMPAIGN_LEVELS.find(l => l.level === levelNumber);
+    if (!source) return;
+    setSelectedIndex(null);
+    onChange({ ...source, city: { ...(source.city ?? DEFAULT_CITY) }, waves: source.waves.map(w => ({ ...w, spawnX: [...w.spawnX] })) });
+  };
+
+  const setSpawnEdge = (edge: 0 | 1, percent: number) => {
+    if (!selected || selectedIndex === null) return;
+    const spawnX: [number, number] = [...selected.spawnX];
+    spawnX[edge] = clamp(percent / 100, [0, 1]);
+    // Keep the range ordered whichever edge moved
+    if (spawnX[0] > spawnX[1]) spawnX[1 - edge] = spawnX[edge];
+    updateWave(selectedIndex, { spawnX });
+  };
+
+  const waveOrder = level.waves
+    .map((wave, index) => ({ wave, index }))
+    .sort((a, b) => a.wave.delay - b.wave.delay);
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-start justify-center bg-slate-950/95 backdrop-blur-md overflow-y-auto animate-fade-in">
+      <div className="max-w-4xl w-full p-4 md:p-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold text-white flex items-center gap-2">
+            <PenTool className="w-7 h-7 text-cyan-400" />
+            {t('editor.title')}
+          </h2>
+          <button
+            onClick={onClose}
+            className="bg-slate-800/80 p-2 rounded-full border border-slate-600 hover:bg-slate-700 transition-colors"
+            aria-label={t('editor.close')}
+          >
+            <X className="w-6 h-6 text-slate-300" />
+          </button>
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={onPlaytest}
+            disabled={!isPlayable}
+            className="px-4 py-2 bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:hover:bg-green-600 text-white rounded-lg font-bold flex items-center gap-2 transition-colors"
+          >
+            <Play className="w-4 h-4 fill-current" />
+            {t('editor.playtest')}
+          </button>
+          <button
+            onClick={() => { setSelectedIndex(null); onChange(createBlankLevel()); }}
+            className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-bold flex items-center gap-1 transition-colors"
+          >
+            <FilePlus className="w-4 h-4" />
+            {t('editor.new')}
+          </button>
+          <button
+            onClick={onExport}
+            className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-bold flex items-center gap-1 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            {t('editor.export')}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-bold flex items-center gap-1 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            {t('editor.import')}
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+          <select
+            value=""
+            onChange={(e) => loadCampaignLevel(Number(e.target.value))}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+          >
+            <option value="" disabled>{t('editor.loadCampaign')}</option>
+            {CAMPAIGN_LEVELS.map(l => (
+              <option key={l.level} value={l.level}>{`${t('editor.campaignOption', { level: l.level })}${l.name ? ` - ${l.name}` : ''}`}</option>
+            ))}
+          </select>
+        </div>
+        {importError && <div className="text-red-400 text-sm">{importError}</div>}
+        {!isPlayable && <div className="text-amber-400 text-sm">{t('editor.clearNeedsWaves')}</div>}
+        {playtestResult && (
+          <div className={`text-sm font-bold ${playtestResult === 'LEVEL_COMPLETE' ? 'text-green-400' : 'text-red-400'}`}>
+            {t(`editor.result.${playtestResult}`)}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-4">
+          {/* Level Settings */}
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 space-y-3 text-sm">
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block space-y-1">
+                <span className="text-slate-400">{t('editor.level')}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={level.level}
+                  onChange={(e) => update({ level: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block space-y-1 col-span-2">
+                <span className="text-slate-400">{t('editor.name')}</span>
+                <input
+                  value={level.name ?? ''}
+                  onChange={(e) => update({ name: e.target.value })}
+                  maxLength={40}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <label className="block space-y-1">
+              <span className="text-slate-400">{t('editor.win')}</span>
+              <select
+                value={level.win}
+                onChange={(e) => update({ win: e.target.value as LevelDefinition['win'] })}
+                className={inputClass}
+              >
+                {WIN_CONDITIONS.map(w => <option key={w} value={w}>{t(`editor.win.${w}`)}</option>)}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2 items-end">
+              <label className="block space-y-1">
+                <span className="text-slate-400">{t('editor.duration')}</span>
+                <input
+                  type="number"
+                  min={5}
+                  step={5}
+                  value={level.duration ?? LEVEL_DURATION}
+                  onChange={(e) => update({ duration: Math.max(5, Number(e.target.value) || LEVEL_DURATION) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-2 py-1">
+                <input
+                  type="checkbox"
+                  checked={level.boss ?? false}
+                  onChange={(e) => update({ boss: e.target.checked })}
+                />
+                <span className="text-slate-300">{t('editor.boss')}</span>
+              </label>
+            </div>
+          </div>
+
+          {/* City Layout */}
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 space-y-3 text-sm">
+            <h3 className="font-bold text-slate-200">{t('editor.city')}</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {(['count', 'width', 'height'] as const).map(key => (
+                <label key={key} className="block space-y-1">
+                  <span className="text-slate-400">{t(key === 'count' ? 'editor.buildingCount' : key === 'width' ? 'editor.buildingWidth' : 'editor.buildingHeight')}</span>
+                  <input
+                    type="number"
+                    min={CITY_LIMITS[key][0]}
+                    max={CITY_LIMITS[key][1]}
+                    value={city[key]}
+                    onChange={(e) => updateCity({ [key]: clamp(Math.floor(Number(e.target.value)) || CITY_LIMITS[key][0], CITY_LIMITS[key]) })}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+            {/* Skyline preview */}
+            <div dir="ltr" className="relative h-20 bg-slate-950 rounded border border-slate-800 overflow-hidden">
+              {preview.map(b => (
+                <div
+                  key={b.id}
+                  title={t(`building.${b.type}`)}
+                  className="absolute bottom-0 opacity-80"
+                  style={{
+                    left: `${b.x / 10}%`,
+                    width: `${b.width / 10}%`,
+                    height: `${b.height * 0.6}%`,
+                    backgroundColor: getBuildingDefinition(b.type).color
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 space-y-2">
+          <div className="text-sm text-slate-400">{t('editor.timeline')}</div>
+          <div
+            dir="ltr"
+            onClick={handleTimelineClick}
+            className="relative h-24 bg-slate-950 rounded border border-slate-800 cursor-crosshair"
+          >
+            {/* Second marks */}
+            {Array.from({ length: Math.floor(timelineLength / 5) + 1 }, (_, i) => (
+              <div key={i} className="absolute top-0 bottom-0 border-l border-slate-800 text-[10px] text-slate-600 ps-1" style={{ left: `${(i * 5 * 100) / timelineLength}%` }}>
+                {i * 5}
+              </div>
+            ))}
+            {/* End of the level */}
+            {level.win === 'survive' && (
+              <div className="absolute top-0 bottom-0 border-l-2 border-dashed border-yellow-500/60" style={{ left: `${((level.duration ?? LEVEL_DURATION) * 100) / timelineLength}%` }} />
+            )}
+            {level.waves.map((wave, i) => (
+              <button
+                key={i}
+                onClick={(e) => { e.stopPropagation(); setSelectedIndex(i); }}
+                className={`absolute h-5 rounded text-[10px] font-bold text-white px-1 min-w-[1.25rem] border ${selectedIndex === i ? 'border-white z-10' : 'border-transparent'}`}
+                style={{
+                  left: `${(wave.delay * 100) / timelineLength}%`,
+                  width: `${(getWaveSpan(wave) * 100) / timelineLength}%`,
+                  top: `${16 + (i % 3) * 24}px`,
+                  backgroundColor: ENEMY_DEFINITIONS[wave.enemyType].color
+                }}
+              >
+                {wave.count}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          {/* Wave List */}
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 space-y-2">
+            <h3 className="font-bold text-slate-200">{t('editor.waves', { count: level.waves.length })}</h3>
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {level.waves.length === 0 && <div className="text-slate-500 text-sm">{t('editor.noWaves')}</div>}
+              {waveOrder.map(({ wave, index }) => (
+                <button
+                  key={index}
+                  onClick={() => setSelectedIndex(index)}
+                  className={`w-full flex items-center gap-2 p-2 rounded text-sm text-start transition-colors ${selectedIndex === index ? 'bg-blue-900/50 border border-blue-500' : 'bg-slate-800 border border-slate-700 hover:bg-slate-700'}`}
+                >
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: ENEMY_DEFINITIONS[wave.enemyType].color }} />
+                  <span className="flex-1 truncate">{t('editor.wave', { time: formatNumber(wave.delay) })}</span>
+                  <span className="text-slate-400">{formatNumber(wave.count)} × {t(`enemy.${wave.enemyType}`)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Selected Wave */}
+          {selected && selectedIndex !== null && (
+            <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 space-y-3 text-sm animate-fade-in">
+              <div className="flex items-center justify-between">
+                <h3 className="font-bold text-slate-200">{t('editor.wave', { time: formatNumber(selected.delay) })}</h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => addWave({ ...selected, spawnX: [...selected.spawnX], delay: selected.delay + getWaveSpan(selected) + 1 })}
+                    className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs font-bold flex items-center gap-1 transition-colors"
+                  >
+                    <Copy className="w-4 h-4" />
+                    {t('editor.duplicate')}
+                  </button>
+                  <button
+                    onClick={() => deleteWave(selectedIndex)}
+                    className="px-3 py-1 bg-red-900/60 hover:bg-red-800 text-red-200 rounded text-xs font-bold flex items-center gap-1 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    {t('editor.delete')}
+                  </button>
+                </div>
+              </div>
+              <label className="block space-y-1">
+                <span className="text-slate-400">{t('editor.enemyType')}</span>
+                <select
+                  value={selected.enemyType}
+                  onChange={(e) => updateWave(selectedIndex, { enemyType: e.target.value as EnemyType })}
+                  className={inputClass}
+                >
+                  {Object.values(EnemyType).map(type => <option key={type} value={type}>{t(`enemy.${type}`)}</option>)}
+                </select>
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                <label className="block space-y-1">
+                  <span className="text-slate-400">{t('editor.count')}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={selected.count}
+                    onChange={(e) => updateWave(selectedIndex, { count: clamp(Math.floor(Number(e.target.value)) || 1, [1, 30]) })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-slate-400">{t('editor.delay')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={selected.delay}
+                    onChange={(e) => updateWave(selectedIndex, { delay: Math.max(0, Number(e.target.value) || 0) })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-slate-400">{t('editor.interval')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={selected.interval}
+                    onChange={(e) => updateWave(selectedIndex, { interval: Math.max(0, Number(e.target.value) || 0) })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block space-y-1">
+                  <span className="text-slate-400">{t('editor.spawnFrom')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={Math.round(selected.spawnX[0] * 100)}
+                    onChange={(e) => setSpawnEdge(0, Number(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-slate-400">{t('editor.spawnTo')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={Math.round(selected.spawnX[1] * 100)}
+                    onChange={(e) => setSpawnEdge(1, Number(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block space-y-1">
+                  <span className="text-slate-400">{t('editor.target')}</span>
+                  <select
+                    value={selected.target}
+                    onChange={(e) => updateWave(selectedIndex, { target: e.target.value as WaveDefinition['target'] })}
+                    className={inputClass}
+                  >
+                    {TARGET_POLICIES.map(p => <option key={p} value={p}>{t(`editor.target.${p}`)}</option>)}
+                  </select>
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-slate-400">{t('editor.formation')}</span>
+                  <select
+                    value={selected.formation}
+                    onChange={(e) => updateWave(selectedIndex, { formation: e.target.value as WaveDefinition['formation'] })}
+                    className={inputClass}
+                  >
+                    {FORMATIONS.map(f => <option key={f} value={f}>{t(`editor.formation.${f}`)}</option>)}
+                  </select>
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
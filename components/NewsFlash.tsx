@@ -0,0 +1,45 @@
+import React from 'react';
+import { NewsReport } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { Radio } from 'lucide-react';
+
+interface NewsFlashProps {
+  report: NewsReport | null;
+  isLoading: boolean;
+}
+
+const NewsFlash: React.FC<NewsFlashProps> = ({ report, isLoading }) => {
+  const { t } = useI18n();
+  if (!report && !isLoading) return null;
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-red-900/60 overflow-hidden text-start">
+      <div className="bg-red-600 px-3 py-1 text-xs font-black text-white flex items-center gap-2">
+        <Radio className="w-4 h-4 animate-pulse" />
+        {t('news.flash')}
+      </div>
+      {isLoading || !report ? (
+        <div className="p-4 space-y-2 animate-pulse">
+          <div className="h-5 bg-slate-700 rounded w-2/3" />
+          <div className="h-3 bg-slate-800 rounded w-full" />
+          <div className="h-3 bg-slate-800 rounded w-5/6" />
+        </div>
+      ) : (
+        <div className="p-4 space-y-1">
+          <div className="text-lg font-bold text-white">{report.headline}</div>
+          <p className="text-sm text-slate-300">{report.description}</p>
+          {report.debrief.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-slate-800 space-y-2">
+              <div className="text-xs font-bold text-slate-500">{t('news.debrief')}</div>
+              {report.debrief.map((paragraph, i) => (
+                <p key={i} className="text-sm text-slate-400 leading-relaxed">{paragraph}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NewsFlash;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { NewsSettings } from '../types';
+import { NEWS_PROVIDER_KINDS } from '../services/newsService';
+import { useI18n } from '../i18n/I18nContext';
+
+interface NewsSettingsPanelProps {
+  settings: NewsSettings;
+  onChange: (settings: NewsSettings) => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500";
+
+const NewsSettingsPanel: React.FC<NewsSettingsPanelProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<NewsSettings>) => onChange({ ...settings, ...patch });
+  const isRemote = settings.provider === 'gemini' || settings.provider === 'openai';
+
+  return (
+    <div className="space-y-3 text-start text-sm">
+      {/* Provider */}
+      <div className="grid grid-cols-2 gap-2">
+        {NEWS_PROVIDER_KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => update({ provider: kind })}
+            className={`px-2 py-2 rounded-md font-bold transition-all ${settings.provider === kind ? 'bg-blue-600 text-white shadow-lg' : 'bg-slate-800 text-slate-400 hover:text-blue-400'}`}
+          >
+            {t(`newsSettings.${kind}`)}
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === 'openai' && (
+        <label className="block space-y-1">
+          <span className="text-slate-400">{t('newsSettings.endpoint')}</span>
+          <input
+            dir="ltr"
+            value={settings.endpoint}
+            onChange={(e) => update({ endpoint: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      )}
+
+      {isRemote && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block space-y-1">
+              <span className="text-slate-400">{t('newsSettings.model')}</span>
+              <input
+                dir="ltr"
+                value={settings.model}
+                placeholder="default"
+                onChange={(e) => update({ model: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-slate-400">{t('newsSettings.apiKey')}</span>
+              <input
+                dir="ltr"
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.rememberApiKey}
+              onChange={(e) => update({ rememberApiKey: e.target.checked })}
+            />
+            <span className="text-slate-400">{t('newsSettings.rememberApiKey')}</span>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block space-y-1">
+              <span className="text-slate-400">{t('newsSettings.timeout')}</span>
+              <input
+                type="number"
+                min={1}
+                value={settings.timeoutMs / 1000}
+                onChange={(e) => update({ timeoutMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-slate-400">{t('newsSettings.retries')}</span>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={settings.retries}
+                onChange={(e) => update({ retries: Math.min(5, Math.max(0, Math.floor(Number(e.target.value) || 0))) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NewsSettingsPanel;
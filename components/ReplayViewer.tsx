@@ -0,0 +1,200 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Replay } from '../types';
+import { createPlayback, advancePlayback, seekPlayback, getPlaybackPosition, getReplayFrameCount, ReplayPlayback } from '../engine/replay';
+import { drawScene, capturePositions, PositionSnapshot } from './sceneRenderer';
+import { useI18n } from '../i18n/I18nContext';
+import { Play, Pause, X, RotateCcw } from 'lucide-react';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const MAX_STEPS_PER_FRAME = 1000;
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const requestRef = useRef<number>();
+  const { t } = useI18n();
+  const [initialPlayback] = useState<ReplayPlayback>(() => createPlayback(replay));
+  const playbackRef = useRef(initialPlayback);
+  const lastTimeRef = useRef<number>(0);
+  const budgetRef = useRef<number>(0); // seconds of replay owed to the viewer
+  const previousPositionsRef = useRef<PositionSnapshot | null>(null);
+  const lastStepDeltaRef = useRef<number>(0);
+
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+  const [levelInfo, setLevelInfo] = useState({ level: replay.levels[0]?.level ?? 1, score: 0 });
+
+  const totalFrames = getReplayFrameCount(replay);
+
+  // Refs mirror UI state for the RAF loop
+  const isPlayingRef = useRef(isPlaying);
+  const speedRef = useRef(speed);
+  useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
+  useEffect(() => { speedRef.current = speed; }, [speed]);
+
+  const render = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { state } = playbackRef.current;
+
+    // Fit the recorded field into the current window
+    const scale = Math.min(canvas.width / state.width, canvas.height / state.height);
+    const offsetX = (canvas.width - state.width * scale) / 2;
+    const offsetY = (canvas.height - state.height * scale) / 2;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#020617';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(scale, 0, 0, scale, offsetX, offsetY);
+    // The last step overshoots the playback budget; show the state part-way into it
+    const stepDelta = lastStepDeltaRef.current;
+    const alpha = stepDelta > 0 ? Math.max(0, Math.min(1, 1 + budgetRef.current / stepDelta)) : 1;
+    drawScene(ctx, state, previousPositionsRef.current ? { previous: previousPositionsRef.current, alpha } : undefined);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  };
+
+  const syncUi = () => {
+    const playback = playbackRef.current;
+    setPosition(getPlaybackPosition(playback));
+    setLevelInfo({ level: playback.state.level, score: playback.state.score });
+    if (playback.finished) setIsPlaying(false);
+  };
+
+  const loop = (time: number) => {
+    const realDelta = (time - lastTimeRef.current) / 1000;
+    lastTimeRef.current = time;
+
+    const playback = playbackRef.current;
+    if (isPlayingRef.current && !playback.finished) {
+      // Ignore long stalls (background tab) instead of fast-forwarding through them
+      budgetRef.current += Math.min(realDelta, 0.1) * speedRef.current;
+      let steps = 0;
+      while (budgetRef.current > 0 && !playback.finished && steps < MAX_STEPS_PER_FRAME) {
+        previousPositionsRef.current = capturePositions(playback.state);
+        const stepDelta = advancePlayback(playback);
+        budgetRef.current -= stepDelta;
+        if (stepDelta > 0) lastStepDeltaRef.current = stepDelta;
+        steps++;
+      }
+      syncUi();
+    }
+
+    render();
+    requestRef.current = requestAnimationFrame(loop);
+  };
+
+  useEffect(() => {
+    const resize = () => {
+      if (!canvasRef.current) return;
+      canvasRef.current.width = window.innerWidth;
+      canvasRef.current.height = window.innerHeight;
+    };
+    resize();
+    window.addEventListener('resize', resize);
+
+    requestRef.current = requestAnimationFrame((time) => {
+      lastTimeRef.current = time;
+      loop(time);
+    });
+
+    return () => {
+      window.removeEventListener('resize', resize);
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    };
+  }, []);
+
+  const handleSeek = (target: number) => {
+    seekPlayback(playbackRef.current, target);
+    budgetRef.current = 0;
+    previousPositionsRef.current = null;
+    syncUi();
+  };
+
+  const togglePlay = () => {
+    if (playbackRef.current.finished) {
+      handleSeek(0);
+      setIsPlaying(true);
+      return;
+    }
+    setIsPlaying(p => !p);
+  };
+
+  // Pause markers across the whole timeline
+  const pauseMarkers: number[] = [];
+  let offset = 0;
+  replay.levels.forEach(segment => {
+    segment.pauses.forEach(frame => pauseMarkers.push(offset + frame));
+    offset += segment.frames.length;
+  });
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-950 animate-fade-in">
+      <canvas ref={canvasRef} className="block absolute top-0 left-0" />
+
+      <div className="absolute top-4 left-4 right-4 flex justify-between items-start pointer-events-none">
+        <div className="bg-slate-900/80 border border-slate-700 p-3 rounded-lg font-mono text-blue-400 font-bold">
+          {t('replay.header', { level: levelInfo.level, score: levelInfo.score })}
+        </div>
+        <button
+          onClick={onClose}
+          className="pointer-events-auto bg-slate-800/80 p-2 rounded-full border border-slate-600 hover:bg-slate-700 transition-colors"
+          aria-label={t('replay.close')}
+        >
+          <X className="w-6 h-6 text-slate-300" />
+        </button>
+      </div>
+
+      <div className="absolute bottom-10 left-1/2 -translate-x-1/2 w-full max-w-2xl px-4">
+        <div className="bg-slate-900/90 border border-slate-700 rounded-xl p-3 flex items-center gap-3 shadow-lg" dir="ltr">
+          <button
+            onClick={togglePlay}
+            className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors"
+            aria-label={isPlaying ? 'Pause' : 'Play'}
+          >
+            {playbackRef.current.finished ? <RotateCcw className="w-5 h-5" /> :
+             isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+
+          <div className="relative flex-1">
+            <input
+              type="range"
+              min={0}
+              max={totalFrames}
+              value={position}
+              onChange={(e) => handleSeek(parseInt(e.target.value, 10))}
+              className="w-full accent-blue-500"
+            />
+            {totalFrames > 0 && pauseMarkers.map((frame, i) => (
+              <div
+                key={i}
+                className="absolute -top-1 w-0.5 h-2 bg-yellow-400 pointer-events-none"
+                style={{ left: `${(frame / totalFrames) * 100}%` }}
+              />
+            ))}
+          </div>
+
+          <div className="flex gap-1">
+            {SPEEDS.map(s => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`px-2 py-1 rounded text-xs font-bold font-mono transition-colors ${speed === s ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react';
+import { Difficulty, RunRecord } from '../types';
+import { getLeaderboard } from '../services/leaderboardService';
+import { useI18n } from '../i18n/I18nContext';
+import { Trophy, X, Download, Upload, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface RunHistoryProps {
+  runs: RunRecord[];
+  initialDifficulty: Difficulty;
+  onImport: (json: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+  importError: string | null;
+}
+
+const RunHistory: React.FC<RunHistoryProps> = ({ runs, initialDifficulty, onImport, onExport, onClose, importError }) => {
+  const { t, formatNumber, formatDate } = useI18n();
+  const [difficulty, setDifficulty] = useState<Difficulty>(initialDifficulty);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const leaderboard = getLeaderboard(runs, difficulty);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(await file.text());
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-950/95 backdrop-blur-md overflow-y-auto animate-fade-in">
+      <div className="max-w-2xl w-full p-4 md:p-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold text-white flex items-center gap-2">
+            <Trophy className="w-7 h-7 text-yellow-400" />
+            {t('records.title')}
+          </h2>
+          <button
+            onClick={onClose}
+            className="bg-slate-800/80 p-2 rounded-full border border-slate-600 hover:bg-slate-700 transition-colors"
+            aria-label={t('records.close')}
+          >
+            <X className="w-6 h-6 text-slate-300" />
+          </button>
+        </div>
+
+        {/* Difficulty Tabs */}
+        <div className="flex justify-center gap-2 bg-slate-900/50 p-2 rounded-lg border border-slate-800">
+          {Object.values(Difficulty).map(d => (
+            <button
+              key={d}
+              onClick={() => setDifficulty(d)}
+              className={`px-4 py-2 rounded-md font-bold transition-all ${difficulty === d ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-blue-400'}`}
+            >
+              {t(`difficulty.${d}`)}
+            </button>
+          ))}
+        </div>
+
+        {/* Leaderboard */}
+        <div className="bg-slate-900 rounded-xl border border-slate-800 overflow-hidden">
+          {leaderboard.length === 0 ? (
+            <div className="text-slate-500 text-center py-6">{t('records.empty')}</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-slate-400 bg-slate-800/50">
+                <tr>
+                  <th className="p-2">#</th>
+                  <th className="p-2 text-start">{t('records.player')}</th>
+                  <th className="p-2">{t('records.score')}</th>
+                  <th className="p-2">{t('records.level')}</th>
+                  <th className="p-2">{t('records.buildingsSaved')}</th>
+                  <th className="p-2">{t('records.upgrades')}</th>
+                  <th className="p-2">{t('records.date')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.map((run, i) => (
+                  <tr key={run.id} className="border-t border-slate-800 text-center">
+                    <td className={`p-2 font-bold ${i === 0 ? 'text-yellow-400' : 'text-slate-500'}`}>{i + 1}</td>
+                    <td className="p-2 text-start truncate max-w-[8rem]">
+                      {run.playerName}
+                      {run.legacy && <span className="ms-1 text-[10px] text-amber-400">{t('records.legacy')}</span>}
+                    </td>
+                    <td className="p-2 font-mono text-blue-400">{formatNumber(run.score)}</td>
+                    <td className="p-2 font-mono">{formatNumber(run.levelReached)}</td>
+                    <td className="p-2 font-mono">{formatNumber(run.buildingsSaved)}</td>
+                    <td className="p-2 font-mono">{formatNumber(run.upgradesBought)}</td>
+                    <td className="p-2 text-slate-400">{run.legacy ? t('records.unknownDate') : formatDate(run.date)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Run History */}
+        <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-bold">{t('records.history')}</h3>
+            <div className="flex gap-2">
+              <button
+                onClick={onExport}
+                disabled={runs.length === 0}
+                className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-xs font-bold flex items-center gap-1 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                {t('records.export')}
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs font-bold flex items-center gap-1 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                {t('records.import')}
+              </button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+            </div>
+          </div>
+          {importError && <div className="text-red-400 text-sm">{importError}</div>}
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {runs.length === 0 && <div className="text-slate-500 text-sm">{t('records.noRuns')}</div>}
+            {runs.map(run => {
+              const isExpanded = expandedRunId === run.id;
+              return (
+                <div key={run.id} className="bg-slate-800 rounded-lg border border-slate-700">
+                  <button
+                    onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                    className="w-full p-3 flex items-center justify-between gap-3 text-start"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-bold text-sm truncate">
+                        {run.playerName} · {t(`difficulty.${run.difficulty}`)}
+                        {run.legacy && <span className="ms-1 text-[10px] text-amber-400">{t('records.legacy')}</span>}
+                      </div>
+                      <div className="text-xs text-slate-400">
+                        {run.legacy
+                          ? t('records.legacySummary')
+                          : t('records.runSummary', { date: formatDate(run.date), level: run.levelReached, kills: run.enemiesDestroyed })}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="font-mono text-blue-400">{formatNumber(run.score)}</span>
+                      {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    </div>
+                  </button>
+
+                  {isExpanded && (
+                    <table className="w-full text-xs border-t border-slate-700">
+                      <thead className="text-slate-400">
+                        <tr>
+                          <th className="p-1">{t('records.level')}</th>
+                          <th className="p-1">{t('records.kills')}</th>
+                          <th className="p-1">{t('records.buildingsLost')}</th>
+                          <th className="p-1">{t('records.buildingsStanding')}</th>
+                          <th className="p-1">{t('records.score')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {run.levels.map(l => (
+                          <tr key={l.level} className="text-center font-mono border-t border-slate-700/50">
+                            <td className="p-1">{l.level}</td>
+                            <td className="p-1">{l.enemiesDestroyed}</td>
+                            <td className="p-1 text-red-400">{l.buildingsLost}</td>
+                            <td className="p-1 text-green-400">{l.buildingsStanding}</td>
+                            <td className="p-1 text-blue-400">{formatNumber(l.score)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunHistory;
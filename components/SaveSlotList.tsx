@@ -0,0 +1,56 @@
+import React from 'react';
+import { SaveSlot } from '../types';
+import { AUTOSAVE_SLOT_ID } from '../services/saveService';
+import { useI18n } from '../i18n/I18nContext';
+import { Trash2, FolderOpen } from 'lucide-react';
+
+interface SaveSlotListProps {
+  slots: SaveSlot[];
+  onLoad: (slot: SaveSlot) => void;
+  onDelete: (slot: SaveSlot) => void;
+}
+
+const SaveSlotList: React.FC<SaveSlotListProps> = ({ slots, onLoad, onDelete }) => {
+  const { t, formatDateTime } = useI18n();
+
+  if (slots.length === 0) {
+    return <div className="text-slate-500 text-sm py-2">{t('saves.empty')}</div>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-60 overflow-y-auto text-start">
+      {slots.map(slot => (
+        <div key={slot.id} className="bg-slate-800 p-3 rounded-lg flex items-center justify-between gap-3 border border-slate-700">
+          <div className="min-w-0">
+            <div className="font-bold text-sm truncate">{slot.id === AUTOSAVE_SLOT_ID ? t('saves.autosave') : slot.name}</div>
+            <div className="text-xs text-slate-400">
+              {t('saves.details', {
+                level: slot.campaign.level,
+                difficulty: t(`difficulty.${slot.campaign.difficulty}`),
+                date: formatDateTime(slot.savedAt)
+              })}
+            </div>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <button
+              onClick={() => onLoad(slot)}
+              className="p-2 bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+              aria-label={t('saves.load')}
+            >
+              <FolderOpen className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(slot)}
+              className="p-2 bg-slate-700 hover:bg-red-600 rounded transition-colors"
+              aria-label={t('saves.delete')}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SaveSlotList;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { UpgradeStats } from '../types';
+import { MessageKey } from '../i18n/he';
+import { UPGRADE_BRANCHES, UPGRADE_DEFINITIONS, UPGRADE_IDS, UpgradeId, UpgradeLock, canRefund, getRefundValue, getRespecValue, getUpgradeCost, getUpgradeLock } from '../engine/upgrades';
+import { useI18n } from '../i18n/I18nContext';
+import { Zap, Circle, Crosshair, Target, Anchor, Hexagon, Navigation, Radio, RotateCcw, Lock } from 'lucide-react';
+
+interface UpgradeTreeProps {
+  upgrades: UpgradeStats;
+  credits: number;
+  onBuy: (id: UpgradeId) => void;
+  onRefund: (id: UpgradeId) => void;
+  onRespec: () => void;
+}
+
+// Look of each node; class names are spelled out so Tailwind keeps them
+const UPGRADE_STYLES: Record<UpgradeId, { name: MessageKey; icon: React.ElementType; iconClass: string; buttonClass: string }> = {
+  speedLevel: { name: 'upgrade.speed', icon: Zap, iconClass: 'bg-blue-500/20 text-blue-400', buttonClass: 'bg-blue-600 hover:bg-blue-500 disabled:hover:bg-blue-600' },
+  targetingLevel: { name: 'upgrade.targeting', icon: Target, iconClass: 'bg-red-500/20 text-red-400', buttonClass: 'bg-red-600 hover:bg-red-500 disabled:hover:bg-red-600' },
+  guidanceLevel: { name: 'upgrade.guidance', icon: Navigation, iconClass: 'bg-pink-500/20 text-pink-400', buttonClass: 'bg-pink-600 hover:bg-pink-500 disabled:hover:bg-pink-600' },
+  radiusLevel: { name: 'upgrade.radius', icon: Circle, iconClass: 'bg-orange-500/20 text-orange-400', buttonClass: 'bg-orange-600 hover:bg-orange-500 disabled:hover:bg-orange-600' },
+  proximityLevel: { name: 'upgrade.proximity', icon: Radio, iconClass: 'bg-amber-500/20 text-amber-400', buttonClass: 'bg-amber-600 hover:bg-amber-500 disabled:hover:bg-amber-600' },
+  rateLevel: { name: 'upgrade.rate', icon: Crosshair, iconClass: 'bg-green-500/20 text-green-400', buttonClass: 'bg-green-600 hover:bg-green-500 disabled:hover:bg-green-600' },
+  turretLevel: { name: 'upgrade.turret', icon: Anchor, iconClass: 'bg-purple-500/20 text-purple-400', buttonClass: 'bg-purple-600 hover:bg-purple-500 disabled:hover:bg-purple-600' },
+  shieldLevel: { name: 'upgrade.shield', icon: Hexagon, iconClass: 'bg-cyan-500/20 text-cyan-400', buttonClass: 'bg-cyan-600 hover:bg-cyan-500 disabled:hover:bg-cyan-600' }
+};
+
+const UpgradeTree: React.FC<UpgradeTreeProps> = ({ upgrades, credits, onBuy, onRefund, onRespec }) => {
+  const { t, formatNumber } = useI18n();
+  const respecValue = getRespecValue(upgrades);
+
+  const describeLock = (lock: UpgradeLock) => {
+    if (lock.reason === 'maxed') return t('upgrade.maxed');
+    if (lock.reason === 'requires') {
+      return t('upgrade.requires', { name: t(UPGRADE_STYLES[lock.requirement.id].name), level: lock.requirement.level });
+    }
+    return t('upgrade.exclusive', { name: t(UPGRADE_STYLES[lock.rival].name) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {UPGRADE_BRANCHES.map(branch => (
+          <div key={branch} className="space-y-2">
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-wide">{t(`upgrade.branch.${branch}`)}</div>
+            {UPGRADE_IDS.filter(id => UPGRADE_DEFINITIONS[id].branch === branch)
+              .sort((a, b) => UPGRADE_DEFINITIONS[a].tier - UPGRADE_DEFINITIONS[b].tier)
+              .map((id, i) => {
+                const def = UPGRADE_DEFINITIONS[id];
+                const style = UPGRADE_STYLES[id];
+                const Icon = style.icon;
+                const level = upgrades[id];
+                const lock = getUpgradeLock(upgrades, id);
+                const cost = getUpgradeCost(id, level);
+                return (
+                  <React.Fragment key={id}>
+                    {/* Connector to the prerequisite above */}
+                    {i > 0 && <div className="mx-auto w-0.5 h-3 bg-slate-600" />}
+                    <div className={`bg-slate-800 p-3 rounded-lg space-y-2 border ${def.exclusiveGroup ? 'border-dashed border-amber-700/60' : 'border-slate-700'} ${lock && lock.reason !== 'maxed' ? 'opacity-60' : ''}`}>
+                      <div className="flex items-center gap-2">
+                        <div className={`p-1.5 rounded-lg ${style.iconClass}`}>
+                          <Icon className="w-4 h-4" />
+                        </div>
+                        <div className="min-w-0">
+                          <div className="font-bold text-xs leading-tight">{t(style.name)}</div>
+                          <div className="text-[10px] text-slate-400">
+                            {level === 0 ? t('upgrade.notOwned') : t('upgrade.levelOf', { level, max: def.maxLevel })}
+                          </div>
+                        </div>
+                      </div>
+
+                      {/* Level pips */}
+                      <div className="flex gap-0.5">
+                        {Array.from({ length: def.maxLevel }, (_, n) => (
+                          <div key={n} className={`h-1 flex-1 rounded-full ${n < level ? 'bg-yellow-400' : 'bg-slate-600'}`} />
+                        ))}
+                      </div>
+
+                      {def.exclusiveGroup && <div className="text-[10px] text-amber-400">{t('upgrade.exclusiveHint')}</div>}
+
+                      {lock ? (
+                        <div className="text-[10px] text-slate-400 flex items-center gap-1">
+                          {lock.reason !== 'maxed' && <Lock className="w-3 h-3 shrink-0" />}
+                          {describeLock(lock)}
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => onBuy(id)}
+                          disabled={credits < cost}
+                          className={`w-full px-2 py-1 disabled:opacity-50 rounded text-xs font-bold transition-colors ${style.buttonClass}`}
+                        >
+                          {t(level === 0 ? 'upgrade.buy' : 'upgrade.upgrade', { cost: formatNumber(cost) })}
+                        </button>
+                      )}
+
+                      {canRefund(upgrades, id) && (
+                        <button
+                          onClick={() => onRefund(id)}
+                          className="w-full px-2 py-0.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 transition-colors"
+                        >
+                          {t('upgrade.refund', { value: formatNumber(getRefundValue(id, level)) })}
+                        </button>
+                      )}
+                    </div>
+                  </React.Fragment>
+                );
+              })}
+          </div>
+        ))}
+      </div>
+
+      {/* Respec */}
+      <button
+        onClick={onRespec}
+        disabled={respecValue === 0}
+        className="w-full py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-sm font-bold border border-slate-700 flex items-center justify-center gap-2 transition-colors"
+      >
+        <RotateCcw className="w-4 h-4" />
+        {t('upgrade.respec', { value: formatNumber(respecValue) })}
+      </button>
+    </div>
+  );
+};
+
+export default UpgradeTree;
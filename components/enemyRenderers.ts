@@ -0,0 +1,267 @@
+import { EnemyMissile, Point } from '../types';
+import { EnemyRendererId } from '../engine/enemies';
+
+// How each enemy looks. Enemy definitions pick one of these by id.
+
+export interface EnemyRenderer {
+  // Fading trail drawn segment by segment; `drawTrail` replaces it entirely
+  trailWidth: number;
+  trailColor: (opacity: number) => string;
+  drawSegmentOverlay?: (ctx: CanvasRenderingContext2D, p1: Point, p2: Point, opacity: number) => void;
+  drawTrail?: (ctx: CanvasRenderingContext2D, trail: Point[]) => void;
+  // Point the body along the actual flight path instead of the launch line
+  faceMotion?: boolean;
+  // Drawn translated to the enemy and rotated to its heading
+  drawBody: (ctx: CanvasRenderingContext2D, enemy: EnemyMissile) => void;
+}
+
+export const ENEMY_RENDERERS: Record<EnemyRendererId, EnemyRenderer> = {
+  missile: {
+    trailWidth: 3,
+    trailColor: (opacity) => `rgba(239, 68, 68, ${opacity})`,
+    drawBody: (ctx) => {
+      ctx.beginPath();
+      ctx.moveTo(10, 0);
+      ctx.quadraticCurveTo(0, 6, -8, 6);
+      ctx.lineTo(-6, 0);
+      ctx.lineTo(-8, -6);
+      ctx.quadraticCurveTo(0, -6, 10, 0);
+      ctx.fill();
+    }
+  },
+
+  fast: {
+    trailWidth: 2,
+    trailColor: (opacity) => `rgba(255, 255, 100, ${opacity})`,
+    drawSegmentOverlay: (ctx, p1, p2, opacity) => {
+      ctx.beginPath();
+      ctx.moveTo(p1.x, p1.y);
+      ctx.lineTo(p2.x, p2.y);
+      ctx.lineWidth = 1;
+      ctx.strokeStyle = `rgba(255, 255, 255, ${opacity})`;
+      ctx.stroke();
+      ctx.lineWidth = 2;
+    },
+    drawBody: (ctx) => {
+      ctx.shadowBlur = 15;
+      ctx.shadowColor = '#fff';
+      ctx.beginPath();
+      ctx.moveTo(15, 0);
+      ctx.lineTo(-10, 5);
+      ctx.lineTo(-5, 0);
+      ctx.lineTo(-10, -5);
+      ctx.closePath();
+      ctx.fill();
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = '#fff';
+      ctx.beginPath();
+      ctx.moveTo(-5, 0);
+      ctx.lineTo(-15, 0);
+      ctx.strokeStyle = '#fff';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+  },
+
+  heavy: {
+    trailWidth: 8,
+    trailColor: (opacity) => `rgba(50, 20, 20, ${opacity * 0.8})`,
+    drawBody: (ctx) => {
+      ctx.beginPath();
+      ctx.arc(0, 0, 10, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#450a0a';
+      ctx.beginPath();
+      ctx.arc(0, 0, 6, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = 'rgba(255,255,255,0.2)';
+      ctx.beginPath();
+      ctx.arc(-3, -3, 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+
+  wobbly: {
+    trailWidth: 3,
+    trailColor: (opacity) => `rgba(217, 70, 239, ${opacity})`,
+    drawSegmentOverlay: (ctx, p1, p2, opacity) => {
+      ctx.strokeStyle = `rgba(217, 70, 239, ${opacity})`;
+      ctx.stroke();
+      ctx.beginPath();
+      const jitter = (Math.random() * 4) - 2;
+      ctx.moveTo(p1.x + 4 + jitter, p1.y);
+      ctx.lineTo(p2.x + 4 + jitter, p2.y);
+      ctx.strokeStyle = `rgba(34, 211, 238, ${opacity * 0.7})`;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.lineWidth = 3;
+    },
+    faceMotion: true,
+    drawBody: (ctx) => {
+      ctx.beginPath();
+      ctx.moveTo(8, 0);
+      ctx.lineTo(0, 6);
+      ctx.lineTo(-8, 0);
+      ctx.lineTo(0, -6);
+      ctx.closePath();
+      ctx.fill();
+      ctx.fillStyle = '#22d3ee';
+      if (Math.random() > 0.5) ctx.fillRect(-4, -2, 8, 2);
+      if (Math.random() > 0.5) ctx.fillRect(-2, 1, 4, 2);
+    }
+  },
+
+  bomb: {
+    trailWidth: 3,
+    trailColor: (opacity) => `rgba(30, 41, 59, ${opacity * 0.6})`,
+    drawBody: (ctx) => {
+      ctx.beginPath();
+      ctx.arc(0, 0, 8, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#475569';
+      ctx.fillRect(-10, -8, 4, 16);
+      if (Math.floor(Date.now() / 200) % 2 === 0) {
+        ctx.fillStyle = '#ef4444';
+        ctx.beginPath();
+        ctx.arc(0, 0, 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  },
+
+  bullet: {
+    trailWidth: 1,
+    trailColor: (opacity) => `rgba(226, 232, 240, ${opacity * 0.3})`,
+    drawBody: (ctx) => {
+      ctx.fillStyle = '#e2e8f0';
+      ctx.beginPath();
+      ctx.ellipse(0, 0, 8, 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#fff';
+      ctx.beginPath();
+      ctx.ellipse(0, 0, 4, 1, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+
+  laser: {
+    trailWidth: 2,
+    trailColor: (opacity) => `rgba(163, 230, 53, ${opacity * 0.5})`,
+    drawBody: (ctx, enemy) => {
+      // Telegraph: aim line to the target, brighter as the charge builds
+      if (enemy.charge !== undefined) {
+        const range = Math.hypot(enemy.targetX - enemy.x, enemy.targetY - enemy.y);
+        ctx.setLineDash([6, 6]);
+        ctx.lineWidth = 1 + enemy.charge * 2;
+        ctx.strokeStyle = `rgba(163, 230, 53, ${0.2 + enemy.charge * 0.6})`;
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(range, 0);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.shadowBlur = 5 + enemy.charge * 20;
+        ctx.shadowColor = '#a3e635';
+      }
+
+      // Emitter lens
+      ctx.beginPath();
+      ctx.moveTo(10, 0);
+      ctx.lineTo(0, 8);
+      ctx.lineTo(-10, 0);
+      ctx.lineTo(0, -8);
+      ctx.closePath();
+      ctx.fill();
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = '#ecfccb';
+      ctx.beginPath();
+      ctx.arc(4, 0, 2 + (enemy.charge ?? 0) * 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+
+  mirv: {
+    trailWidth: 4,
+    trailColor: (opacity) => `rgba(244, 114, 182, ${opacity * 0.8})`,
+    drawBody: (ctx, enemy) => {
+      // Carrier with its warheads visible on the nose
+      ctx.beginPath();
+      ctx.ellipse(0, 0, 12, 7, 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#fdf2f8';
+      [-4, 0, 4].forEach(offset => {
+        ctx.beginPath();
+        ctx.arc(8, offset, 2, 0, Math.PI * 2);
+        ctx.fill();
+      });
+
+      // Blinks faster as it closes in on the split altitude
+      const progress = enemy.splitY ? Math.min(1, Math.max(0, enemy.y / enemy.splitY)) : 0;
+      const blinkPeriod = 400 - progress * 300;
+      if (Math.floor(Date.now() / blinkPeriod) % 2 === 0) {
+        ctx.strokeStyle = `rgba(244, 114, 182, ${0.3 + progress * 0.7})`;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(0, 0, 16 + progress * 6, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+  },
+
+  bomber: {
+    trailWidth: 3,
+    trailColor: (opacity) => `rgba(148, 163, 184, ${opacity * 0.4})`,
+    drawBody: (ctx) => {
+      // Fuselage
+      ctx.beginPath();
+      ctx.ellipse(0, 0, 22, 5, 0, 0, Math.PI * 2);
+      ctx.fill();
+      // Swept wings and tail
+      ctx.beginPath();
+      ctx.moveTo(4, 0);
+      ctx.lineTo(-8, 16);
+      ctx.lineTo(-12, 16);
+      ctx.lineTo(-6, 0);
+      ctx.lineTo(-12, -16);
+      ctx.lineTo(-8, -16);
+      ctx.closePath();
+      ctx.moveTo(-16, 0);
+      ctx.lineTo(-22, 7);
+      ctx.lineTo(-22, -7);
+      ctx.closePath();
+      ctx.fill();
+      // Cockpit
+      ctx.fillStyle = '#cbd5e1';
+      ctx.beginPath();
+      ctx.ellipse(15, 0, 4, 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+
+  drone: {
+    trailWidth: 1,
+    trailColor: (opacity) => `rgba(56, 189, 248, ${opacity * 0.3})`,
+    drawBody: (ctx) => {
+      ctx.fillRect(-6, -3, 12, 6);
+      // Spinning rotors on four arms
+      const spin = (Date.now() / 40) % Math.PI;
+      ctx.strokeStyle = '#e0f2fe';
+      ctx.lineWidth = 1;
+      [[-9, -7], [9, -7], [-9, 7], [9, 7]].forEach(([x, y]) => {
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(x, y);
+        ctx.moveTo(x - Math.cos(spin) * 5, y - Math.sin(spin) * 5);
+        ctx.lineTo(x + Math.cos(spin) * 5, y + Math.sin(spin) * 5);
+        ctx.stroke();
+      });
+      // Blinking status light
+      if (Math.floor(Date.now() / 300) % 2 === 0) {
+        ctx.fillStyle = '#ef4444';
+        ctx.beginPath();
+        ctx.arc(0, 0, 1.5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }
+};
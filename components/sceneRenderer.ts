@@ -0,0 +1,727 @@
+import { AmmoType, Building, BuildingType, EngineState, Point, ShieldAbility, Structure, StructureType } from '../types';
+import { DOME_OVERHANG, getActiveStructures, getDefenseStats, getFiringBattery, getStructureAnchor, isShieldAbilityActive, isShieldUp } from '../engine/gameEngine';
+import { getEnemyDefinition } from '../engine/enemies';
+import { getAmmoDefinition } from '../engine/ammo';
+import { getShieldMaxEnergy, getShieldRadius, getStructureDefinition } from '../engine/structures';
+import { getShieldAbilityDefinition } from '../engine/shieldAbilities';
+import { MOTHERSHIP, getExposedWeakPoints } from '../engine/boss';
+import { DamageStage, getBuildingDefinition, getDamageStage } from '../engine/buildings';
+import { ENEMY_RENDERERS } from './enemyRenderers';
+
+// Positions of moving objects before the latest fixed step, keyed by entity id
+export interface PositionSnapshot {
+  entities: Map<number, Point>;
+  boss: Point | null;
+  crosshair: Point;
+}
+
+export interface RenderInterpolation {
+  previous: PositionSnapshot;
+  alpha: number; // 0 = previous step, 1 = current step
+}
+
+export const capturePositions = (state: EngineState): PositionSnapshot => {
+  const entities = new Map<number, Point>();
+  state.enemies.forEach(e => entities.set(e.id, { x: e.x, y: e.y }));
+  state.interceptors.forEach(i => entities.set(i.id, { x: i.x, y: i.y }));
+  state.projectiles.forEach(p => entities.set(p.id, { x: p.x, y: p.y }));
+  return { entities, boss: state.boss ? { x: state.boss.x, y: state.boss.y } : null, crosshair: { ...state.crosshair } };
+};
+
+const lerpPoint = (from: Point | undefined, to: Point, alpha: number): Point =>
+  from ? { x: from.x + (to.x - from.x) * alpha, y: from.y + (to.y - from.y) * alpha } : to;
+
+// Facade and the marking that tells the structure types apart
+const drawBuilding = (ctx: CanvasRenderingContext2D, b: Building, clock: number) => {
+  const cx = b.x + b.width / 2;
+  const cy = b.y + b.height / 2;
+  ctx.fillStyle = getBuildingDefinition(b.type).color;
+  ctx.fillRect(b.x, b.y, b.width, b.height);
+
+  switch (b.type) {
+    case BuildingType.RESIDENTIAL:
+      ctx.fillStyle = '#fef08a';
+      for(let wx = b.x + 5; wx < b.x + b.width; wx += 15) {
+           for(let wy = b.y + 5; wy < b.y + b.height; wy += 12) {
+               if (Math.random() > 0.3) ctx.fillRect(wx, wy, 8, 8);
+           }
+      }
+      break;
+    case BuildingType.HOSPITAL:
+      ctx.fillStyle = '#dc2626';
+      ctx.fillRect(cx - 3, cy - 9, 6, 18);
+      ctx.fillRect(cx - 9, cy - 3, 18, 6);
+      break;
+    case BuildingType.POWER_PLANT:
+      // Stack and a bolt
+      ctx.fillStyle = '#78716c';
+      ctx.fillRect(b.x + b.width - 14, b.y - 15, 8, 15);
+      ctx.fillStyle = '#fde047';
+      ctx.beginPath();
+      ctx.moveTo(cx + 3, cy - 12);
+      ctx.lineTo(cx - 6, cy + 2);
+      ctx.lineTo(cx, cy + 2);
+      ctx.lineTo(cx - 3, cy + 12);
+      ctx.lineTo(cx + 6, cy - 2);
+      ctx.lineTo(cx, cy - 2);
+      ctx.fill();
+      break;
+    case BuildingType.COMMAND_CENTER:
+      // Antenna with a blinking light over a strip of screens
+      ctx.fillStyle = '#22d3ee';
+      ctx.fillRect(b.x + 6, cy - 3, b.width - 12, 6);
+      ctx.strokeStyle = '#94a3b8';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(cx, b.y);
+      ctx.lineTo(cx, b.y - 18);
+      ctx.stroke();
+      if (Math.floor(clock * 2) % 2 === 0) {
+        ctx.fillStyle = '#ef4444';
+        ctx.beginPath();
+        ctx.arc(cx, b.y - 18, 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      break;
+  }
+};
+
+// Ground defenses: a base in the type's colour with its gear on top and a pip per level
+const drawStructure = (ctx: CanvasRenderingContext2D, s: Structure, groundY: number, clock: number) => {
+  const { width, height, color } = getStructureDefinition(s.type);
+  const top = groundY - height;
+
+  if (s.isDestroyed) {
+    ctx.fillStyle = '#44403c';
+    ctx.beginPath();
+    ctx.moveTo(s.x - width / 2, groundY);
+    ctx.lineTo(s.x - width / 6, groundY - 7);
+    ctx.lineTo(s.x + width / 4, groundY - 4);
+    ctx.lineTo(s.x + width / 2, groundY);
+    ctx.fill();
+    return;
+  }
+
+  ctx.fillStyle = color;
+  ctx.fillRect(s.x - width / 2, top, width, height);
+
+  switch (s.type) {
+    case StructureType.TURRET:
+      ctx.fillStyle = '#a78bfa';
+      ctx.beginPath();
+      ctx.arc(s.x, top, 8, Math.PI, 0);
+      ctx.fill();
+      ctx.fillRect(s.x - 2, top - 16, 4, 10);
+      break;
+    case StructureType.RADAR: {
+      // Sweeping dish on a mast
+      const sweep = Math.cos(clock / 400 + s.id);
+      ctx.strokeStyle = '#5eead4';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(s.x, top);
+      ctx.lineTo(s.x, top - 8);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.ellipse(s.x, top - 12, 9 * Math.abs(sweep) + 1, 5, 0, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    }
+    case StructureType.SHIELD_GENERATOR: {
+      // Coil that glows while the shield holds and sparks red while overloaded
+      const sparking = s.overloadUntil > 0 && Math.floor(clock / 80) % 2 === 0;
+      const glow = sparking ? '#ef4444' : '#60a5fa';
+      const lit = sparking || (s.energy > 0 && s.overloadUntil === 0);
+      ctx.fillStyle = lit ? glow : '#334155';
+      ctx.shadowBlur = lit ? 8 : 0;
+      ctx.shadowColor = glow;
+      ctx.beginPath();
+      ctx.arc(s.x, top, 6, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.shadowBlur = 0;
+      break;
+    }
+  }
+
+  for (let i = 0; i < s.level; i++) {
+    ctx.fillStyle = '#facc15';
+    ctx.fillRect(s.x - width / 2 + 2 + i * 4, groundY - 4, 3, 3);
+  }
+
+  if (s.health < s.maxHealth) {
+    ctx.fillStyle = 'rgba(0,0,0,0.5)';
+    ctx.fillRect(s.x - width / 2, groundY + 3, width, 3);
+    ctx.fillStyle = s.health / s.maxHealth > 0.5 ? '#22c55e' : '#ef4444';
+    ctx.fillRect(s.x - width / 2, groundY + 3, width * s.health / s.maxHealth, 3);
+  }
+};
+
+// Cracks, then fire on the roof, then a smoke column - each stage keeps the ones before it
+const drawBuildingDamage = (ctx: CanvasRenderingContext2D, b: Building, stage: DamageStage, clock: number) => {
+  ctx.strokeStyle = '#1e293b';
+  ctx.lineWidth = 2;
+  for (let i = 0; i < 2; i++) {
+    // Fixed per building so the cracks don't move between frames
+    const x = b.x + b.width * (0.25 + 0.5 * ((b.id * 7 + i * 3) % 5) / 4);
+    ctx.beginPath();
+    ctx.moveTo(x, b.y);
+    ctx.lineTo(x + 6, b.y + b.height * 0.3);
+    ctx.lineTo(x - 4, b.y + b.height * 0.55);
+    ctx.lineTo(x + 3, b.y + b.height * 0.8);
+    ctx.stroke();
+  }
+  if (stage === 'cracked') return;
+
+  for (let i = 0; i < 3; i++) {
+    const x = b.x + b.width * (0.2 + i * 0.3);
+    const flicker = 10 + Math.sin(clock * 18 + b.id + i * 2) * 4;
+    ctx.fillStyle = i % 2 === 0 ? '#f97316' : '#facc15';
+    ctx.beginPath();
+    ctx.moveTo(x - 6, b.y);
+    ctx.lineTo(x, b.y - flicker);
+    ctx.lineTo(x + 6, b.y);
+    ctx.fill();
+  }
+  if (stage === 'burning') return;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+  ctx.fillRect(b.x, b.y, b.width, b.height);
+  for (let i = 0; i < 4; i++) {
+    const rise = (clock * 0.4 + i / 4 + b.id * 0.13) % 1;
+    ctx.fillStyle = `rgba(100, 116, 139, ${0.5 * (1 - rise)})`;
+    ctx.beginPath();
+    ctx.arc(b.x + b.width / 2 + Math.sin(rise * 6 + i) * 6, b.y - 10 - rise * 60, 6 + rise * 12, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+// Pure render of an engine state - no simulation happens here
+export const drawScene = (ctx: CanvasRenderingContext2D, state: EngineState, interpolation?: RenderInterpolation) => {
+  const { explosionMaxRadius, fireCooldown } = getDefenseStats(state.upgrades);
+
+  // Where a moving object appears between the last two fixed steps
+  const positionOf = (entity: { id: number; x: number; y: number }): Point =>
+    interpolation ? lerpPoint(interpolation.previous.entities.get(entity.id), entity, interpolation.alpha) : { x: entity.x, y: entity.y };
+  const crosshair = interpolation ? lerpPoint(interpolation.previous.crosshair, state.crosshair, interpolation.alpha) : state.crosshair;
+
+  ctx.clearRect(0, 0, state.width, state.height);
+
+  // Draw Sky
+  const gradient = ctx.createLinearGradient(0, 0, 0, state.height);
+  gradient.addColorStop(0, '#0f172a');
+  gradient.addColorStop(1, '#1e293b');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, state.width, state.height);
+
+  // Draw Ground
+  ctx.fillStyle = '#1c1917';
+  ctx.fillRect(0, state.height - 20, state.width, 20);
+
+  // Draw Crosshair (if active)
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(crosshair.x - 10, crosshair.y);
+  ctx.lineTo(crosshair.x + 10, crosshair.y);
+  ctx.moveTo(crosshair.x, crosshair.y - 10);
+  ctx.lineTo(crosshair.x, crosshair.y + 10);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(crosshair.x, crosshair.y, 6, 0, Math.PI * 2);
+  ctx.stroke();
+  
+  // --- TARGETING SYSTEM UPGRADE VISUALS ---
+  if (state.upgrades.targetingLevel > 0) {
+      // Draw dashed line from the battery that would fire to crosshair
+      const firing = getFiringBattery(state, crosshair.x);
+      ctx.beginPath();
+      ctx.setLineDash([5, 5]);
+      if (firing) {
+        ctx.moveTo(firing.x, firing.y);
+        ctx.lineTo(crosshair.x, crosshair.y);
+      }
+      ctx.strokeStyle = 'rgba(239, 68, 68, 0.4)'; // Red-500 low opacity
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.setLineDash([]);
+      
+      // Level 2: Draw blast radius preview of the loaded ammo
+      if (state.upgrades.targetingLevel > 1) {
+          ctx.beginPath();
+          ctx.arc(crosshair.x, crosshair.y, explosionMaxRadius * getAmmoDefinition(state.selectedAmmo).radiusMultiplier, 0, Math.PI * 2);
+          ctx.fillStyle = 'rgba(239, 68, 68, 0.1)';
+          ctx.fill();
+          ctx.strokeStyle = 'rgba(239, 68, 68, 0.3)';
+          ctx.stroke();
+      }
+  }
+
+
+  // Draw Buildings
+  state.buildings.forEach(b => {
+    if (!b.isDestroyed) {
+      drawBuilding(ctx, b, state.clock);
+      const stage = getDamageStage(b);
+      if (stage !== 'intact') drawBuildingDamage(ctx, b, stage, state.clock);
+    } else {
+      ctx.fillStyle = '#44403c';
+      ctx.beginPath();
+      ctx.moveTo(b.x, state.height - 20);
+      ctx.lineTo(b.x + b.width / 6, state.height - 30);
+      ctx.lineTo(b.x + b.width / 2, state.height - 25);
+      ctx.lineTo(b.x + b.width * 5 / 6, state.height - 35);
+      ctx.lineTo(b.x + b.width, state.height - 20);
+      ctx.fill();
+    }
+  });
+
+  // Draw Ground Defenses
+  state.structures.forEach(s => drawStructure(ctx, s, state.height - 20, state.clock));
+
+  // Draw Defense Batteries
+  const batteryColor = state.upgrades.rateLevel > 1 ? '#3b82f6' : '#64748b';
+  const onCooldown = (state.clock - state.lastShotTime) < fireCooldown;
+  state.batteries.forEach(b => {
+    if (b.isDestroyed) {
+      ctx.fillStyle = '#44403c';
+      ctx.beginPath();
+      ctx.moveTo(b.x - 20, b.y);
+      ctx.lineTo(b.x - 8, b.y - 8);
+      ctx.lineTo(b.x + 5, b.y - 4);
+      ctx.lineTo(b.x + 20, b.y);
+      ctx.fill();
+      return;
+    }
+
+    ctx.fillStyle = batteryColor;
+    ctx.beginPath();
+    ctx.arc(b.x, b.y, 20, Math.PI, 0);
+    ctx.fill();
+
+    if (state.upgrades.rateLevel > 0) {
+        ctx.strokeStyle = '#93c5fd';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(b.x, b.y, 12, Math.PI, 0);
+        ctx.stroke();
+    }
+
+    // Manually selected battery
+    if (state.selectedBattery === b.id) {
+        ctx.strokeStyle = '#facc15';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(b.x, b.y, 24, Math.PI, 0);
+        ctx.stroke();
+    }
+
+    const ready = !onCooldown && b.ammo > 0;
+    ctx.fillStyle = ready ? '#22c55e' : '#ef4444';
+    ctx.shadowBlur = ready ? 5 : 0;
+    ctx.shadowColor = '#22c55e';
+    ctx.beginPath();
+    ctx.arc(b.x, b.y, 5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+
+    // Ammo pips along the ground
+    const pipWidth = 2;
+    const rowWidth = b.maxAmmo * (pipWidth + 1);
+    for (let i = 0; i < b.maxAmmo; i++) {
+        ctx.fillStyle = i < b.ammo ? '#e2e8f0' : '#334155';
+        ctx.fillRect(b.x - rowWidth / 2 + i * (pipWidth + 1), b.y + 6, pipWidth, 6);
+    }
+  });
+
+  // Draw Energy Shields, one dome per working generator
+  state.structures.forEach(generator => {
+     if (generator.type !== StructureType.SHIELD_GENERATOR || !isShieldUp(generator)) return;
+     const { x: shieldX, y: shieldY } = getStructureAnchor(state, generator);
+     
+     const energyPct = generator.energy / getShieldMaxEnergy(generator.level);
+     const radius = getShieldRadius(generator);
+     
+     ctx.beginPath();
+     ctx.arc(shieldX, shieldY, radius, Math.PI, 0); 
+     
+     const shieldGrad = ctx.createRadialGradient(shieldX, shieldY, radius * 0.8, shieldX, shieldY, radius);
+     
+     let r, g, b;
+     
+     if (energyPct > 0.5) {
+         r = 59; g = 130 + Math.floor(100 * (1 - energyPct)); b = 246;
+     } else {
+         r = 59 + Math.floor(180 * (1 - (energyPct * 2))); 
+         g = 130 - Math.floor(100 * (1 - (energyPct * 2)));
+         b = 246 - Math.floor(200 * (1 - (energyPct * 2)));
+     }
+     
+     if (energyPct < 0.25) { r = 239; g = 68; b = 68; } 
+     else if (energyPct > 0.7) { r = 59; g = 130; b = 246; }
+
+     const timeSinceHit = state.clock - generator.hitTime;
+     if (timeSinceHit < 100) { r = 255; g = 255; b = 255; }
+     
+     let alphaMod = 1;
+     if (energyPct < 0.3) alphaMod = 0.5 + (Math.sin(Date.now() / 100) * 0.4); 
+     
+     shieldGrad.addColorStop(0, `rgba(${r}, ${g}, ${b}, 0)`);
+     shieldGrad.addColorStop(0.8, `rgba(${r}, ${g}, ${b}, ${0.1 * energyPct * alphaMod})`);
+     shieldGrad.addColorStop(1, `rgba(${r}, ${g}, ${b}, ${0.4 * energyPct * alphaMod})`);
+     
+     ctx.fillStyle = shieldGrad;
+     ctx.fill();
+     
+     ctx.lineWidth = energyPct < 0.3 ? (3 + Math.sin(Date.now() / 50)) : 2;
+     ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${0.6 * energyPct * alphaMod})`;
+     ctx.stroke();
+  });
+
+  // Draw Shield Abilities
+  if (isShieldAbilityActive(state, ShieldAbility.DOME)) {
+    // City-wide dome, flickering as it runs out
+    const { domeHeight = 0, color } = getShieldAbilityDefinition(ShieldAbility.DOME);
+    const left = state.shieldAbilities[ShieldAbility.DOME].activeUntil - state.levelTime;
+    const alpha = left < 1 ? 0.5 + Math.sin(state.clock / 40) * 0.3 : 0.8;
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.beginPath();
+    ctx.ellipse(state.width / 2, state.height - 20, state.width / 2 + DOME_OVERHANG, domeHeight - 20, 0, Math.PI, 0);
+    ctx.fillStyle = 'rgba(147, 197, 253, 0.08)';
+    ctx.fill();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  if (state.shieldEmitter) {
+    // Projected bubble, tethered to the generators feeding it
+    const { radius = 0, color } = getShieldAbilityDefinition(ShieldAbility.EMITTER);
+    const { x, y } = state.shieldEmitter;
+    ctx.save();
+    ctx.setLineDash([4, 6]);
+    ctx.strokeStyle = 'rgba(165, 180, 252, 0.3)';
+    ctx.lineWidth = 1;
+    getActiveStructures(state, StructureType.SHIELD_GENERATOR).filter(isShieldUp).forEach(g => {
+      const anchor = getStructureAnchor(state, g);
+      ctx.beginPath();
+      ctx.moveTo(anchor.x, anchor.y);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+    const bubble = ctx.createRadialGradient(x, y, radius * 0.6, x, y, radius);
+    bubble.addColorStop(0, 'rgba(165, 180, 252, 0)');
+    bubble.addColorStop(1, 'rgba(165, 180, 252, 0.3)');
+    ctx.fillStyle = bubble;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  if (isShieldAbilityActive(state, ShieldAbility.PULSE)) {
+    // Ring racing out from each generator
+    const { duration, radiusMultiplier = 1, color } = getShieldAbilityDefinition(ShieldAbility.PULSE);
+    const progress = 1 - (state.shieldAbilities[ShieldAbility.PULSE].activeUntil - state.levelTime) / duration;
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.globalAlpha = 1 - progress;
+    ctx.lineWidth = 4;
+    getActiveStructures(state, StructureType.SHIELD_GENERATOR).forEach(g => {
+      const { x, y } = getStructureAnchor(state, g);
+      ctx.beginPath();
+      ctx.arc(x, y, getShieldRadius(g) * radiusMultiplier * progress, Math.PI, 0);
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+
+  // Draw Turret Projectiles
+  ctx.fillStyle = '#d8b4fe';
+  state.projectiles.forEach(p => {
+     const pos = positionOf(p);
+     const trail = [...p.trail.slice(0, -1), pos];
+     ctx.beginPath();
+     ctx.arc(pos.x, pos.y, 3, 0, Math.PI * 2);
+     ctx.fill();
+     if (trail.length > 1) {
+         ctx.beginPath();
+         ctx.moveTo(trail[0].x, trail[0].y);
+         for(let k=1; k<trail.length; k++) ctx.lineTo(trail[k].x, trail[k].y);
+         ctx.strokeStyle = `rgba(167, 139, 250, 0.5)`;
+         ctx.lineWidth = 1;
+         ctx.stroke();
+     }
+  });
+
+  // Draw Mothership
+  if (state.boss) {
+    const boss = state.boss;
+    const pos = interpolation ? lerpPoint(interpolation.previous.boss ?? undefined, boss, interpolation.alpha) : { x: boss.x, y: boss.y };
+    const halfWidth = MOTHERSHIP.width / 2;
+    const halfHeight = MOTHERSHIP.height / 2;
+    const flash = state.clock - boss.hitTime < 120;
+
+    // Hull
+    ctx.fillStyle = flash ? '#f8fafc' : '#334155';
+    ctx.beginPath();
+    ctx.ellipse(pos.x, pos.y, halfWidth, halfHeight, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = flash ? '#e2e8f0' : '#475569';
+    ctx.beginPath();
+    ctx.ellipse(pos.x, pos.y - halfHeight * 0.4, halfWidth * 0.45, halfHeight * 0.7, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Running lights
+    ctx.fillStyle = '#fbbf24';
+    for (let k = -3; k <= 3; k++) {
+      if ((Math.floor(Date.now() / 150) + k) % 3 !== 0) continue;
+      ctx.beginPath();
+      ctx.arc(pos.x + k * halfWidth / 4, pos.y + 4, 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Weak points glow only while exposed
+    const exposed = getExposedWeakPoints(boss);
+    MOTHERSHIP.weakPoints.forEach(wp => {
+      const isExposed = exposed.includes(wp);
+      ctx.beginPath();
+      ctx.arc(pos.x + wp.offsetX, pos.y + wp.offsetY, wp.radius * (isExposed ? 0.7 : 0.5), 0, Math.PI * 2);
+      if (isExposed) {
+        ctx.shadowBlur = 15;
+        ctx.shadowColor = '#f43f5e';
+        ctx.fillStyle = Math.floor(Date.now() / 250) % 2 === 0 ? '#f43f5e' : '#fb7185';
+      } else {
+        ctx.fillStyle = '#1e293b';
+      }
+      ctx.fill();
+      ctx.shadowBlur = 0;
+    });
+
+    // Segmented health bar, one segment per phase
+    const barWidth = Math.min(400, state.width - 40);
+    const barX = (state.width - barWidth) / 2;
+    const barY = 90;
+    const phases = MOTHERSHIP.phases;
+    ctx.fillStyle = 'rgba(0,0,0,0.6)';
+    ctx.fillRect(barX - 2, barY - 2, barWidth + 4, 14);
+    phases.forEach((phase, i) => {
+      const segmentStart = i + 1 < phases.length ? phases[i + 1].fromHealth : 0;
+      const segmentEnd = phase.fromHealth;
+      const x1 = barX + barWidth * segmentStart + 1;
+      const segmentWidth = barWidth * (segmentEnd - segmentStart) - 2;
+      const fill = Math.max(0, Math.min(1, (boss.health / boss.maxHealth - segmentStart) / (segmentEnd - segmentStart)));
+      ctx.fillStyle = '#1e293b';
+      ctx.fillRect(x1, barY, segmentWidth, 10);
+      ctx.fillStyle = i === boss.phase ? '#f43f5e' : '#be123c';
+      ctx.fillRect(x1, barY, segmentWidth * fill, 10);
+    });
+  }
+
+  // Draw Incoming Missiles
+  state.enemies.forEach(e => {
+    const pos = positionOf(e);
+    const trail = [...e.trail, pos];
+    const renderer = ENEMY_RENDERERS[getEnemyDefinition(e.type).renderer];
+
+    // Draw Trail
+    if (trail.length > 1) {
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+
+      if (renderer.drawTrail) {
+          renderer.drawTrail(ctx, trail);
+      } else {
+          ctx.lineWidth = renderer.trailWidth;
+
+          for (let k = 0; k < trail.length - 1; k++) {
+              const p1 = trail[k];
+              const p2 = trail[k+1];
+              const opacity = k / trail.length;
+
+              ctx.beginPath();
+              ctx.moveTo(p1.x, p1.y);
+              ctx.lineTo(p2.x, p2.y);
+              ctx.strokeStyle = renderer.trailColor(opacity);
+              ctx.stroke();
+
+              renderer.drawSegmentOverlay?.(ctx, p1, p2, opacity);
+          }
+      }
+    }
+
+    let angle = Math.atan2(e.targetY - e.startY, e.targetX - e.startX);
+    if (renderer.faceMotion && trail.length > 1) {
+         const p1 = trail[trail.length - 1];
+         const p2 = trail[trail.length - 2];
+         angle = Math.atan2(p1.y - p2.y, p1.x - p2.x);
+    }
+
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.rotate(angle);
+
+    ctx.fillStyle = e.color;
+    renderer.drawBody(ctx, e);
+
+    ctx.restore();
+    ctx.shadowBlur = 0;
+
+    // Crackling ring while an EMP slows it down
+    if (e.slowUntil !== undefined && state.levelTime < e.slowUntil) {
+       ctx.beginPath();
+       ctx.setLineDash([3, 3]);
+       ctx.lineDashOffset = state.clock / 50;
+       ctx.arc(pos.x, pos.y, 14, 0, Math.PI * 2);
+       ctx.strokeStyle = getAmmoDefinition(AmmoType.EMP).color;
+       ctx.lineWidth = 1.5;
+       ctx.stroke();
+       ctx.setLineDash([]);
+       ctx.lineDashOffset = 0;
+    }
+
+    if (e.maxHealth > 1) {
+       const barWidth = 24;
+       const barHeight = 4;
+       const barX = pos.x - barWidth/2;
+       const barY = pos.y - 20;
+
+       ctx.fillStyle = 'rgba(0,0,0,0.5)';
+       ctx.fillRect(barX, barY, barWidth, barHeight);
+
+       const pct = Math.max(0, e.health / e.maxHealth);
+       
+       if (pct > 0.5) ctx.fillStyle = '#22c55e';
+       else if (pct > 0.25) ctx.fillStyle = '#eab308';
+       else ctx.fillStyle = '#ef4444';
+
+       ctx.fillRect(barX, barY, barWidth * pct, barHeight);
+    }
+  });
+
+  // Draw Laser Beams
+  state.beams.forEach(beam => {
+    ctx.beginPath();
+    ctx.moveTo(beam.startX, beam.startY);
+    ctx.lineTo(beam.endX, beam.endY);
+
+    ctx.shadowBlur = 20;
+    ctx.shadowColor = '#84cc16';
+    ctx.lineWidth = 8;
+    ctx.strokeStyle = `rgba(163, 230, 53, ${beam.alpha * 0.6})`;
+    ctx.stroke();
+
+    ctx.shadowBlur = 0;
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = `rgba(247, 254, 231, ${beam.alpha})`;
+    ctx.stroke();
+  });
+
+  // Draw Interceptors
+  state.interceptors.forEach(i => {
+    const pos = positionOf(i);
+    const trail = [...i.trail, pos];
+    const isUpgradedSpeed = state.upgrades.speedLevel > 0;
+    const trailWidth = 2 + (state.upgrades.speedLevel * 0.5);
+    
+    if (trail.length > 1) {
+      ctx.lineWidth = trailWidth;
+      ctx.lineCap = 'round';
+      
+      for (let k = 0; k < trail.length - 1; k++) {
+          const p1 = trail[k];
+          const p2 = trail[k+1];
+          const opacity = (k / trail.length) * 0.8; 
+          
+          ctx.beginPath();
+          ctx.moveTo(p1.x, p1.y);
+          ctx.lineTo(p2.x, p2.y);
+          
+          const r = isUpgradedSpeed ? 59 : 96;
+          const g = isUpgradedSpeed ? 130 : 165;
+          const b = isUpgradedSpeed ? 246 : 250;
+          
+          ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${opacity})`;
+          ctx.stroke();
+      }
+      
+      if (state.upgrades.speedLevel > 1) {
+          ctx.strokeStyle = `rgba(255, 255, 255, 0.4)`;
+          ctx.lineWidth = 1;
+          ctx.stroke();
+      }
+    }
+
+    // Special rounds glow in their ammo's colour
+    const isSpecial = i.ammo !== AmmoType.STANDARD;
+    ctx.fillStyle = isSpecial ? getAmmoDefinition(i.ammo).color : '#bfdbfe';
+    ctx.beginPath();
+    const headSize = 2 + (state.upgrades.radiusLevel * 0.3) + (isSpecial ? 1 : 0);
+    ctx.arc(pos.x, pos.y, headSize, 0, Math.PI * 2);
+    ctx.fill();
+    
+    ctx.shadowBlur = 10;
+    ctx.shadowColor = getAmmoDefinition(i.ammo).color;
+    ctx.fill();
+    ctx.shadowBlur = 0;
+
+    // Lock-on bracket of a guided interceptor
+    if (i.lockedEnemyId !== undefined) {
+      ctx.strokeStyle = '#f472b6';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(i.targetX - 8, i.targetY - 8, 16, 16);
+    }
+  });
+
+  // Draw Explosions
+  state.explosions.forEach(exp => {
+    // Special rounds: a tinted blast, or a hollow pulse for the EMP
+    if (exp.ammo) {
+      const { color, emp } = getAmmoDefinition(exp.ammo);
+      ctx.beginPath();
+      ctx.arc(exp.x, exp.y, exp.currentRadius, 0, Math.PI * 2);
+      ctx.globalAlpha = exp.alpha * (emp ? 0.2 : 0.8);
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.globalAlpha = exp.alpha;
+      ctx.strokeStyle = emp ? color : '#ffffff';
+      ctx.lineWidth = emp ? 3 : 2;
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+      return;
+    }
+
+    ctx.beginPath();
+    ctx.arc(exp.x, exp.y, exp.currentRadius, 0, Math.PI * 2);
+    const red = 251;
+    const green = Math.max(100, 146 - (state.upgrades.radiusLevel * 20));
+    ctx.fillStyle = `rgba(${red}, ${green}, 60, ${exp.alpha})`;
+    ctx.fill();
+    
+    ctx.strokeStyle = `rgba(255, 255, 255, ${exp.alpha})`;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    if (state.upgrades.radiusLevel > 0) {
+        ctx.beginPath();
+        ctx.arc(exp.x, exp.y, exp.currentRadius * 0.6, 0, Math.PI * 2);
+        ctx.strokeStyle = `rgba(255, 255, 255, ${exp.alpha * 0.7})`;
+        ctx.lineWidth = 1 + state.upgrades.radiusLevel;
+        ctx.stroke();
+    }
+    
+    if (state.upgrades.radiusLevel > 2) {
+        ctx.beginPath();
+        ctx.arc(exp.x, exp.y, exp.currentRadius * 0.85, 0, Math.PI * 2);
+        ctx.strokeStyle = `rgba(255, 200, 100, ${exp.alpha * 0.5})`;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+    }
+  });
+
+};
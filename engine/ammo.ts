@@ -0,0 +1,120 @@
+import { AmmoStock, AmmoType, SpecialAmmoType } from '../types';
+
+// Special interceptor rounds. They are bought in packs in the armory, picked
+// with a hotkey during play and fired from the same batteries as standard
+// rounds; a type that runs dry falls back to standard. What each blast does
+// when it meets an enemy is decided in the collision loop in gameEngine.ts.
+
+// Small blasts released around the main one
+export interface ClusterDefinition {
+  bomblets: number;
+  spread: number; // px from the centre of the main blast
+  radiusMultiplier: number; // of the interceptor's blast radius
+}
+
+// Slows instead of damaging
+export interface EmpDefinition {
+  slowFactor: number; // share of their speed enemies keep
+  duration: number; // seconds
+}
+
+export interface AmmoDefinition {
+  type: AmmoType;
+  hotkey: string; // KeyboardEvent.code
+  packSize: number; // rounds per armory purchase, 0 = not sold
+  packCost: number;
+  maxStock: number;
+  color: string;
+  speedMultiplier: number; // of the interceptor speed
+  radiusMultiplier: number; // of the blast radius
+  damage: number; // health taken from each enemy in the blast, a standard missile has 1
+  seeking?: boolean; // locks onto the enemy nearest its aim point, however far away
+  cluster?: ClusterDefinition;
+  emp?: EmpDefinition;
+}
+
+export const AMMO_DEFINITIONS: Record<AmmoType, AmmoDefinition> = {
+  [AmmoType.STANDARD]: {
+    type: AmmoType.STANDARD,
+    hotkey: 'KeyQ',
+    packSize: 0,
+    packCost: 0,
+    maxStock: 0,
+    color: '#60a5fa', // Blue 400
+    speedMultiplier: 1,
+    radiusMultiplier: 1,
+    damage: 1
+  },
+  [AmmoType.HEAT_SEEKING]: {
+    type: AmmoType.HEAT_SEEKING,
+    hotkey: 'KeyE',
+    packSize: 5,
+    packCost: 400,
+    maxStock: 20,
+    color: '#f472b6', // Pink 400
+    speedMultiplier: 0.8,
+    radiusMultiplier: 0.8,
+    damage: 1,
+    seeking: true
+  },
+  [AmmoType.CLUSTER]: {
+    type: AmmoType.CLUSTER,
+    hotkey: 'KeyR',
+    packSize: 4,
+    packCost: 500,
+    maxStock: 16,
+    color: '#fb923c', // Orange 400
+    speedMultiplier: 1,
+    radiusMultiplier: 0.7,
+    damage: 1,
+    cluster: { bomblets: 6, spread: 50, radiusMultiplier: 0.45 }
+  },
+  [AmmoType.FLAK]: {
+    type: AmmoType.FLAK,
+    hotkey: 'KeyF',
+    packSize: 6,
+    packCost: 300,
+    maxStock: 24,
+    color: '#a3a3a3', // Neutral 400
+    speedMultiplier: 1.2,
+    radiusMultiplier: 1.8,
+    damage: 0.5
+  },
+  [AmmoType.EMP]: {
+    type: AmmoType.EMP,
+    hotkey: 'KeyG',
+    packSize: 3,
+    packCost: 600,
+    maxStock: 9,
+    color: '#22d3ee', // Cyan 400
+    speedMultiplier: 1,
+    radiusMultiplier: 2.2,
+    damage: 0,
+    emp: { slowFactor: 0.35, duration: 4 }
+  }
+};
+
+export const getAmmoDefinition = (type: AmmoType) => AMMO_DEFINITIONS[type];
+
+// Hotkey and HUD order
+export const AMMO_TYPES = Object.keys(AMMO_DEFINITIONS) as AmmoType[];
+
+export const SPECIAL_AMMO_TYPES = AMMO_TYPES.filter((type): type is SpecialAmmoType => type !== AmmoType.STANDARD);
+
+export const createAmmoStock = (): AmmoStock => ({
+  [AmmoType.HEAT_SEEKING]: 0,
+  [AmmoType.CLUSTER]: 0,
+  [AmmoType.FLAK]: 0,
+  [AmmoType.EMP]: 0
+});
+
+/** Whether a round of `type` is in stock; standard rounds are counted by the batteries instead. */
+export const hasAmmo = (stock: AmmoStock, type: AmmoType) => type === AmmoType.STANDARD || stock[type] > 0;
+
+/** Whether another pack fits in the stock. */
+export const canBuyAmmo = (stock: AmmoStock, type: SpecialAmmoType) => stock[type] < AMMO_DEFINITIONS[type].maxStock;
+
+export const addAmmoPack = (stock: AmmoStock, type: SpecialAmmoType): AmmoStock => ({
+  ...stock,
+  [type]: Math.min(AMMO_DEFINITIONS[type].maxStock, stock[type] + AMMO_DEFINITIONS[type].packSize)
+});
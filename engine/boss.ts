@@ -0,0 +1,93 @@
+import { Boss, Difficulty, EnemyType } from '../types';
+
+// The mothership that replaces the timer on every BOSS_LEVEL_INTERVAL-th level.
+// It hovers over the city, launches volleys that change with each phase, and
+// only takes damage from explosions that reach one of its exposed weak points.
+
+export const BOSS_LEVEL_INTERVAL = 5;
+
+export interface BossWeakPoint {
+  id: string;
+  offsetX: number; // from the hull centre
+  offsetY: number;
+  radius: number;
+  phases: number[]; // phases in which the zone is exposed
+}
+
+export interface BossPhase {
+  fromHealth: number; // starts once health drops to this fraction of the maximum
+  speed: number; // px per second, side to side
+  missileType: EnemyType;
+  volley: number; // missiles per attack
+  interval: [number, number]; // seconds between attacks
+}
+
+export interface BossDefinition {
+  width: number;
+  height: number;
+  altitude: number; // cruising height as a fraction of the screen height
+  health: number; // at MEDIUM, first encounter
+  phases: BossPhase[];
+  weakPoints: BossWeakPoint[];
+  score: number;
+  reward: number; // credits, first encounter
+}
+
+export const MOTHERSHIP: BossDefinition = {
+  width: 240,
+  height: 60,
+  altitude: 0.15,
+  health: 12,
+  phases: [
+    { fromHealth: 1, speed: 40, missileType: EnemyType.STANDARD, volley: 2, interval: [2.5, 3.5] },
+    { fromHealth: 2 / 3, speed: 60, missileType: EnemyType.FAST, volley: 3, interval: [2, 3] },
+    { fromHealth: 1 / 3, speed: 90, missileType: EnemyType.BOMB, volley: 3, interval: [1.5, 2.5] }
+  ],
+  weakPoints: [
+    { id: 'leftEngine', offsetX: -80, offsetY: 12, radius: 16, phases: [0, 1] },
+    { id: 'rightEngine', offsetX: 80, offsetY: 12, radius: 16, phases: [0, 1] },
+    { id: 'core', offsetX: 0, offsetY: 22, radius: 20, phases: [1, 2] }
+  ],
+  score: 500,
+  reward: 600
+};
+
+const HEALTH_BY_DIFFICULTY: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 0.75,
+  [Difficulty.MEDIUM]: 1,
+  [Difficulty.HARD]: 1.5
+};
+
+export const isBossLevel = (level: number) => level % BOSS_LEVEL_INTERVAL === 0;
+
+/** Builds the boss for a boss level, tougher and richer with every encounter. */
+export const createBoss = (level: number, difficulty: Difficulty, width: number, height: number): Boss => {
+  const encounter = Math.max(1, Math.floor(level / BOSS_LEVEL_INTERVAL)); // authored levels may bring it in early
+  const maxHealth = Math.round(MOTHERSHIP.health * HEALTH_BY_DIFFICULTY[difficulty] * (1 + 0.5 * (encounter - 1)));
+  return {
+    x: width / 2,
+    y: -MOTHERSHIP.height,
+    cruiseY: height * MOTHERSHIP.altitude,
+    health: maxHealth,
+    maxHealth,
+    phase: 0,
+    direction: 1,
+    nextAttackTime: 0,
+    hitByExplosionIds: [],
+    hitTime: -Infinity,
+    reward: MOTHERSHIP.reward * encounter
+  };
+};
+
+/** Index of the phase the boss should be in at its current health. */
+export const getBossPhaseIndex = (boss: Boss) => {
+  const healthPct = boss.health / boss.maxHealth;
+  let phase = 0;
+  MOTHERSHIP.phases.forEach((p, i) => {
+    if (healthPct <= p.fromHealth) phase = i;
+  });
+  return phase;
+};
+
+export const getExposedWeakPoints = (boss: Boss) =>
+  MOTHERSHIP.weakPoints.filter(wp => wp.phases.includes(boss.phase));
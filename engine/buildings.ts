@@ -0,0 +1,185 @@
+import { Building, BuildingType, CityLayout } from '../types';
+import { DEFAULT_CITY } from './levels';
+
+// The structures that make up the city. Each type has its own size, worth and
+// health; the special ones also keep a system of the defense running for as
+// long as they stand. Buildings take several hits before they fall (see
+// buildingDamage in engine/enemies.ts), whatever is left carries over to the
+// next level, and the armory sells repairs between levels.
+
+export type BuildingEffect =
+  | 'repairs'        // the armory can repair and rebuild the city
+  | 'shieldRecharge' // the shield recharges at full rate
+  | 'ammoResupply';  // launchers get a round back every few seconds
+
+export interface BuildingDefinition {
+  type: BuildingType;
+  width: number; // at DEFAULT_CITY's scale; a layout resizes every type by the same factor
+  height: number;
+  health: number;
+  score: number; // awarded for each level it survives
+  credits: number; // paid out in the armory for each level it survives
+  color: string;
+  effect?: BuildingEffect;
+}
+
+export const BUILDING_DEFINITIONS: Record<BuildingType, BuildingDefinition> = {
+  [BuildingType.RESIDENTIAL]: {
+    type: BuildingType.RESIDENTIAL,
+    width: 60,
+    height: 40,
+    health: 100,
+    score: 100,
+    credits: 50,
+    color: '#3b82f6' // Blue
+  },
+  [BuildingType.HOSPITAL]: {
+    type: BuildingType.HOSPITAL,
+    width: 70,
+    height: 35,
+    health: 100,
+    score: 150,
+    credits: 60,
+    color: '#e2e8f0', // Slate 200
+    effect: 'repairs'
+  },
+  [BuildingType.POWER_PLANT]: {
+    type: BuildingType.POWER_PLANT,
+    width: 50,
+    height: 55,
+    health: 120,
+    score: 150,
+    credits: 80,
+    color: '#a16207', // Amber 700
+    effect: 'shieldRecharge'
+  },
+  [BuildingType.COMMAND_CENTER]: {
+    type: BuildingType.COMMAND_CENTER,
+    width: 80,
+    height: 30,
+    health: 150, // Hardened
+    score: 200,
+    credits: 100,
+    color: '#334155', // Slate 700
+    effect: 'ammoResupply'
+  }
+};
+
+export const getBuildingDefinition = (type: BuildingType) => BUILDING_DEFINITIONS[type];
+
+// Left to right; cities with more buildings than this are filled with housing
+const CITY_PLAN: BuildingType[] = [
+  BuildingType.RESIDENTIAL,
+  BuildingType.HOSPITAL,
+  BuildingType.RESIDENTIAL,
+  BuildingType.COMMAND_CENTER,
+  BuildingType.POWER_PLANT,
+  BuildingType.RESIDENTIAL
+];
+
+export const CITY_GROWTH_INTERVAL = 2; // a new building every this many levels survived
+const MAX_CITY_SIZE = 12;
+const MIN_GAP = 10; // px between buildings before the city is considered full
+
+const REPAIR_COST_PER_HEALTH = 2;
+const REBUILD_COST_PER_CREDIT = 8; // rebuilding costs this many levels of the building's payout
+
+// Each stage keeps the effects of the ones before it
+export type DamageStage = 'intact' | 'cracked' | 'burning' | 'smoking' | 'destroyed';
+
+const createBuilding = (id: number, type: BuildingType, layout: CityLayout, groundY: number): Building => {
+  const def = BUILDING_DEFINITIONS[type];
+  const height = Math.round(def.height * layout.height / DEFAULT_CITY.height);
+  return {
+    id,
+    type,
+    x: 0,
+    y: groundY - height,
+    width: Math.round(def.width * layout.width / DEFAULT_CITY.width),
+    height,
+    health: def.health,
+    maxHealth: def.health,
+    isDestroyed: false
+  };
+};
+
+// Spreads the buildings evenly across the screen, keeping their order
+const layoutCity = (buildings: Building[], width: number) => {
+  const gap = (width - buildings.reduce((sum, b) => sum + b.width, 0)) / (buildings.length + 1);
+  let x = gap;
+  for (const b of buildings) {
+    b.x = x;
+    x += b.width + gap;
+  }
+  return buildings;
+};
+
+export const createCity = (width: number, height: number, layout: CityLayout): Building[] =>
+  layoutCity(
+    Array.from({ length: layout.count }, (_, i) =>
+      createBuilding(i, CITY_PLAN[i] ?? BuildingType.RESIDENTIAL, layout, height - 10)),
+    width
+  );
+
+/** The city after surviving `level`: every CITY_GROWTH_INTERVAL levels a new home goes up if there is room. */
+export const growCity = (buildings: Building[], level: number, width: number): Building[] => {
+  if (level % CITY_GROWTH_INTERVAL !== 0 || buildings.length === 0 || buildings.length >= MAX_CITY_SIZE) return buildings;
+
+  // New homes match the size of the city's existing housing
+  const home = buildings.find(b => b.type === BuildingType.RESIDENTIAL);
+  const def = BUILDING_DEFINITIONS[BuildingType.RESIDENTIAL];
+  const groundY = buildings[0].y + buildings[0].height;
+  const height = home?.height ?? def.height;
+  const added: Building = {
+    id: Math.max(...buildings.map(b => b.id)) + 1,
+    type: BuildingType.RESIDENTIAL,
+    x: 0,
+    y: groundY - height,
+    width: home?.width ?? def.width,
+    height,
+    health: def.health,
+    maxHealth: def.health,
+    isDestroyed: false
+  };
+
+  const grown = [...buildings.map(b => ({ ...b })), added];
+  const usedWidth = grown.reduce((sum, b) => sum + b.width, 0);
+  if (usedWidth + (grown.length + 1) * MIN_GAP > width) return buildings;
+  return layoutCity(grown, width);
+};
+
+export const hasCityEffect = (buildings: Building[], effect: BuildingEffect) =>
+  buildings.some(b => !b.isDestroyed && BUILDING_DEFINITIONS[b.type].effect === effect);
+
+/** Score bonus for the buildings still standing at the end of a level. */
+export const getCityScore = (buildings: Building[]) =>
+  buildings.reduce((sum, b) => sum + (b.isDestroyed ? 0 : BUILDING_DEFINITIONS[b.type].score), 0);
+
+/** Credits the standing buildings pay out in the armory. */
+export const getCityCredits = (buildings: Building[]) =>
+  buildings.reduce((sum, b) => sum + (b.isDestroyed ? 0 : BUILDING_DEFINITIONS[b.type].credits), 0);
+
+export const getDamageStage = (building: Building): DamageStage => {
+  if (building.isDestroyed) return 'destroyed';
+  const healthPct = building.health / building.maxHealth;
+  if (healthPct <= 0.3) return 'smoking';
+  if (healthPct <= 0.6) return 'burning';
+  if (healthPct < 1) return 'cracked';
+  return 'intact';
+};
+
+/** Credits to bring a building back to full health, or to rebuild it if it fell. Both grow with the level. */
+export const getRepairCost = (building: Building, level: number) => {
+  if (building.isDestroyed) return BUILDING_DEFINITIONS[building.type].credits * REBUILD_COST_PER_CREDIT + level * 100;
+  return Math.ceil((building.maxHealth - building.health) * REPAIR_COST_PER_HEALTH * (1 + level * 0.1));
+};
+
+/** Repairs need a standing hospital, except for rebuilding the hospital itself. */
+export const canRepair = (buildings: Building[], building: Building) =>
+  hasCityEffect(buildings, 'repairs') || BUILDING_DEFINITIONS[building.type].effect === 'repairs';
+
+export const repairBuilding = (building: Building): Building => ({
+  ...building,
+  health: building.maxHealth,
+  isDestroyed: false
+});
@@ -0,0 +1,248 @@
+import { Difficulty, EnemyType, SoundEffect } from '../types';
+
+// Everything that makes one enemy type different from another. The spawner,
+// scoring, collisions and the renderer all read from this table, so a new
+// enemy is a new entry here (plus a renderer in components/enemyRenderers.ts
+// if it needs a new look).
+
+export type MovementPattern =
+  | 'straight'  // diagonal line from a random point in the sky
+  | 'vertical'  // dropped straight above its target
+  | 'wave'      // straight line with a sideways sine wave
+  | 'cross';    // flies level across the upper sky and leaves on the other side
+
+export type EnemyRendererId = 'missile' | 'fast' | 'heavy' | 'wobbly' | 'bomb' | 'bullet' | 'laser' | 'mirv' | 'bomber' | 'drone';
+
+// Mid-flight split into several warheads
+export interface SplitDefinition {
+  altitude: [number, number]; // split between these fractions of the screen height
+  warheads: [number, number]; // inclusive range
+  warheadType: EnemyType;
+  warheadSpeedMultiplier: number; // relative to the carrier's speed
+  interceptBonus: number; // extra score for a kill before the split
+}
+
+// Stops at an altitude, charges, then fires an instant beam along its flight line
+export interface BeamDefinition {
+  altitude: [number, number]; // hovers between these fractions of the screen height
+  chargeTime: Record<Difficulty, number>; // seconds of warning before the shot
+  width: number;
+}
+
+// Several rounds fired together along the same line
+export interface BurstDefinition {
+  count: number;
+  spacing: number; // px between rounds
+}
+
+// Aircraft that release missiles from wherever they are
+export interface LaunchDefinition {
+  interval: [number, number]; // seconds between launches
+  missileType: EnemyType;
+}
+
+export interface EnemyDefinition {
+  type: EnemyType;
+  speedMultiplier: number;
+  health: number;
+  score: number;
+  impactRadius: number;
+  buildingDamage: number; // health taken from a building it hits, a home has 100
+  // First level the type appears in, per difficulty
+  unlockLevel: Record<Difficulty, number>;
+  movement: MovementPattern;
+  trailLength: number;
+  color: string;
+  renderer: EnemyRendererId;
+  deathSound: SoundEffect;
+  spawnSound?: SoundEffect;
+  split?: SplitDefinition;
+  beam?: BeamDefinition;
+  burst?: BurstDefinition;
+  launch?: LaunchDefinition;
+  bounty?: number; // bonus credits for shooting it down
+}
+
+const ALWAYS = { [Difficulty.EASY]: 1, [Difficulty.MEDIUM]: 1, [Difficulty.HARD]: 1 };
+
+// Insertion order matters: the spawner picks unlocked types by index from a seeded roll
+export const ENEMY_DEFINITIONS: Record<EnemyType, EnemyDefinition> = {
+  [EnemyType.STANDARD]: {
+    type: EnemyType.STANDARD,
+    speedMultiplier: 1,
+    health: 1,
+    score: 10,
+    impactRadius: 40,
+    buildingDamage: 50,
+    unlockLevel: ALWAYS,
+    movement: 'straight',
+    trailLength: 25,
+    color: '#ef4444', // Red
+    renderer: 'missile',
+    deathSound: 'explode_normal'
+  },
+  [EnemyType.FAST]: {
+    type: EnemyType.FAST,
+    speedMultiplier: 1.6,
+    health: 1,
+    score: 20,
+    impactRadius: 40,
+    buildingDamage: 35,
+    unlockLevel: { [Difficulty.EASY]: 3, [Difficulty.MEDIUM]: 2, [Difficulty.HARD]: 1 },
+    movement: 'straight',
+    trailLength: 25,
+    color: '#facc15', // Yellow
+    renderer: 'fast',
+    deathSound: 'explode_normal'
+  },
+  [EnemyType.BOMB]: {
+    type: EnemyType.BOMB,
+    speedMultiplier: 0.6, // Falls slower
+    health: 1,
+    score: 40,
+    impactRadius: 90,
+    buildingDamage: 100,
+    unlockLevel: { [Difficulty.EASY]: 4, [Difficulty.MEDIUM]: 3, [Difficulty.HARD]: 2 },
+    movement: 'vertical',
+    trailLength: 25,
+    color: '#1e293b', // Slate 800 (Blackish)
+    renderer: 'bomb',
+    deathSound: 'explode_normal'
+  },
+  [EnemyType.HEAVY]: {
+    type: EnemyType.HEAVY,
+    speedMultiplier: 0.5, // Slower but bigger boom
+    health: 3,
+    score: 40,
+    impactRadius: 90,
+    buildingDamage: 100,
+    unlockLevel: { [Difficulty.EASY]: 6, [Difficulty.MEDIUM]: 4, [Difficulty.HARD]: 3 },
+    movement: 'straight',
+    trailLength: 25,
+    color: '#c2410c', // Dark Orange
+    renderer: 'heavy',
+    deathSound: 'explode_heavy'
+  },
+  [EnemyType.BULLET]: {
+    type: EnemyType.BULLET,
+    speedMultiplier: 2.2, // Fast, and three at a time
+    health: 1,
+    score: 15, // per round
+    impactRadius: 40,
+    buildingDamage: 25,
+    unlockLevel: { [Difficulty.EASY]: 8, [Difficulty.MEDIUM]: 6, [Difficulty.HARD]: 4 },
+    movement: 'straight',
+    trailLength: 25,
+    color: '#94a3b8', // Slate 400 (Metallic)
+    renderer: 'bullet',
+    deathSound: 'explode_normal',
+    spawnSound: 'bullet_burst',
+    burst: {
+      count: 3,
+      spacing: 35
+    }
+  },
+  [EnemyType.WOBBLY]: {
+    type: EnemyType.WOBBLY,
+    speedMultiplier: 0.8,
+    health: 1,
+    score: 30,
+    impactRadius: 40,
+    buildingDamage: 50,
+    unlockLevel: { [Difficulty.EASY]: 8, [Difficulty.MEDIUM]: 6, [Difficulty.HARD]: 5 },
+    movement: 'wave',
+    trailLength: 40,
+    color: '#d946ef', // Purple
+    renderer: 'wobbly',
+    deathSound: 'explode_normal'
+  },
+  [EnemyType.LASER]: {
+    type: EnemyType.LASER,
+    speedMultiplier: 1.2, // Only has to reach its firing altitude
+    health: 1,
+    score: 50, // Sitting target, but it has to die before the shot
+    impactRadius: 40,
+    buildingDamage: 100, // Dealt by the beam
+    unlockLevel: { [Difficulty.EASY]: 9, [Difficulty.MEDIUM]: 7, [Difficulty.HARD]: 6 },
+    movement: 'straight',
+    trailLength: 20,
+    color: '#a3e635', // Lime
+    renderer: 'laser',
+    deathSound: 'explode_normal',
+    beam: {
+      altitude: [0.2, 0.4],
+      chargeTime: { [Difficulty.EASY]: 2.5, [Difficulty.MEDIUM]: 2, [Difficulty.HARD]: 1.5 },
+      width: 8
+    }
+  },
+  [EnemyType.MIRV]: {
+    type: EnemyType.MIRV,
+    speedMultiplier: 0.7,
+    health: 1,
+    score: 30,
+    impactRadius: 40,
+    buildingDamage: 60,
+    unlockLevel: { [Difficulty.EASY]: 10, [Difficulty.MEDIUM]: 8, [Difficulty.HARD]: 6 },
+    movement: 'straight',
+    trailLength: 30,
+    color: '#f472b6', // Pink
+    renderer: 'mirv',
+    deathSound: 'explode_heavy',
+    spawnSound: 'mirv_warning',
+    split: {
+      altitude: [0.3, 0.5],
+      warheads: [3, 5],
+      warheadType: EnemyType.STANDARD,
+      warheadSpeedMultiplier: 1.4,
+      interceptBonus: 70
+    }
+  },
+  [EnemyType.DRONE]: {
+    type: EnemyType.DRONE,
+    speedMultiplier: 0.4, // Loiters over the city
+    health: 1,
+    score: 40,
+    impactRadius: 40,
+    buildingDamage: 40,
+    unlockLevel: { [Difficulty.EASY]: 5, [Difficulty.MEDIUM]: 4, [Difficulty.HARD]: 3 },
+    movement: 'cross',
+    trailLength: 8,
+    color: '#38bdf8', // Sky
+    renderer: 'drone',
+    deathSound: 'explode_normal',
+    spawnSound: 'aircraft',
+    launch: {
+      interval: [2, 4],
+      missileType: EnemyType.STANDARD
+    },
+    bounty: 20
+  },
+  [EnemyType.BOMBER]: {
+    type: EnemyType.BOMBER,
+    speedMultiplier: 0.6,
+    health: 3,
+    score: 60,
+    impactRadius: 40,
+    buildingDamage: 100,
+    unlockLevel: { [Difficulty.EASY]: 7, [Difficulty.MEDIUM]: 5, [Difficulty.HARD]: 4 },
+    movement: 'cross',
+    trailLength: 12,
+    color: '#64748b', // Slate 500
+    renderer: 'bomber',
+    deathSound: 'explode_heavy',
+    spawnSound: 'aircraft',
+    launch: {
+      interval: [1.5, 3],
+      missileType: EnemyType.BOMB
+    },
+    bounty: 40
+  }
+};
+
+export const getEnemyDefinition = (type: EnemyType) => ENEMY_DEFINITIONS[type];
+
+/** Types that can spawn on this level, STANDARD first. */
+export const getUnlockedEnemyTypes = (level: number, difficulty: Difficulty) =>
+  Object.values(ENEMY_DEFINITIONS)
+    .filter(def => level >= def.unlockLevel[difficulty])
+    .map(def => def.type);
@@ -0,0 +1,36 @@
+// Fixed-timestep driver. The simulation always advances in FIXED_STEP
+// increments regardless of display refresh rate; the renderer interpolates
+// between the last two steps using the returned alpha.
+
+export const FIXED_STEP = 1 / 60; // seconds
+export const MAX_STEPS_PER_FRAME = 5; // catch-up clamp after a stall (tab switch, GC pause)
+
+export interface FixedStepClock {
+  accumulator: number; // seconds of real time not yet simulated
+}
+
+export const createFixedStepClock = (): FixedStepClock => ({ accumulator: 0 });
+
+/**
+ * Runs as many fixed steps as `frameDelta` allows. `runStep` returns false to
+ * stop early (e.g. the level ended). Time beyond the catch-up clamp is dropped
+ * instead of being simulated in one giant step.
+ *
+ * Returns the interpolation factor (0..1) between the previous and current state.
+ */
+export const advanceFixedStep = (clock: FixedStepClock, frameDelta: number, runStep: () => boolean) => {
+  clock.accumulator += Math.max(0, frameDelta);
+
+  let steps = 0;
+  while (clock.accumulator >= FIXED_STEP) {
+    if (steps >= MAX_STEPS_PER_FRAME) {
+      clock.accumulator %= FIXED_STEP;
+      break;
+    }
+    clock.accumulator -= FIXED_STEP;
+    steps++;
+    if (!runStep()) break;
+  }
+
+  return Math.min(1, clock.accumulator / FIXED_STEP);
+};
@@ -0,0 +1,1304 @@
+import {
+  AmmoType, Battery, BatteryId, ShieldAbility, Building, EnemyMissile, Explosion, Interceptor, EnemyType, Difficulty, Point, UpgradeStats, Structure, StructureType,
+  EngineConfig, EngineState, EngineInput, EngineEvent, StepResult, LevelCarryOver, CombatStats, WaveDefinition
+} from '../types';
+import { deriveLevelSeed, nextRandom } from './random';
+import { getEnemyDefinition, getUnlockedEnemyTypes } from './enemies';
+import { DEFAULT_CITY, getLevelDefinition } from './levels';
+import { createCity, getCityCredits, getCityScore, growCity, hasCityEffect } from './buildings';
+import {
+  getRadarBonus, getRadarRange, getShieldMaxEnergy, getShieldOverloadTime, getShieldRadius, getShieldRechargeRate, getTurretCooldown,
+  getTurretRange, positionStructures, resetStructure
+} from './structures';
+import { createAmmoStock, getAmmoDefinition, hasAmmo } from './ammo';
+import { createShieldAbilities, getShieldAbilityDefinition } from './shieldAbilities';
+import { MOTHERSHIP, createBoss, getBossPhaseIndex, getExposedWeakPoints, isBossLevel } from './boss';
+
+// Headless simulation of a single level. No DOM, no React, no wall-clock time:
+// everything advances through step() so the same inputs give the same run.
+
+export const LEVEL_DURATION = 30; // seconds
+export const COMBO_TIMEOUT = 2500; // ms to keep combo alive
+export const DOME_OVERHANG = 40; // px the city-wide dome reaches past each screen edge
+
+const CROSSHAIR_SPEED = 600; // px per second
+const TURRET_PROJECTILE_SPEED = 800; // px per second
+const SHIELD_HIT_COST = 30;
+const SHIELD_BLACKOUT_RECHARGE = 0.25; // share of the rate that is left once it falls
+const RESUPPLY_INTERVAL = 4; // seconds between rounds handed out by the command center
+const BATTERY_MARGIN = 25; // distance of the side batteries from the screen edge
+const BATTERY_AMMO = 15;
+const BATTERY_IDS: BatteryId[] = ['left', 'center', 'right'];
+
+// Derived stats based on upgrades
+export const getDefenseStats = (upgrades: UpgradeStats) => ({
+  interceptorSpeed: 600 + (upgrades.speedLevel * 150),
+  explosionMaxRadius: 60 + (upgrades.radiusLevel * 15),
+  // Cooldown: 500ms base, decreases by 50ms per level, min 100ms
+  fireCooldown: Math.max(100, 500 - (upgrades.rateLevel * 50)),
+  // Interceptors lock onto an enemy this close to their aim point
+  guidanceRadius: upgrades.guidanceLevel > 0 ? 30 + (upgrades.guidanceLevel * 20) : 0,
+  // Interceptors go off early when they pass this close to an enemy
+  proximityRadius: upgrades.proximityLevel > 0 ? 10 + (upgrades.proximityLevel * 15) : 0
+});
+
+const createBatteries = (width: number, height: number): Battery[] =>
+  BATTERY_IDS.map(id => ({
+    id,
+    x: id === 'left' ? BATTERY_MARGIN : id === 'right' ? width - BATTERY_MARGIN : width / 2,
+    y: height - 20,
+    ammo: BATTERY_AMMO,
+    maxAmmo: BATTERY_AMMO,
+    isDestroyed: false
+  }));
+
+export const canBatteryFire = (battery: Battery) => !battery.isDestroyed && battery.ammo > 0;
+
+/** The battery a shot at `targetX` would leave from, or null if none can fire. */
+export const getFiringBattery = (state: EngineState, targetX: number): Battery | null => {
+  if (state.selectedBattery) {
+    const selected = state.batteries.find(b => b.id === state.selectedBattery);
+    return selected && canBatteryFire(selected) ? selected : null;
+  }
+
+  let nearest: Battery | null = null;
+  for (const b of state.batteries) {
+    if (!canBatteryFire(b)) continue;
+    if (!nearest || Math.abs(b.x - targetX) < Math.abs(nearest.x - targetX)) nearest = b;
+  }
+  return nearest;
+};
+
+// Ground structures that are still working
+export const getActiveStructures = (state: EngineState, type: StructureType) =>
+  state.structures.filter(s => s.type === type && !s.isDestroyed);
+
+// Where a structure's shield dome or turret barrel sits
+export const getStructureAnchor = (state: EngineState, structure: Structure) => ({
+  x: structure.x,
+  y: structure.type === StructureType.TURRET ? state.height - 35 : state.height - 20
+});
+
+/** Whether a generator's dome is up: standing, charged and not recovering from an overload. */
+export const isShieldUp = (generator: Structure) =>
+  !generator.isDestroyed && generator.energy > 0 && generator.overloadUntil === 0;
+
+// Generators whose energy can feed the shields and their abilities
+const getPoweredGenerators = (state: EngineState) =>
+  getActiveStructures(state, StructureType.SHIELD_GENERATOR).filter(isShieldUp);
+
+export const getShieldEnergy = (state: EngineState) =>
+  getPoweredGenerators(state).reduce((sum, g) => sum + g.energy, 0);
+
+export type ShieldAbilityLock = 'level' | 'cooldown' | 'energy';
+
+/** Why a shield ability can't be used right now, or null if it can. */
+export const getShieldAbilityLock = (state: EngineState, ability: ShieldAbility): ShieldAbilityLock | null => {
+  const { minLevel, energyCost } = getShieldAbilityDefinition(ability);
+  const bestLevel = getActiveStructures(state, StructureType.SHIELD_GENERATOR).reduce((best, g) => Math.max(best, g.level), 0);
+  if (bestLevel < minLevel) return 'level';
+  if (state.levelTime < state.shieldAbilities[ability].readyAt) return 'cooldown';
+  if (getShieldEnergy(state) < energyCost) return 'energy';
+  return null;
+};
+
+export const isShieldAbilityActive = (state: EngineState, ability: ShieldAbility) =>
+  state.levelTime < state.shieldAbilities[ability].activeUntil;
+
+/** How far a turret reaches, more under the coverage of a standing radar. */
+export const getTurretReach = (state: EngineState, turret: Structure) => {
+  const bonus = getActiveStructures(state, StructureType.RADAR)
+    .filter(r => Math.abs(r.x - turret.x) <= getRadarRange(r.level))
+    .reduce((best, r) => Math.max(best, getRadarBonus(r.level)), 0);
+  return getTurretRange(turret.level) + bonus;
+};
+
+// 0 to 1 for the combo bar
+export const getComboProgress = (state: EngineState) => {
+  if (state.multiplier <= 1) return 0;
+  return Math.max(0, 1 - ((state.clock - state.lastKillTime) / COMBO_TIMEOUT));
+};
+
+export const getLevelDuration = (state: EngineState) => state.script?.duration ?? LEVEL_DURATION;
+
+export const getTimeLeft = (state: EngineState) => Math.max(0, getLevelDuration(state) - state.levelTime);
+
+/** Waves of the script that have not started yet. */
+export const getWavesLeft = (state: EngineState) => state.script ? state.script.waves.length - state.nextWave : 0;
+
+export const createInput = (): EngineInput => ({
+  up: false, down: false, left: false, right: false, fire: false, aim: null, fireTargets: [], selectBattery: null, selectAmmo: null,
+  shieldAbility: null
+});
+
+export const createCombatStats = (): CombatStats => ({
+  killsByType: {},
+  bestCombo: 1,
+  shieldHits: 0,
+  turretKills: 0,
+  interceptorsFired: 0,
+  interceptorsHit: 0,
+  bonusCredits: 0,
+  bossReward: 0
+});
+
+/**
+ * Builds the state for a new level. The city layout and score carry over from
+ * `previous` except on level 1 (new game) or when there is nothing to carry.
+ */
+export const createEngineState = (config: EngineConfig, previous?: LevelCarryOver | null): EngineState => {
+  const carryOver = config.level !== 1 && previous && previous.buildings.length > 0 ? previous : null;
+  const script = config.script === undefined ? getLevelDefinition(config.level) : config.script;
+  const hasBoss = script ? !!script.boss : isBossLevel(config.level);
+  const buildings = carryOver
+    ? carryOver.buildings.map(b => ({ ...b }))
+    : createCity(config.width, config.height, script?.city ?? DEFAULT_CITY);
+
+  return {
+    width: config.width,
+    height: config.height,
+    level: config.level,
+    difficulty: config.difficulty,
+    upgrades: { ...config.upgrades },
+    seed: config.seed,
+    rngState: deriveLevelSeed(config.seed, config.level, config.difficulty),
+    status: 'RUNNING',
+
+    clock: 0,
+    nextId: 1,
+
+    buildings,
+    enemies: [],
+    interceptors: [],
+    explosions: [],
+    projectiles: [],
+    beams: [],
+    boss: hasBoss ? createBoss(config.level, config.difficulty, config.width, config.height) : null,
+
+    script: script ? { ...script, waves: [...script.waves].sort((a, b) => a.delay - b.delay) } : null,
+    nextWave: 0,
+    spawnQueue: [],
+
+    batteries: createBatteries(config.width, config.height),
+    selectedBattery: null,
+
+    structures: carryOver ? positionStructures(carryOver.structures, buildings, config.width).map(resetStructure) : [],
+    shieldAbilities: createShieldAbilities(),
+    shieldEmitter: null,
+
+    ammoStock: { ...(config.ammo ?? createAmmoStock()) },
+    selectedAmmo: AmmoType.STANDARD,
+
+    crosshair: { x: config.width / 2, y: config.height / 2 },
+    lastShotTime: -Infinity,
+
+    score: carryOver ? carryOver.score : 0,
+    multiplier: 1,
+    lastKillTime: -Infinity,
+
+    levelTime: 0,
+    nextSpawnTime: 0,
+    warningPlayed: false,
+    nextResupplyTime: RESUPPLY_INTERVAL,
+
+    buildingsLostInLevel: 0,
+    enemiesDestroyed: 0,
+    combat: createCombatStats()
+  };
+};
+
+const nextId = (state: EngineState) => state.nextId++;
+
+const getDifficultySpeedMod = (difficulty: Difficulty) => {
+  if (difficulty === Difficulty.EASY) return 0.8;
+  if (difficulty === Difficulty.HARD) return 1.25;
+  return 1;
+};
+
+// Type of the next procedural enemy; its speed, colour and the rest come from the registry in engine/enemies.ts
+export const pickEnemyType = (level: number, difficulty: Difficulty, random: () => number): EnemyType => {
+  const rand = random();
+  let type = EnemyType.STANDARD;
+
+  // Weighted Random Selection based on Level
+  const availableTypes = getUnlockedEnemyTypes(level, difficulty);
+
+  // Bias towards newer types, but keep some standards
+  if (availableTypes.length > 1) {
+    // Simple logic: higher chance for advanced types if unlocked
+    if (rand > 0.4) {
+      type = availableTypes[Math.floor(random() * (availableTypes.length - 1)) + 1];
+    } else {
+      type = EnemyType.STANDARD;
+    }
+  }
+
+  // Hard Mode specific: Chaos
+  if (difficulty === Difficulty.HARD && level >= 3 && rand > 0.9) {
+    type = EnemyType.FAST;
+  }
+
+  return type;
+};
+
+const attemptFire = (state: EngineState, targetX: number, targetY: number, events: EngineEvent[]) => {
+  const { fireCooldown, interceptorSpeed } = getDefenseStats(state.upgrades);
+  if (state.clock - state.lastShotTime < fireCooldown) return;
+  state.lastShotTime = state.clock;
+
+  const battery = getFiringBattery(state, targetX);
+  if (!battery) {
+    events.push({ type: 'sound', sound: 'dry_fire' });
+    return;
+  }
+
+  // A special type that ran dry goes back to standard rounds
+  if (!hasAmmo(state.ammoStock, state.selectedAmmo)) state.selectedAmmo = AmmoType.STANDARD;
+  const ammo = state.selectedAmmo;
+  if (ammo !== AmmoType.STANDARD) state.ammoStock[ammo] -= 1;
+
+  events.push({ type: 'sound', sound: 'shoot' });
+  battery.ammo -= 1;
+  state.combat.interceptorsFired += 1;
+
+  const { x: startX, y: startY } = battery;
+
+  state.interceptors.push({
+    id: nextId(state),
+    x: startX,
+    y: startY,
+    startX,
+    startY,
+    targetX,
+    targetY,
+    speed: interceptorSpeed * getAmmoDefinition(ammo).speedMultiplier,
+    exploded: false,
+    trail: [],
+    ammo
+  });
+};
+
+const resetCombo = (state: EngineState, events: EngineEvent[]) => {
+  state.multiplier = 1;
+  events.push({ type: 'comboReset' });
+};
+
+// Returns true if the hit brought the building down
+const damageBuilding = (state: EngineState, building: Building, damage: number, events: EngineEvent[]) => {
+  building.health = Math.max(0, building.health - damage);
+  resetCombo(state, events);
+
+  if (building.health > 0) {
+    events.push({ type: 'buildingDamaged', building });
+    return false;
+  }
+
+  building.isDestroyed = true;
+  state.buildingsLostInLevel += 1;
+  events.push({ type: 'buildingDestroyed', building });
+  return true;
+};
+
+// Ground defenses go down like buildings, but don't break the combo or end the game
+const damageStructure = (state: EngineState, structure: Structure, damage: number, events: EngineEvent[]) => {
+  structure.health = Math.max(0, structure.health - damage);
+  if (structure.health > 0) return;
+
+  structure.isDestroyed = true;
+  structure.energy = 0;
+  structure.overloadUntil = 0;
+  events.push({ type: 'structureDestroyed', structure });
+  events.push({ type: 'sound', sound: 'explode_heavy' });
+};
+
+// Scoring & Combo
+const handleKill = (state: EngineState, enemy: EnemyMissile, events: EngineEvent[]) => {
+  state.enemiesDestroyed += 1;
+  state.combat.killsByType[enemy.type] = (state.combat.killsByType[enemy.type] ?? 0) + 1;
+
+  // Carriers only exist before they split, so any kill earns the intercept bonus
+  const { score, split, bounty } = getEnemyDefinition(enemy.type);
+  const baseScore = score + (split ? split.interceptBonus : 0);
+  if (bounty) state.combat.bonusCredits += bounty;
+
+  let diffMult = 1;
+  if (state.difficulty === Difficulty.HARD) diffMult = 1.5;
+  if (state.difficulty === Difficulty.EASY) diffMult = 0.8;
+
+  const timeSinceLast = state.clock - state.lastKillTime;
+  if (timeSinceLast < COMBO_TIMEOUT) {
+    state.multiplier = Math.min(state.multiplier + 1, 10);
+  } else {
+    state.multiplier = 1;
+  }
+
+  state.lastKillTime = state.clock;
+  state.combat.bestCombo = Math.max(state.combat.bestCombo, state.multiplier);
+
+  const points = Math.ceil(baseScore * diffMult * state.multiplier);
+  state.score += points;
+  events.push({ type: 'kill', enemy, points, multiplier: state.multiplier });
+};
+
+// Puts one enemy of the given type in the sky, with everything its definition asks for
+const addEnemy = (state: EngineState, type: EnemyType, startX: number, targetX: number, events: EngineEvent[]) => {
+  const random = () => nextRandom(state);
+  const { movement, speedMultiplier, color, health: maxHealth, split, beam, burst, launch, spawnSound } = getEnemyDefinition(type);
+
+  let targetY = state.height;
+  let startY = -30;
+
+  if (movement === 'vertical') {
+    startX = targetX;
+  }
+
+  if (movement === 'cross') {
+    const fromLeft = random() < 0.5;
+    startX = fromLeft ? -40 : state.width + 40;
+    targetX = fromLeft ? state.width + 40 : -40;
+    startY = targetY = state.height * (0.08 + random() * 0.17);
+  }
+
+  const dist = Math.hypot(targetX - startX, targetY - startY);
+  const baseSpeed = 50 + (state.level * 10);
+
+  const enemy: EnemyMissile = {
+    id: nextId(state),
+    type,
+    x: startX,
+    y: startY,
+    startX,
+    startY,
+    targetX,
+    targetY,
+    totalDistance: dist,
+    traveledDistance: 0,
+    speed: (baseSpeed + (random() * 40)) * speedMultiplier * getDifficultySpeedMod(state.difficulty),
+    color,
+    trail: [],
+    health: maxHealth,
+    maxHealth,
+    hitByExplosionIds: [],
+    splitY: split ? state.height * (split.altitude[0] + random() * (split.altitude[1] - split.altitude[0])) : undefined,
+    hoverY: beam ? state.height * (beam.altitude[0] + random() * (beam.altitude[1] - beam.altitude[0])) : undefined,
+    nextLaunchTime: launch ? state.levelTime + launch.interval[0] + random() * (launch.interval[1] - launch.interval[0]) : undefined
+  };
+  state.enemies.push(enemy);
+
+  // The rest of a burst follows the lead round down the same line
+  for (let k = 1; burst && k < burst.count; k++) {
+    state.enemies.push({
+      ...enemy,
+      id: nextId(state),
+      traveledDistance: -k * burst.spacing,
+      trail: [],
+      hitByExplosionIds: []
+    });
+  }
+  if (spawnSound) events.push({ type: 'sound', sound: spawnSound });
+};
+
+// Procedural levels: one random enemy at a time, faster as the levels go up
+const spawnEnemy = (state: EngineState, events: EngineEvent[]) => {
+  const activeBuildings = state.buildings.filter(b => !b.isDestroyed);
+  if (activeBuildings.length === 0) return false;
+
+  const { level, difficulty } = state;
+  const random = () => nextRandom(state);
+  const targetB = activeBuildings[Math.floor(random() * activeBuildings.length)];
+  const targetX = targetB ? (targetB.x + targetB.width / 2) : random() * state.width;
+  const startX = random() * state.width;
+
+  addEnemy(state, pickEnemyType(level, difficulty, random), startX, targetX, events);
+
+  const baseRate = Math.max(0.4, 2.5 - (level * 0.15));
+  let rateMod = 1;
+  if (difficulty === Difficulty.EASY) rateMod = 1.3;
+  if (difficulty === Difficulty.HARD) rateMod = 0.7;
+
+  const spawnRate = baseRate * rateMod;
+
+  state.nextSpawnTime = state.levelTime + (random() * spawnRate);
+  return true;
+};
+
+// Expands a wave into individual spawns using the city as it stands when the wave starts
+const queueWave = (state: EngineState, wave: WaveDefinition) => {
+  const random = () => nextRandom(state);
+  const buildings = state.buildings.filter(b => !b.isDestroyed);
+  const batteries = state.batteries.filter(b => !b.isDestroyed);
+  const buildingX = (b: Building) => b.x + b.width / 2;
+  const randomBuildingX = () => buildings.length > 0 ? buildingX(buildings[Math.floor(random() * buildings.length)]) : random() * state.width;
+
+  const shuffled = [...buildings];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const focusX = randomBuildingX();
+
+  const [minX, maxX] = [wave.spawnX[0] * state.width, wave.spawnX[1] * state.width];
+  const columnX = minX + random() * (maxX - minX);
+
+  for (let i = 0; i < wave.count; i++) {
+    let targetX: number;
+    if (wave.target === 'spread' && shuffled.length > 0) targetX = buildingX(shuffled[i % shuffled.length]);
+    else if (wave.target === 'focus') targetX = focusX;
+    else if (wave.target === 'batteries' && batteries.length > 0) targetX = batteries[Math.floor(random() * batteries.length)].x;
+    else targetX = randomBuildingX();
+
+    let startX: number;
+    if (wave.formation === 'line') startX = minX + (maxX - minX) * (wave.count > 1 ? i / (wave.count - 1) : 0.5);
+    else if (wave.formation === 'column') startX = columnX;
+    else startX = minX + random() * (maxX - minX);
+
+    state.spawnQueue.push({ time: wave.delay + i * wave.interval, type: wave.enemyType, startX, targetX });
+  }
+  state.spawnQueue.sort((a, b) => a.time - b.time);
+};
+
+// Scripted levels: starts waves on schedule and releases their enemies
+const updateScript = (state: EngineState, events: EngineEvent[]) => {
+  const script = state.script;
+  if (!script) return;
+
+  while (state.nextWave < script.waves.length && script.waves[state.nextWave].delay <= state.levelTime) {
+    queueWave(state, script.waves[state.nextWave]);
+    state.nextWave++;
+    events.push({ type: 'sound', sound: 'warning' });
+  }
+
+  while (state.spawnQueue.length > 0 && state.spawnQueue[0].time <= state.levelTime) {
+    const spawn = state.spawnQueue.shift()!;
+    addEnemy(state, spawn.type, spawn.startX, spawn.targetX, events);
+  }
+};
+
+const isScriptCleared = (state: EngineState) =>
+  !!state.script &&
+  state.nextWave >= state.script.waves.length &&
+  state.spawnQueue.length === 0 &&
+  state.enemies.length === 0;
+
+// What the special buildings keep running while they stand
+const updateCitySupport = (state: EngineState, deltaTime: number, events: EngineEvent[]) => {
+  const share = hasCityEffect(state.buildings, 'shieldRecharge') ? 1 : SHIELD_BLACKOUT_RECHARGE;
+  for (const generator of getActiveStructures(state, StructureType.SHIELD_GENERATOR)) {
+    // Overloaded generators stay dark until they reboot, then charge up from empty
+    if (generator.overloadUntil > 0) {
+      if (state.levelTime < generator.overloadUntil) continue;
+      generator.overloadUntil = 0;
+      events.push({ type: 'sound', sound: 'shield_restore' });
+    }
+    const rate = getShieldRechargeRate(generator.level) * share;
+    generator.energy = Math.min(getShieldMaxEnergy(generator.level), generator.energy + rate * deltaTime);
+  }
+
+  // The projected emitter goes out with its time or the last of the energy feeding it
+  if (state.shieldEmitter && (!isShieldAbilityActive(state, ShieldAbility.EMITTER) || getShieldEnergy(state) <= 0)) {
+    state.shieldEmitter = null;
+    state.shieldAbilities[ShieldAbility.EMITTER].activeUntil = state.levelTime;
+  }
+
+  if (state.levelTime < state.nextResupplyTime) return;
+  state.nextResupplyTime = state.levelTime + RESUPPLY_INTERVAL;
+  if (!hasCityEffect(state.buildings, 'ammoResupply')) return;
+  for (const b of state.batteries) {
+    if (!b.isDestroyed && b.ammo < b.maxAmmo) b.ammo += 1;
+  }
+};
+
+// Surviving buildings are worth points and credits, and the city grows between
+// levels (the structures move with it). The payout is taken before the growth so
+// a building that was never defended doesn't pay.
+const completeLevel = (state: EngineState, events: EngineEvent[]) => {
+  state.score += getCityScore(state.buildings);
+  const cityCredits = getCityCredits(state.buildings);
+  state.buildings = growCity(state.buildings, state.level, state.width);
+  state.structures = positionStructures(state.structures, state.buildings, state.width);
+  state.status = 'LEVEL_COMPLETE';
+  events.push({
+    type: 'levelComplete',
+    buildingsLost: state.buildingsLostInLevel,
+    enemiesDestroyed: state.enemiesDestroyed,
+    cityCredits
+  });
+};
+
+// Where an enemy will be in `seconds`, by running its movement on a copy
+const predictEnemyPosition = (state: EngineState, enemy: EnemyMissile, seconds: number): Point => {
+  if (enemy.charge !== undefined) return { x: enemy.x, y: enemy.y };
+  const ghost: EnemyMissile = { ...enemy, trail: [] };
+  moveEnemy(ghost, seconds * getEnemyTimeScale(state, enemy));
+  return { x: ghost.x, y: ghost.y };
+};
+
+// Where a shot fired now meets the enemy, refined over a few passes since the
+// flight time depends on the point it aims at
+const getInterceptPoint = (state: EngineState, from: Point, enemy: EnemyMissile) => {
+  let point: Point = { x: enemy.x, y: enemy.y };
+  let time = 0;
+  for (let pass = 0; pass < 4; pass++) {
+    time = Math.hypot(point.x - from.x, point.y - from.y) / TURRET_PROJECTILE_SPEED;
+    point = predictEnemyPosition(state, enemy, time);
+  }
+  return { point, time };
+};
+
+// How much of the city an enemy takes with it if it lands: full damage over a
+// standing building, less over the ground defenses, next to nothing elsewhere.
+// Aircraft count as the missiles they drop.
+const getEnemyThreat = (state: EngineState, enemy: EnemyMissile) => {
+  const { buildingDamage, impactRadius, launch } = getEnemyDefinition(enemy.type);
+  if (launch) return getEnemyDefinition(launch.missileType).buildingDamage;
+  const x = enemy.targetX;
+  if (state.buildings.some(b => !b.isDestroyed && x >= b.x && x <= b.x + b.width)) return buildingDamage;
+  const nearDefenses = [...state.structures, ...state.batteries].some(d => !d.isDestroyed && Math.abs(x - d.x) <= impactRadius / 2);
+  return nearDefenses ? buildingDamage / 2 : buildingDamage / 10;
+};
+
+const getEnemyValue = (enemy: EnemyMissile) => {
+  const { score, split, bounty } = getEnemyDefinition(enemy.type);
+  return score + (split ? split.interceptBonus : 0) + (bounty ?? 0);
+};
+
+// The enemy in reach a turret goes for first, by its priority setting. Lower
+// scores win; ties on threat and value go to the enemy closer to the ground.
+const pickTurretTarget = (state: EngineState, turret: Structure) => {
+  const anchor = getStructureAnchor(state, turret);
+  const reach = getTurretReach(state, turret);
+
+  let best: EnemyMissile | null = null;
+  let bestScore = Infinity;
+  for (const e of state.enemies) {
+    const d = Math.hypot(e.x - anchor.x, e.y - anchor.y);
+    if (d > reach || e.y >= state.height - 100) continue;
+
+    let score: number;
+    switch (turret.priority) {
+      case 'dangerous':
+        score = -(getEnemyThreat(state, e) * state.height + e.y);
+        break;
+      case 'lowest':
+        score = -e.y;
+        break;
+      case 'valuable':
+        score = -(getEnemyValue(e) * state.height + e.y);
+        break;
+      case 'lead': {
+        // Only enemies it can still catch inside its reach, soonest first
+        const { point, time } = getInterceptPoint(state, anchor, e);
+        if (Math.hypot(point.x - anchor.x, point.y - anchor.y) > reach || point.y >= state.height - 40) continue;
+        score = time;
+        break;
+      }
+      default:
+        score = d;
+    }
+    if (score < bestScore) {
+      bestScore = score;
+      best = e;
+    }
+  }
+  return best;
+};
+
+// Turret shots aim where the target will be when they arrive
+const fireTurret = (state: EngineState, turret: Structure, target: EnemyMissile, events: EngineEvent[]) => {
+  const anchor = getStructureAnchor(state, turret);
+  const { point } = getInterceptPoint(state, anchor, target);
+  const angle = Math.atan2(point.y - anchor.y, point.x - anchor.x);
+  state.projectiles.push({
+    id: nextId(state),
+    x: anchor.x,
+    y: anchor.y,
+    velocityX: Math.cos(angle) * TURRET_PROJECTILE_SPEED,
+    velocityY: Math.sin(angle) * TURRET_PROJECTILE_SPEED,
+    speed: TURRET_PROJECTILE_SPEED,
+    trail: []
+  });
+  turret.nextFireTime = state.clock + getTurretCooldown(turret.level);
+  events.push({ type: 'sound', sound: 'turret_shoot' });
+};
+
+const updateTurrets = (state: EngineState, events: EngineEvent[]) => {
+  for (const turret of getActiveStructures(state, StructureType.TURRET)) {
+    if (state.clock < turret.nextFireTime) continue;
+    const target = pickTurretTarget(state, turret);
+    if (!target) continue;
+    fireTurret(state, turret, target, events);
+  }
+};
+
+const updateProjectiles = (state: EngineState, deltaTime: number, events: EngineEvent[]) => {
+  for (let i = state.projectiles.length - 1; i >= 0; i--) {
+    const p = state.projectiles[i];
+    p.x += p.velocityX * deltaTime;
+    p.y += p.velocityY * deltaTime;
+
+    p.trail.push({ x: p.x, y: p.y });
+    if (p.trail.length > 5) p.trail.shift();
+
+    if (p.x < 0 || p.x > state.width || p.y < 0) {
+      state.projectiles.splice(i, 1);
+      continue;
+    }
+
+    for (let j = state.enemies.length - 1; j >= 0; j--) {
+      const e = state.enemies[j];
+      const dist = Math.hypot(p.x - e.x, p.y - e.y);
+      if (dist < 20) {
+        state.projectiles.splice(i, 1);
+        e.health -= 1;
+        if (e.health <= 0) {
+          state.enemies.splice(j, 1);
+          state.explosions.push({ id: nextId(state), x: e.x, y: e.y, currentRadius: 5, maxRadius: 30, alpha: 1 });
+          events.push({ type: 'sound', sound: getEnemyDefinition(e.type).deathSound });
+          handleKill(state, e, events);
+          state.combat.turretKills += 1;
+        } else {
+          state.explosions.push({ id: nextId(state), x: e.x, y: e.y, currentRadius: 2, maxRadius: 10, alpha: 1 });
+        }
+        break;
+      }
+    }
+  }
+};
+
+// Guided interceptors lock onto the enemy nearest their aim point and follow it
+const steerInterceptor = (state: EngineState, missile: Interceptor, guidanceRadius: number) => {
+  let target = state.enemies.find(e => e.id === missile.lockedEnemyId);
+  if (!target) {
+    let nearest = guidanceRadius;
+    for (const e of state.enemies) {
+      const dist = Math.hypot(e.x - missile.targetX, e.y - missile.targetY);
+      if (dist < nearest) {
+        nearest = dist;
+        target = e;
+      }
+    }
+  }
+  if (!target) return;
+
+  missile.lockedEnemyId = target.id;
+  missile.targetX = target.x;
+  missile.targetY = target.y;
+};
+
+// The blast an interceptor leaves where it arrives, shaped by its ammo
+const detonateInterceptor = (state: EngineState, missile: Interceptor, explosionMaxRadius: number, events: EngineEvent[]) => {
+  const { radiusMultiplier, cluster, emp } = getAmmoDefinition(missile.ammo);
+  const ammo = missile.ammo === AmmoType.STANDARD ? undefined : missile.ammo;
+  const blast = (x: number, y: number, maxRadius: number): Explosion =>
+    ({ id: nextId(state), x, y, currentRadius: 1, maxRadius, alpha: 1, fromInterceptor: true, ammo });
+
+  state.explosions.push(blast(missile.x, missile.y, explosionMaxRadius * radiusMultiplier));
+
+  if (cluster) {
+    for (let k = 0; k < cluster.bomblets; k++) {
+      const angle = (k / cluster.bomblets) * Math.PI * 2;
+      state.explosions.push(blast(
+        missile.x + Math.cos(angle) * cluster.spread,
+        missile.y + Math.sin(angle) * cluster.spread,
+        explosionMaxRadius * cluster.radiusMultiplier
+      ));
+    }
+  }
+  if (emp) events.push({ type: 'sound', sound: 'emp' });
+};
+
+const updateInterceptors = (state: EngineState, deltaTime: number, events: EngineEvent[]) => {
+  const { explosionMaxRadius, guidanceRadius, proximityRadius } = getDefenseStats(state.upgrades);
+
+  for (let i = state.interceptors.length - 1; i >= 0; i--) {
+    const missile = state.interceptors[i];
+    if (getAmmoDefinition(missile.ammo).seeking) steerInterceptor(state, missile, Infinity);
+    else if (guidanceRadius > 0) steerInterceptor(state, missile, guidanceRadius);
+    const dx = missile.targetX - missile.x;
+    const dy = missile.targetY - missile.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    missile.trail.push({ x: missile.x, y: missile.y });
+    if (missile.trail.length > 20) missile.trail.shift();
+
+    const fused = proximityRadius > 0 && state.enemies.some(e => Math.hypot(e.x - missile.x, e.y - missile.y) < proximityRadius);
+    if (fused) {
+      missile.exploded = true;
+      detonateInterceptor(state, missile, explosionMaxRadius, events);
+      state.interceptors.splice(i, 1);
+    } else if (dist < missile.speed * deltaTime) {
+      missile.x = missile.targetX;
+      missile.y = missile.targetY;
+      missile.exploded = true;
+      detonateInterceptor(state, missile, explosionMaxRadius, events);
+      state.interceptors.splice(i, 1);
+    } else {
+      const angle = Math.atan2(dy, dx);
+      missile.x += Math.cos(angle) * missile.speed * deltaTime;
+      missile.y += Math.sin(angle) * missile.speed * deltaTime;
+    }
+  }
+};
+
+const updateBeams = (state: EngineState, deltaTime: number) => {
+  for (let i = state.beams.length - 1; i >= 0; i--) {
+    state.beams[i].alpha -= 2.5 * deltaTime;
+    if (state.beams[i].alpha <= 0) state.beams.splice(i, 1);
+  }
+};
+
+const updateExplosions = (state: EngineState, deltaTime: number) => {
+  for (let i = state.explosions.length - 1; i >= 0; i--) {
+    const exp = state.explosions[i];
+    exp.currentRadius += 100 * deltaTime;
+    if (exp.currentRadius > exp.maxRadius) {
+      exp.alpha -= 2 * deltaTime;
+      if (exp.alpha <= 0) {
+        state.explosions.splice(i, 1);
+      }
+    }
+  }
+};
+
+// Share of its speed an enemy keeps, less while an EMP hit lasts
+const getEnemyTimeScale = (state: EngineState, enemy: EnemyMissile) => {
+  const { emp } = getAmmoDefinition(AmmoType.EMP);
+  return emp && enemy.slowUntil !== undefined && state.levelTime < enemy.slowUntil ? emp.slowFactor : 1;
+};
+
+const moveEnemy = (enemy: EnemyMissile, deltaTime: number) => {
+  enemy.traveledDistance += enemy.speed * deltaTime;
+  const t = enemy.traveledDistance / enemy.totalDistance;
+
+  const { trailLength, movement } = getEnemyDefinition(enemy.type);
+
+  enemy.trail.push({ x: enemy.x, y: enemy.y });
+  if (enemy.trail.length > trailLength) enemy.trail.shift();
+
+  let currentX = enemy.startX + (enemy.targetX - enemy.startX) * t;
+  let currentY = enemy.startY + (enemy.targetY - enemy.startY) * t;
+
+  if (movement === 'wave') {
+    const dx = enemy.targetX - enemy.startX;
+    const dy = enemy.targetY - enemy.startY;
+    const angle = Math.atan2(dy, dx);
+
+    const perpX = Math.cos(angle + Math.PI / 2);
+    const perpY = Math.sin(angle + Math.PI / 2);
+
+    const wave = Math.sin(enemy.traveledDistance * 0.03) * 60;
+
+    currentX += perpX * wave;
+    currentY += perpY * wave;
+  }
+
+  enemy.x = currentX;
+  enemy.y = currentY;
+  return t;
+};
+
+// A missile released mid-air by another enemy
+const createLaunchedMissile = (state: EngineState, type: EnemyType, x: number, y: number, targetX: number, speed: number): EnemyMissile => {
+  const { health, color } = getEnemyDefinition(type);
+  const targetY = state.height;
+  return {
+    id: nextId(state),
+    type,
+    x,
+    y,
+    startX: x,
+    startY: y,
+    targetX,
+    targetY,
+    totalDistance: Math.hypot(targetX - x, targetY - y),
+    traveledDistance: 0,
+    speed,
+    color,
+    trail: [],
+    health,
+    maxHealth: health,
+    hitByExplosionIds: []
+  };
+};
+
+// Returns true if the enemy released its warheads (and is gone)
+const checkSplit = (state: EngineState, enemy: EnemyMissile, events: EngineEvent[]) => {
+  const { split } = getEnemyDefinition(enemy.type);
+  if (!split || enemy.splitY === undefined || enemy.y < enemy.splitY) return false;
+
+  const random = () => nextRandom(state);
+  const [min, max] = split.warheads;
+  const count = min + Math.floor(random() * (max - min + 1));
+
+  // Each warhead goes for a different building while there are enough left
+  const targets = state.buildings.filter(b => !b.isDestroyed);
+  for (let i = targets.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [targets[i], targets[j]] = [targets[j], targets[i]];
+  }
+
+  for (let i = 0; i < count; i++) {
+    const target = targets[i % Math.max(1, targets.length)];
+    const targetX = target ? target.x + target.width / 2 : random() * state.width;
+    state.enemies.push(createLaunchedMissile(state, split.warheadType, enemy.x, enemy.y, targetX, enemy.speed * split.warheadSpeedMultiplier));
+  }
+
+  state.explosions.push({ id: nextId(state), x: enemy.x, y: enemy.y, currentRadius: 2, maxRadius: 15, alpha: 1 });
+  events.push({ type: 'sound', sound: 'mirv_split' });
+  return true;
+};
+
+// Aircraft release a missile at a random building every few seconds while over the city
+const updateLauncher = (state: EngineState, enemy: EnemyMissile, events: EngineEvent[]) => {
+  const { launch } = getEnemyDefinition(enemy.type);
+  if (!launch || enemy.nextLaunchTime === undefined || state.levelTime < enemy.nextLaunchTime) return;
+  if (enemy.x < 0 || enemy.x > state.width) return;
+
+  const random = () => nextRandom(state);
+  const activeBuildings = state.buildings.filter(b => !b.isDestroyed);
+  const target = activeBuildings[Math.floor(random() * activeBuildings.length)];
+  const targetX = target ? target.x + target.width / 2 : random() * state.width;
+  const speed = (50 + state.level * 10) * getEnemyDefinition(launch.missileType).speedMultiplier;
+
+  state.enemies.push(createLaunchedMissile(state, launch.missileType, enemy.x, enemy.y + 10, targetX, speed));
+  enemy.nextLaunchTime = state.levelTime + launch.interval[0] + random() * (launch.interval[1] - launch.interval[0]);
+  events.push({ type: 'sound', sound: 'warning' });
+};
+
+// Moves, fires and damages the mothership. Returns true once it has been destroyed
+const updateBoss = (state: EngineState, deltaTime: number, events: EngineEvent[]) => {
+  const boss = state.boss;
+  if (!boss) return false;
+  const phase = MOTHERSHIP.phases[boss.phase];
+  const random = () => nextRandom(state);
+
+  // Descends into position before doing anything else
+  if (boss.y < boss.cruiseY) {
+    boss.y = Math.min(boss.cruiseY, boss.y + 60 * deltaTime);
+    boss.nextAttackTime = state.levelTime + phase.interval[0];
+    return false;
+  }
+
+  const halfWidth = MOTHERSHIP.width / 2;
+  boss.x += boss.direction * phase.speed * deltaTime;
+  if (boss.x < halfWidth) {
+    boss.x = halfWidth;
+    boss.direction = 1;
+  } else if (boss.x > state.width - halfWidth) {
+    boss.x = state.width - halfWidth;
+    boss.direction = -1;
+  }
+
+  if (state.levelTime >= boss.nextAttackTime) {
+    const activeBuildings = state.buildings.filter(b => !b.isDestroyed);
+    const speed = (50 + state.level * 10) * getEnemyDefinition(phase.missileType).speedMultiplier;
+    for (let k = 0; k < phase.volley; k++) {
+      const launchX = boss.x + (random() - 0.5) * MOTHERSHIP.width * 0.8;
+      const target = activeBuildings[Math.floor(random() * activeBuildings.length)];
+      const targetX = target ? target.x + target.width / 2 : random() * state.width;
+      state.enemies.push(createLaunchedMissile(state, phase.missileType, launchX, boss.y + MOTHERSHIP.height / 2, targetX, speed));
+    }
+    boss.nextAttackTime = state.levelTime + phase.interval[0] + random() * (phase.interval[1] - phase.interval[0]);
+    events.push({ type: 'sound', sound: 'warning' });
+  }
+
+  // Only blasts that reach an exposed weak point count
+  const exposed = getExposedWeakPoints(boss);
+  for (const exp of state.explosions) {
+    if (boss.hitByExplosionIds.includes(exp.id)) continue;
+    const hitPoint = exposed.find(wp =>
+      Math.hypot(exp.x - (boss.x + wp.offsetX), exp.y - (boss.y + wp.offsetY)) < exp.currentRadius + wp.radius
+    );
+    if (!hitPoint) continue;
+
+    // EMP blasts do nothing to its hull
+    boss.hitByExplosionIds.push(exp.id);
+    const { damage } = getAmmoDefinition(exp.ammo ?? AmmoType.STANDARD);
+    if (damage <= 0) continue;
+    boss.health -= damage;
+    boss.hitTime = state.clock;
+    if (exp.fromInterceptor && !exp.scored) {
+      exp.scored = true;
+      state.combat.interceptorsHit += 1;
+    }
+    if (boss.health <= 0) return true;
+
+    // The spark must not count as another hit
+    const spark = { id: nextId(state), x: boss.x + hitPoint.offsetX, y: boss.y + hitPoint.offsetY, currentRadius: 2, maxRadius: 15, alpha: 1 };
+    boss.hitByExplosionIds.push(spark.id);
+    state.explosions.push(spark);
+    events.push({ type: 'sound', sound: 'boss_hit' });
+  }
+
+  const nextPhase = getBossPhaseIndex(boss);
+  if (nextPhase !== boss.phase) {
+    boss.phase = nextPhase;
+    events.push({ type: 'sound', sound: 'boss_phase' });
+
+    // Resupply between phases so the fight can't stall on empty launchers
+    state.batteries.forEach(b => {
+      if (!b.isDestroyed) b.ammo = b.maxAmmo;
+    });
+  }
+  return false;
+};
+
+const handleBossKill = (state: EngineState, events: EngineEvent[]) => {
+  const boss = state.boss;
+  if (!boss) return;
+
+  state.score += MOTHERSHIP.score * state.multiplier;
+  state.combat.bossReward = boss.reward;
+  for (let k = -2; k <= 2; k++) {
+    state.explosions.push({ id: nextId(state), x: boss.x + k * MOTHERSHIP.width / 5, y: boss.y, currentRadius: 5, maxRadius: 60, alpha: 1 });
+  }
+  events.push({ type: 'sound', sound: 'boss_destroyed' });
+  state.boss = null;
+};
+
+// Horizontal extent of the segment between two heights, or null if it never gets there
+const segmentSpanAt = (x1: number, y1: number, x2: number, y2: number, top: number, bottom: number) => {
+  const from = Math.max(top, Math.min(y1, y2));
+  const to = Math.min(bottom, Math.max(y1, y2));
+  if (from > to) return null;
+  const xAt = (y: number) => x1 + (x2 - x1) * ((y - y1) / (y2 - y1));
+  return [Math.min(xAt(from), xAt(to)), Math.max(xAt(from), xAt(to))];
+};
+
+// Stops an emitter at its altitude and charges it. Returns true once the beam has fired (and the emitter is spent)
+const updateEmitter = (state: EngineState, enemy: EnemyMissile, deltaTime: number, events: EngineEvent[]) => {
+  const { beam } = getEnemyDefinition(enemy.type);
+  if (!beam || enemy.hoverY === undefined) return false;
+
+  if (enemy.charge === undefined) {
+    if (enemy.y < enemy.hoverY) return false;
+    enemy.charge = 0;
+    events.push({ type: 'sound', sound: 'laser_charge' });
+    return false;
+  }
+
+  enemy.charge = Math.min(1, enemy.charge + deltaTime / beam.chargeTime[state.difficulty]);
+  if (enemy.charge < 1) return false;
+
+  // Fires down the line it was flying along
+  state.beams.push({ id: nextId(state), startX: enemy.x, startY: enemy.y, endX: enemy.targetX, endY: enemy.targetY, alpha: 1 });
+  events.push({ type: 'sound', sound: 'laser_fire' });
+
+  for (const b of state.buildings) {
+    if (b.isDestroyed) continue;
+    const span = segmentSpanAt(enemy.x, enemy.y, enemy.targetX, enemy.targetY, b.y, b.y + b.height);
+    if (!span || span[1] < b.x - beam.width / 2 || span[0] > b.x + b.width + beam.width / 2) continue;
+
+    const destroyed = damageBuilding(state, b, getEnemyDefinition(enemy.type).buildingDamage, events);
+    state.explosions.push({ id: nextId(state), x: b.x + b.width / 2, y: b.y, currentRadius: 1, maxRadius: destroyed ? 40 : 25, alpha: 1 });
+    events.push({ type: 'sound', sound: destroyed ? 'explode_heavy' : 'explode_normal' });
+  }
+  return true;
+};
+
+// A generator that runs dry on a hit overloads and stays down for a while
+const drainGenerator = (state: EngineState, generator: Structure, amount: number, events: EngineEvent[]) => {
+  generator.energy = Math.max(0, generator.energy - amount);
+  generator.hitTime = state.clock;
+  if (generator.energy > 0) return;
+  generator.overloadUntil = state.levelTime + getShieldOverloadTime(generator.level);
+  events.push({ type: 'sound', sound: 'shield_overload' });
+};
+
+// The dome, bubble or generator shield the enemy has flown into, if any.
+// The city-wide dome is paid for up front; the others drain a generator.
+const findShieldHit = (state: EngineState, enemy: EnemyMissile): Structure | 'dome' | null => {
+  if (isShieldAbilityActive(state, ShieldAbility.DOME)) {
+    // Half ellipse over the whole width, standing on the ground line
+    const { domeHeight = 0 } = getShieldAbilityDefinition(ShieldAbility.DOME);
+    const dx = (enemy.x - state.width / 2) / (state.width / 2 + DOME_OVERHANG);
+    const dy = (enemy.y - (state.height - 20)) / (domeHeight - 20);
+    if (dx * dx + dy * dy < 1) return 'dome';
+  }
+
+  const generators = getPoweredGenerators(state);
+  const emitter = state.shieldEmitter;
+  if (emitter && generators.length > 0) {
+    const { radius = 0 } = getShieldAbilityDefinition(ShieldAbility.EMITTER);
+    // The fullest generator feeds the bubble
+    if (Math.hypot(enemy.x - emitter.x, enemy.y - emitter.y) < radius) return generators.reduce((a, b) => (b.energy > a.energy ? b : a));
+  }
+
+  return generators.find(g => {
+    const { x: shieldX, y: shieldY } = getStructureAnchor(state, g);
+    return Math.hypot(enemy.x - shieldX, enemy.y - shieldY) < getShieldRadius(g);
+  }) ?? null;
+};
+
+// Returns true if the enemy was absorbed by a shield
+const checkShieldCollision = (state: EngineState, enemy: EnemyMissile, events: EngineEvent[]) => {
+  const hit = findShieldHit(state, enemy);
+  if (!hit) return false;
+
+  handleKill(state, enemy, events);
+  state.combat.shieldHits += 1;
+
+  if (hit === 'dome') {
+    events.push({ type: 'sound', sound: 'shield_hit', intensity: 1 });
+  } else {
+    drainGenerator(state, hit, SHIELD_HIT_COST, events);
+    events.push({ type: 'sound', sound: 'shield_hit', intensity: hit.energy / getShieldMaxEnergy(hit.level) });
+  }
+
+  state.explosions.push({ id: nextId(state), x: enemy.x, y: enemy.y, currentRadius: 5, maxRadius: 20, alpha: 1 });
+  return true;
+};
+
+// Pulse from every powered generator: destroys the enemies around it
+const firePulse = (state: EngineState, generators: Structure[], events: EngineEvent[]) => {
+  const { radiusMultiplier = 1 } = getShieldAbilityDefinition(ShieldAbility.PULSE);
+  for (let i = state.enemies.length - 1; i >= 0; i--) {
+    const e = state.enemies[i];
+    const inReach = generators.some(g => {
+      const { x, y } = getStructureAnchor(state, g);
+      return Math.hypot(e.x - x, e.y - y) < getShieldRadius(g) * radiusMultiplier;
+    });
+    if (!inReach) continue;
+    state.enemies.splice(i, 1);
+    state.explosions.push({ id: nextId(state), x: e.x, y: e.y, currentRadius: 5, maxRadius: 25, alpha: 1 });
+    handleKill(state, e, events);
+  }
+  events.push({ type: 'sound', sound: 'shield_pulse' });
+};
+
+// Pays for the ability out of every powered generator, in proportion to what each holds
+const spendShieldEnergy = (generators: Structure[], cost: number) => {
+  const total = generators.reduce((sum, g) => sum + g.energy, 0);
+  for (const g of generators) g.energy = Math.max(0, g.energy - cost * (g.energy / total));
+};
+
+const activateShieldAbility = (state: EngineState, ability: ShieldAbility, events: EngineEvent[]) => {
+  // A second press while the emitter is up moves it to the crosshair for free
+  if (ability === ShieldAbility.EMITTER && state.shieldEmitter) {
+    state.shieldEmitter = { x: state.crosshair.x, y: state.crosshair.y };
+    events.push({ type: 'sound', sound: 'shield_dome' });
+    return;
+  }
+
+  if (getShieldAbilityLock(state, ability)) {
+    events.push({ type: 'sound', sound: 'dry_fire' });
+    return;
+  }
+
+  const { energyCost, cooldown, duration } = getShieldAbilityDefinition(ability);
+  const generators = getPoweredGenerators(state);
+  // Pulse reach is measured before the spend shrinks the domes
+  if (ability === ShieldAbility.PULSE) firePulse(state, generators, events);
+  spendShieldEnergy(generators, energyCost);
+  state.shieldAbilities[ability] = { readyAt: state.levelTime + cooldown, activeUntil: state.levelTime + duration };
+
+  if (ability === ShieldAbility.EMITTER) state.shieldEmitter = { x: state.crosshair.x, y: state.crosshair.y };
+  if (ability !== ShieldAbility.PULSE) events.push({ type: 'sound', sound: 'shield_dome' });
+};
+
+// Returns true if the enemy was destroyed by an explosion
+const checkExplosionCollision = (state: EngineState, enemy: EnemyMissile, events: EngineEvent[]) => {
+  // Iterates the live array on purpose: explosions spawned by a hit take part in this pass
+  for (const exp of state.explosions) {
+    const distToExp = Math.hypot(enemy.x - exp.x, enemy.y - exp.y);
+    if (distToExp >= exp.currentRadius || enemy.hitByExplosionIds.includes(exp.id)) continue;
+
+    enemy.hitByExplosionIds.push(exp.id);
+    const { damage, emp } = getAmmoDefinition(exp.ammo ?? AmmoType.STANDARD);
+    if (emp) enemy.slowUntil = state.levelTime + emp.duration;
+    if (damage <= 0) continue;
+
+    enemy.health -= damage;
+    if (exp.fromInterceptor && !exp.scored) {
+      exp.scored = true;
+      state.combat.interceptorsHit += 1;
+    }
+
+    if (enemy.health <= 0) {
+      handleKill(state, enemy, events);
+      state.explosions.push({ id: nextId(state), x: enemy.x, y: enemy.y, currentRadius: 5, maxRadius: 30, alpha: 1 });
+      events.push({ type: 'sound', sound: getEnemyDefinition(enemy.type).deathSound });
+      return true;
+    }
+
+    // The spark hits as hard as the blast that made it
+    state.explosions.push({ id: nextId(state), x: enemy.x, y: enemy.y, currentRadius: 2, maxRadius: 10, alpha: 1, ammo: exp.ammo });
+  }
+  return false;
+};
+
+const handleGroundImpact = (state: EngineState, enemy: EnemyMissile, events: EngineEvent[]) => {
+  let hitBuilding = false;
+  const { impactRadius, buildingDamage, deathSound } = getEnemyDefinition(enemy.type);
+
+  for (const b of state.buildings) {
+    if (!b.isDestroyed && enemy.x >= b.x && enemy.x <= b.x + b.width) {
+      hitBuilding = true;
+      damageBuilding(state, b, buildingDamage, events);
+
+      state.explosions.push({
+        id: nextId(state),
+        x: enemy.x,
+        y: state.height - 30,
+        currentRadius: 1,
+        maxRadius: impactRadius,
+        alpha: 1
+      });
+      events.push({ type: 'sound', sound: 'explode_heavy' });
+    }
+  }
+
+  for (const s of state.structures) {
+    if (s.isDestroyed || Math.abs(enemy.x - s.x) > impactRadius / 2) continue;
+    damageStructure(state, s, buildingDamage, events);
+  }
+
+  for (const b of state.batteries) {
+    if (b.isDestroyed || Math.abs(enemy.x - b.x) > impactRadius / 2) continue;
+    b.isDestroyed = true;
+    b.ammo = 0;
+    events.push({ type: 'batteryDestroyed', battery: b });
+  }
+
+  if (!hitBuilding) {
+    state.explosions.push({
+      id: nextId(state),
+      x: enemy.x,
+      y: state.height - 20,
+      currentRadius: 1,
+      maxRadius: impactRadius - 20,
+      alpha: 1
+    });
+    events.push({ type: 'sound', sound: deathSound });
+  }
+};
+
+/**
+ * Advances the simulation by `deltaTime` seconds. The state is updated in place
+ * (the same object is returned) and everything the presentation layer should
+ * react to - sounds, kills, level end - is reported in `events`.
+ */
+export const step = (state: EngineState, input: EngineInput, deltaTime: number): StepResult => {
+  const events: EngineEvent[] = [];
+  if (state.status !== 'RUNNING') return { state, events };
+
+  state.clock += deltaTime * 1000;
+
+  // 0. Player input
+  if (input.selectBattery) {
+    state.selectedBattery = input.selectBattery === 'nearest' ? null : input.selectBattery;
+  }
+
+  if (input.selectAmmo && input.selectAmmo !== state.selectedAmmo) {
+    state.selectedAmmo = hasAmmo(state.ammoStock, input.selectAmmo) ? input.selectAmmo : AmmoType.STANDARD;
+    events.push({ type: 'sound', sound: state.selectedAmmo === input.selectAmmo ? 'ammo_select' : 'dry_fire' });
+  }
+
+  if (input.aim) {
+    state.crosshair = { x: input.aim.x, y: input.aim.y };
+  }
+
+  for (const target of input.fireTargets) {
+    state.crosshair = { x: target.x, y: target.y };
+    attemptFire(state, target.x, target.y, events);
+  }
+
+  const moveSpeed = CROSSHAIR_SPEED * deltaTime;
+  if (input.up) state.crosshair.y -= moveSpeed;
+  if (input.down) state.crosshair.y += moveSpeed;
+  if (input.left) state.crosshair.x -= moveSpeed;
+  if (input.right) state.crosshair.x += moveSpeed;
+
+  state.crosshair.x = Math.max(0, Math.min(state.width, state.crosshair.x));
+  state.crosshair.y = Math.max(0, Math.min(state.height, state.crosshair.y));
+
+  if (input.shieldAbility) {
+    activateShieldAbility(state, input.shieldAbility, events);
+  }
+
+  if (input.fire) {
+    attemptFire(state, state.crosshair.x, state.crosshair.y, events);
+  }
+
+  // Combo Timeout Check
+  if (state.multiplier > 1 && state.clock - state.lastKillTime > COMBO_TIMEOUT) {
+    resetCombo(state, events);
+  }
+
+  if (state.boss && state.levelTime === 0) {
+    events.push({ type: 'sound', sound: 'boss_warning' });
+  }
+
+  // 1. Level Timer (boss levels run until the kill, 'clear' scripts until the sky is empty)
+  state.levelTime += deltaTime;
+  const isWon = state.script?.win === 'clear' ? isScriptCleared(state) : getTimeLeft(state) <= 0;
+  if (!state.boss && isWon) {
+    completeLevel(state, events);
+    return { state, events };
+  }
+
+  // 2-3. Audio Warning & Spawn Enemies (the boss brings its own)
+  if (state.script) {
+    updateScript(state, events);
+  } else if (!state.boss) {
+    const timeUntilSpawn = state.nextSpawnTime - state.levelTime;
+    if (timeUntilSpawn < 0.5 && timeUntilSpawn > 0 && !state.warningPlayed) {
+      events.push({ type: 'sound', sound: 'warning' });
+      state.warningPlayed = true;
+    }
+
+    if (state.levelTime > state.nextSpawnTime && spawnEnemy(state, events)) {
+      state.warningPlayed = false;
+    }
+  }
+
+  // 4. Ground defenses & city support
+  updateTurrets(state, events);
+  updateCitySupport(state, deltaTime, events);
+
+  // 5-7. Friendly fire & explosions
+  updateProjectiles(state, deltaTime, events);
+  updateInterceptors(state, deltaTime, events);
+  updateExplosions(state, deltaTime);
+  updateBeams(state, deltaTime);
+
+  // 8. Boss
+  if (updateBoss(state, deltaTime, events)) {
+    handleBossKill(state, events);
+    completeLevel(state, events);
+    return { state, events };
+  }
+
+  // 9. Move Enemies & Collisions
+  for (let i = state.enemies.length - 1; i >= 0; i--) {
+    const enemy = state.enemies[i];
+    // Charging emitters hold their position
+    const t = enemy.charge === undefined ? moveEnemy(enemy, deltaTime * getEnemyTimeScale(state, enemy)) : 0;
+
+    if (checkShieldCollision(state, enemy, events) || checkExplosionCollision(state, enemy, events) || checkSplit(state, enemy, events)) {
+      state.enemies.splice(i, 1);
+      continue;
+    }
+
+    if (getEnemyDefinition(enemy.type).movement === 'cross') {
+      // Aircraft that make it across simply leave
+      if (t >= 1) state.enemies.splice(i, 1);
+      else updateLauncher(state, enemy, events);
+      continue;
+    }
+
+    const beamFired = updateEmitter(state, enemy, deltaTime, events);
+    if (beamFired || t >= 1 || enemy.y >= state.height - 40) {
+      if (!beamFired) handleGroundImpact(state, enemy, events);
+      state.enemies.splice(i, 1);
+
+      if (state.buildings.every(b => b.isDestroyed)) {
+        state.status = 'GAME_OVER';
+        events.push({ type: 'gameOver', score: state.score });
+        return { state, events };
+      }
+    }
+  }
+
+  return { state, events };
+};
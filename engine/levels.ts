@@ -0,0 +1,148 @@
+import { CityLayout, EnemyType, Formation, LevelDefinition, LevelPack, TargetPolicy, WaveDefinition, WinCondition } from '../types';
+
+// Authored campaign levels. Each one is a list of timed waves; levels past the
+// end of this list fall back to the procedural spawner in gameEngine.ts.
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export const TARGET_POLICIES: TargetPolicy[] = ['random', 'spread', 'focus', 'batteries'];
+export const FORMATIONS: Formation[] = ['scatter', 'line', 'column'];
+export const WIN_CONDITIONS: WinCondition[] = ['survive', 'clear'];
+
+const FULL_WIDTH: [number, number] = [0.05, 0.95];
+
+export const DEFAULT_CITY: CityLayout = { count: 6, width: 60, height: 40 };
+
+// Limits that keep a city on screen; the editor uses them for its inputs too
+export const CITY_LIMITS = {
+  count: [1, 12],
+  width: [20, 120],
+  height: [20, 100]
+} as const;
+
+export const CAMPAIGN_LEVELS: LevelDefinition[] = [
+  {
+    level: 1,
+    name: 'First Contact',
+    win: 'survive',
+    waves: [
+      { delay: 1, enemyType: EnemyType.STANDARD, count: 2, spawnX: [0.2, 0.8], target: 'random', formation: 'scatter', interval: 1.5 },
+      { delay: 6, enemyType: EnemyType.STANDARD, count: 3, spawnX: FULL_WIDTH, target: 'spread', formation: 'line', interval: 0 },
+      { delay: 12, enemyType: EnemyType.STANDARD, count: 4, spawnX: FULL_WIDTH, target: 'random', formation: 'scatter', interval: 1 },
+      { delay: 18, enemyType: EnemyType.STANDARD, count: 3, spawnX: [0.45, 0.55], target: 'focus', formation: 'column', interval: 0.8 },
+      { delay: 24, enemyType: EnemyType.STANDARD, count: 5, spawnX: FULL_WIDTH, target: 'spread', formation: 'line', interval: 0.3 }
+    ]
+  },
+  {
+    level: 2,
+    name: 'Fast Movers',
+    win: 'survive',
+    waves: [
+      { delay: 1, enemyType: EnemyType.STANDARD, count: 4, spawnX: FULL_WIDTH, target: 'spread', formation: 'scatter', interval: 0.8 },
+      { delay: 6, enemyType: EnemyType.FAST, count: 2, spawnX: [0.1, 0.4], target: 'random', formation: 'column', interval: 0.6 },
+      { delay: 11, enemyType: EnemyType.STANDARD, count: 5, spawnX: FULL_WIDTH, target: 'spread', formation: 'line', interval: 0 },
+      { delay: 16, enemyType: EnemyType.FAST, count: 3, spawnX: [0.6, 0.9], target: 'focus', formation: 'column', interval: 0.5 },
+      { delay: 21, enemyType: EnemyType.STANDARD, count: 4, spawnX: FULL_WIDTH, target: 'batteries', formation: 'scatter', interval: 0.7 },
+      { delay: 25, enemyType: EnemyType.FAST, count: 4, spawnX: FULL_WIDTH, target: 'spread', formation: 'line', interval: 0.2 }
+    ]
+  },
+  {
+    level: 3,
+    name: 'Carpet',
+    win: 'clear',
+    waves: [
+      { delay: 1, enemyType: EnemyType.BOMB, count: 3, spawnX: FULL_WIDTH, target: 'spread', formation: 'scatter', interval: 1.2 },
+      { delay: 7, enemyType: EnemyType.STANDARD, count: 6, spawnX: FULL_WIDTH, target: 'random', formation: 'line', interval: 0.2 },
+      { delay: 12, enemyType: EnemyType.FAST, count: 4, spawnX: [0.3, 0.7], target: 'spread', formation: 'scatter', interval: 0.6 },
+      { delay: 18, enemyType: EnemyType.BOMB, count: 5, spawnX: FULL_WIDTH, target: 'spread', formation: 'line', interval: 0.4 },
+      { delay: 24, enemyType: EnemyType.STANDARD, count: 4, spawnX: [0.45, 0.55], target: 'focus', formation: 'column', interval: 0.5 }
+    ]
+  },
+  {
+    level: 4,
+    name: 'Heavy Weather',
+    duration: 35,
+    win: 'survive',
+    waves: [
+      { delay: 1, enemyType: EnemyType.HEAVY, count: 2, spawnX: [0.2, 0.8], target: 'spread', formation: 'scatter', interval: 2 },
+      { delay: 5, enemyType: EnemyType.DRONE, count: 1, spawnX: FULL_WIDTH, target: 'random', formation: 'scatter', interval: 0 },
+      { delay: 9, enemyType: EnemyType.FAST, count: 5, spawnX: FULL_WIDTH, target: 'spread', formation: 'line', interval: 0.3 },
+      { delay: 15, enemyType: EnemyType.HEAVY, count: 3, spawnX: FULL_WIDTH, target: 'focus', formation: 'line', interval: 0.5 },
+      { delay: 20, enemyType: EnemyType.BOMB, count: 4, spawnX: FULL_WIDTH, target: 'batteries', formation: 'scatter', interval: 0.8 },
+      { delay: 26, enemyType: EnemyType.DRONE, count: 2, spawnX: FULL_WIDTH, target: 'random', formation: 'scatter', interval: 3 },
+      { delay: 30, enemyType: EnemyType.STANDARD, count: 8, spawnX: FULL_WIDTH, target: 'spread', formation: 'line', interval: 0.1 }
+    ]
+  },
+  {
+    level: 5,
+    name: 'Mothership',
+    win: 'survive',
+    boss: true,
+    waves: [
+      { delay: 10, enemyType: EnemyType.DRONE, count: 1, spawnX: FULL_WIDTH, target: 'random', formation: 'scatter', interval: 0 },
+      { delay: 25, enemyType: EnemyType.DRONE, count: 2, spawnX: FULL_WIDTH, target: 'random', formation: 'scatter', interval: 4 }
+    ]
+  }
+];
+
+/** Starting point for a new level in the editor. */
+export const createBlankLevel = (): LevelDefinition => ({
+  level: 1,
+  name: '',
+  city: { ...DEFAULT_CITY },
+  win: 'survive',
+  waves: []
+});
+
+/** A 'clear' level with nothing to clear would be won on its first tick. */
+export const canCompleteLevel = (level: LevelDefinition) => level.win !== 'clear' || level.waves.length > 0;
+
+/** The authored definition for a level, or null if it should be generated. */
+export const getLevelDefinition = (level: number, levels: LevelDefinition[] = CAMPAIGN_LEVELS) =>
+  levels.find(l => l.level === level) ?? null;
+
+// --- Serialization ---
+
+export const serializeLevelPack = (levels: LevelDefinition[]) =>
+  JSON.stringify({ version: LEVEL_FORMAT_VERSION, levels } satisfies LevelPack, null, 2);
+
+const isRange = (value: any): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && n >= 0 && n <= 1) && value[0] <= value[1];
+
+const isWaveDefinition = (value: any): value is WaveDefinition =>
+  value &&
+  typeof value.delay === 'number' && value.delay >= 0 &&
+  Object.values(EnemyType).includes(value.enemyType) &&
+  Number.isInteger(value.count) && value.count > 0 &&
+  isRange(value.spawnX) &&
+  TARGET_POLICIES.includes(value.target) &&
+  FORMATIONS.includes(value.formation) &&
+  typeof value.interval === 'number' && value.interval >= 0;
+
+const isCityLayout = (value: any): value is CityLayout =>
+  value &&
+  (['count', 'width', 'height'] as const).every(key =>
+    Number.isInteger(value[key]) && value[key] >= CITY_LIMITS[key][0] && value[key] <= CITY_LIMITS[key][1]);
+
+const isLevelDefinition = (value: any): value is LevelDefinition =>
+  value &&
+  Number.isInteger(value.level) && value.level > 0 &&
+  (value.name === undefined || typeof value.name === 'string') &&
+  (value.city === undefined || isCityLayout(value.city)) &&
+  (value.duration === undefined || (typeof value.duration === 'number' && value.duration > 0)) &&
+  WIN_CONDITIONS.includes(value.win) &&
+  (value.boss === undefined || typeof value.boss === 'boolean') &&
+  Array.isArray(value.waves) &&
+  value.waves.every(isWaveDefinition) &&
+  canCompleteLevel(value);
+
+export const parseLevelPack = (json: string): LevelDefinition[] => {
+  const data = JSON.parse(json);
+  if (!data || data.version !== LEVEL_FORMAT_VERSION) {
+    throw new Error(`Unsupported level format version: ${data?.version}`);
+  }
+  if (!Array.isArray(data.levels) || !data.levels.every(isLevelDefinition)) {
+    throw new Error('Invalid level definitions');
+  }
+  return data.levels as LevelDefinition[];
+};
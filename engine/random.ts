@@ -0,0 +1,32 @@
+import { Difficulty } from '../types';
+
+// Small seedable PRNG (mulberry32). The generator state is a plain number so it
+// can live inside EngineState and survive serialization.
+
+export const createSeed = () => Math.floor(Math.random() * 0xffffffff) >>> 0;
+
+// FNV-1a over a string key, used to mix seed / level / difficulty together
+const hashString = (key: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Initial generator state for one level. The same seed, level and difficulty
+ * always produce the same attack wave, independent of earlier levels.
+ */
+export const deriveLevelSeed = (seed: number, level: number, difficulty: Difficulty) =>
+  hashString(`${seed >>> 0}:${level}:${difficulty}`);
+
+/** Advances `rngState` and returns a float in [0, 1). */
+export const nextRandom = (rng: { rngState: number }) => {
+  rng.rngState = (rng.rngState + 0x6d2b79f5) >>> 0;
+  let t = rng.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
@@ -0,0 +1,265 @@
+import { BatteryId, Building, BuildingType, Difficulty, EngineInput, EngineState, Replay, ReplayFrame, ReplayLevel, Structure, StructureType, UpgradeStats } from '../types';
+import { createEngineState, createInput, step } from './gameEngine';
+import { FIXED_STEP } from './fixedStep';
+import { UPGRADE_IDS } from './upgrades';
+import { AMMO_TYPES, SPECIAL_AMMO_TYPES } from './ammo';
+import { SHIELD_ABILITIES } from './shieldAbilities';
+import { TURRET_PRIORITIES } from './structures';
+
+// Replays store the seed, the per-level setup and every input the engine saw.
+// Since the engine is deterministic, feeding the frames back through step()
+// reproduces the run exactly.
+
+// v1 stored a variable delta per frame; v2 records one frame per fixed step;
+// v3 adds launcher batteries with limited ammo; v4 plays the authored waves of
+// engine/levels.ts; v5 gives buildings health; v6 mixes building types into a
+// growing city; v7 adds guided interceptors to the upgrades; v8 adds special
+// ammo; v9 replaces the fixed turret and shield with ground structures; v10
+// has turrets lead their targets; v11 adds shield overloads and abilities; v12
+// adds proximity fuses to the upgrades. Older runs were simulated differently
+// and no longer reproduce, so they are rejected.
+export const REPLAY_VERSION = 12;
+const SUPPORTED_VERSIONS = [12];
+
+const CONTROL_BITS = { up: 1, down: 2, left: 4, right: 8, fire: 16 } as const;
+type ControlKey = keyof typeof CONTROL_BITS;
+const CONTROL_KEYS = Object.keys(CONTROL_BITS) as ControlKey[];
+
+const BATTERY_SELECTIONS: (BatteryId | 'nearest')[] = ['nearest', 'left', 'center', 'right'];
+
+export const createReplay = (seed: number, difficulty: Difficulty): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  difficulty,
+  fixedStep: FIXED_STEP,
+  recordedAt: new Date().toISOString(),
+  levels: []
+});
+
+/** Opens a new level segment, snapshotting everything needed to rebuild it. */
+export const beginReplayLevel = (replay: Replay, state: EngineState): ReplayLevel => {
+  const segment: ReplayLevel = {
+    level: state.level,
+    width: state.width,
+    height: state.height,
+    upgrades: { ...state.upgrades },
+    ammo: { ...state.ammoStock },
+    buildings: state.buildings.map(b => ({ ...b })),
+    structures: state.structures.map(s => ({ ...s })),
+    startScore: state.score,
+    frames: [],
+    pauses: []
+  };
+  replay.levels.push(segment);
+  return segment;
+};
+
+export const encodeFrame = (input: EngineInput): ReplayFrame => {
+  const frame: ReplayFrame = {};
+  const keys = CONTROL_KEYS.reduce((mask, key) => input[key] ? mask | CONTROL_BITS[key] : mask, 0);
+  if (keys) frame.k = keys;
+  if (input.aim) frame.a = [input.aim.x, input.aim.y];
+  if (input.fireTargets.length > 0) frame.s = input.fireTargets.flatMap(p => [p.x, p.y]);
+  if (input.selectBattery) frame.b = BATTERY_SELECTIONS.indexOf(input.selectBattery);
+  if (input.selectAmmo) frame.m = AMMO_TYPES.indexOf(input.selectAmmo);
+  if (input.shieldAbility) frame.h = SHIELD_ABILITIES.indexOf(input.shieldAbility);
+
+  return frame;
+};
+
+// Every frame is one fixed step of the length the replay was recorded with
+const getFrameDelta = (replay: Replay) => replay.fixedStep ?? FIXED_STEP;
+
+export const decodeFrame = (replay: Replay, frame: ReplayFrame) => {
+  const input = createInput();
+  const keys = frame.k ?? 0;
+  CONTROL_KEYS.forEach(key => { input[key] = (keys & CONTROL_BITS[key]) !== 0; });
+  if (frame.a) input.aim = { x: frame.a[0], y: frame.a[1] };
+  if (frame.s) {
+    for (let i = 0; i + 1 < frame.s.length; i += 2) {
+      input.fireTargets.push({ x: frame.s[i], y: frame.s[i + 1] });
+    }
+  }
+  if (frame.b !== undefined) input.selectBattery = BATTERY_SELECTIONS[frame.b] ?? null;
+  if (frame.m !== undefined) input.selectAmmo = AMMO_TYPES[frame.m] ?? null;
+  if (frame.h !== undefined) input.shieldAbility = SHIELD_ABILITIES[frame.h] ?? null;
+  return { input, deltaTime: getFrameDelta(replay) };
+};
+
+/** Records the input of one fixed step. */
+export const recordFrame = (segment: ReplayLevel, input: EngineInput) => {
+  segment.frames.push(encodeFrame(input));
+};
+
+export const recordPause = (segment: ReplayLevel) => {
+  segment.pauses.push(segment.frames.length);
+};
+
+export const createReplayLevelState = (replay: Replay, segment: ReplayLevel) =>
+  createEngineState({
+    width: segment.width,
+    height: segment.height,
+    level: segment.level,
+    difficulty: replay.difficulty,
+    upgrades: segment.upgrades,
+    ammo: segment.ammo,
+    seed: replay.seed
+  }, {
+    buildings: segment.buildings.map(b => ({ ...b })),
+    structures: segment.structures.map(s => ({ ...s })),
+    score: segment.startScore
+  });
+
+export const getReplayFrameCount = (replay: Replay) =>
+  replay.levels.reduce((total, segment) => total + segment.frames.length, 0);
+
+export const getReplayDuration = (replay: Replay) =>
+  replay.levels.reduce((total, segment) =>
+    total + segment.frames.length * getFrameDelta(replay), 0);
+
+// --- Playback ---
+
+export interface ReplayPlayback {
+  replay: Replay;
+  levelIndex: number;
+  frameIndex: number; // next frame to play within the current level
+  state: EngineState;
+  finished: boolean;
+}
+
+export const createPlayback = (replay: Replay): ReplayPlayback => ({
+  replay,
+  levelIndex: 0,
+  frameIndex: 0,
+  state: createReplayLevelState(replay, replay.levels[0]),
+  finished: replay.levels.length === 0 || getReplayFrameCount(replay) === 0
+});
+
+/** Position of the playback across all levels, in frames. */
+export const getPlaybackPosition = (playback: ReplayPlayback) =>
+  playback.replay.levels
+    .slice(0, playback.levelIndex)
+    .reduce((total, segment) => total + segment.frames.length, 0) + playback.frameIndex;
+
+/**
+ * Plays the next recorded frame. Returns its delta in seconds, or 0 once the
+ * replay has finished.
+ */
+export const advancePlayback = (playback: ReplayPlayback) => {
+  const { replay } = playback;
+
+  while (!playback.finished) {
+    const segment = replay.levels[playback.levelIndex];
+    if (playback.frameIndex < segment.frames.length) {
+      const { input, deltaTime } = decodeFrame(replay, segment.frames[playback.frameIndex]);
+      step(playback.state, input, deltaTime);
+      playback.frameIndex++;
+      return deltaTime;
+    }
+
+    if (playback.levelIndex + 1 >= replay.levels.length) {
+      playback.finished = true;
+      break;
+    }
+    playback.levelIndex++;
+    playback.frameIndex = 0;
+    playback.state = createReplayLevelState(replay, replay.levels[playback.levelIndex]);
+  }
+  return 0;
+};
+
+/** Jumps to an absolute frame by re-simulating the containing level from its start. */
+export const seekPlayback = (playback: ReplayPlayback, position: number) => {
+  const { replay } = playback;
+  let remaining = Math.max(0, Math.min(position, getReplayFrameCount(replay)));
+  let levelIndex = 0;
+  while (levelIndex < replay.levels.length - 1 && remaining >= replay.levels[levelIndex].frames.length) {
+    remaining -= replay.levels[levelIndex].frames.length;
+    levelIndex++;
+  }
+
+  playback.levelIndex = levelIndex;
+  playback.frameIndex = 0;
+  playback.finished = false;
+  playback.state = createReplayLevelState(replay, replay.levels[levelIndex]);
+
+  while (playback.frameIndex < remaining) {
+    advancePlayback(playback);
+  }
+};
+
+// --- Serialization ---
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+/** Thrown for replays recorded by a version of the game that simulated differently. */
+export class ReplayVersionError extends Error {}
+
+const isUpgradeStats = (value: any): value is UpgradeStats =>
+  value && UPGRADE_IDS.every(key => typeof value[key] === 'number');
+
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isIndex = (value: any, length: number) => Number.isInteger(value) && value >= 0 && value < length;
+
+const isBuilding = (value: any): value is Building =>
+  value &&
+  Number.isInteger(value.id) &&
+  Object.values(BuildingType).includes(value.type) &&
+  (['x', 'y', 'width', 'height', 'health', 'maxHealth'] as const).every(key => isNumber(value[key])) &&
+  typeof value.isDestroyed === 'boolean';
+
+const isStructure = (value: any): value is Structure =>
+  value &&
+  Number.isInteger(value.id) &&
+  Object.values(StructureType).includes(value.type) &&
+  Number.isInteger(value.slot) &&
+  Number.isInteger(value.level) &&
+  TURRET_PRIORITIES.includes(value.priority) &&
+  (['x', 'health', 'maxHealth', 'energy', 'hitTime', 'overloadUntil', 'nextFireTime'] as const).every(key => isNumber(value[key])) &&
+  typeof value.isDestroyed === 'boolean';
+
+// The setup a level segment starts from; its frames are checked one by one
+const isReplayLevel = (value: any): value is ReplayLevel =>
+  value &&
+  Number.isInteger(value.level) && value.level > 0 &&
+  isNumber(value.width) && value.width > 0 &&
+  isNumber(value.height) && value.height > 0 &&
+  isNumber(value.startScore) &&
+  isUpgradeStats(value.upgrades) &&
+  value.ammo && SPECIAL_AMMO_TYPES.every(type => isNumber(value.ammo[type])) &&
+  Array.isArray(value.buildings) && value.buildings.every(isBuilding) &&
+  Array.isArray(value.structures) && value.structures.every(isStructure) &&
+  Array.isArray(value.frames) &&
+  Array.isArray(value.pauses) && value.pauses.every((p: any) => Number.isInteger(p) && p >= 0 && p <= value.frames.length);
+
+const isReplayFrame = (value: any): value is ReplayFrame =>
+  value && typeof value === 'object' &&
+  (value.k === undefined || (Number.isInteger(value.k) && value.k >= 0 && value.k < 1 << CONTROL_KEYS.length)) &&
+  (value.a === undefined || (Array.isArray(value.a) && value.a.length === 2 && value.a.every(isNumber))) &&
+  (value.s === undefined || (Array.isArray(value.s) && value.s.length % 2 === 0 && value.s.every(isNumber))) &&
+  (value.b === undefined || isIndex(value.b, BATTERY_SELECTIONS.length)) &&
+  (value.m === undefined || isIndex(value.m, AMMO_TYPES.length)) &&
+  (value.h === undefined || isIndex(value.h, SHIELD_ABILITIES.length));
+
+export const parseReplay = (json: string): Replay => {
+  const data = JSON.parse(json);
+  if (!data || !SUPPORTED_VERSIONS.includes(data.version)) {
+    throw new ReplayVersionError(typeof data?.version === 'number' && data.version < REPLAY_VERSION
+      ? `Replay version ${data.version} was recorded by an older version of the game and no longer plays back`
+      : `Unsupported replay version: ${data?.version}`);
+  }
+  if (typeof data.seed !== 'number' || !Object.values(Difficulty).includes(data.difficulty) ||
+      (data.fixedStep !== undefined && !(isNumber(data.fixedStep) && data.fixedStep > 0))) {
+    throw new Error('Invalid replay header');
+  }
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    throw new Error('Replay has no levels');
+  }
+  data.levels.forEach((segment: any, i: number) => {
+    if (!isReplayLevel(segment)) throw new Error(`Invalid setup for replay level ${i + 1}`);
+    const bad = segment.frames.findIndex(frame => !isReplayFrame(frame));
+    if (bad !== -1) throw new Error(`Invalid frame ${bad} in replay level ${i + 1}`);
+  });
+  return data as Replay;
+};
@@ -0,0 +1,65 @@
+import { ShieldAbility, ShieldAbilityState } from '../types';
+
+// Active uses of the shield generators. Each one is paid for with energy drawn
+// from every working generator, then goes on cooldown; stronger generators
+// unlock more of them. What they do in play lives in gameEngine.ts.
+
+export interface ShieldAbilityDefinition {
+  type: ShieldAbility;
+  hotkey: string; // KeyboardEvent.code
+  minLevel: number; // level of the best standing generator needed to use it
+  energyCost: number; // shared between the working generators by how much each holds
+  cooldown: number; // seconds
+  duration: number; // seconds the effect stays up
+  color: string;
+  radius?: number; // px, the projected emitter's dome
+  radiusMultiplier?: number; // of each generator's shield radius, the pulse's reach
+  domeHeight?: number; // px above the ground the city-wide dome reaches
+}
+
+export const SHIELD_ABILITY_DEFINITIONS: Record<ShieldAbility, ShieldAbilityDefinition> = {
+  // Blast wave from every generator that destroys the enemies around it
+  [ShieldAbility.PULSE]: {
+    type: ShieldAbility.PULSE,
+    hotkey: 'KeyZ',
+    minLevel: 1,
+    energyCost: 60,
+    cooldown: 12,
+    duration: 0.5,
+    color: '#67e8f9', // Cyan 300
+    radiusMultiplier: 1.5
+  },
+  // Bubble projected at the crosshair, moved there again by a second press
+  [ShieldAbility.EMITTER]: {
+    type: ShieldAbility.EMITTER,
+    hotkey: 'KeyX',
+    minLevel: 2,
+    energyCost: 80,
+    cooldown: 15,
+    duration: 8,
+    color: '#a5b4fc', // Indigo 300
+    radius: 90
+  },
+  // Short dome over the whole city that takes hits for free
+  [ShieldAbility.DOME]: {
+    type: ShieldAbility.DOME,
+    hotkey: 'KeyC',
+    minLevel: 3,
+    energyCost: 150,
+    cooldown: 30,
+    duration: 4,
+    color: '#93c5fd', // Blue 300
+    domeHeight: 220
+  }
+};
+
+export const getShieldAbilityDefinition = (type: ShieldAbility) => SHIELD_ABILITY_DEFINITIONS[type];
+
+// Hotkey and HUD order
+export const SHIELD_ABILITIES = Object.keys(SHIELD_ABILITY_DEFINITIONS) as ShieldAbility[];
+
+export const createShieldAbilities = (): Record<ShieldAbility, ShieldAbilityState> => ({
+  [ShieldAbility.PULSE]: { readyAt: 0, activeUntil: 0 },
+  [ShieldAbility.EMITTER]: { readyAt: 0, activeUntil: 0 },
+  [ShieldAbility.DOME]: { readyAt: 0, activeUntil: 0 }
+});
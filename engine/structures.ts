@@ -0,0 +1,199 @@
+import { Building, Structure, StructureType, TurretPriority, UpgradeStats } from '../types';
+import { UPGRADE_DEFINITIONS, UpgradeId } from './upgrades';
+
+// Ground defenses. Between levels the player builds them on the slots between
+// buildings and upgrades each one on its own, up to the level researched in
+// the tech tree. Enemy impacts damage them like buildings, and whatever is
+// left standing carries over to the next level with the city.
+
+export interface StructureDefinition {
+  type: StructureType;
+  width: number;
+  height: number;
+  health: number;
+  research: UpgradeId; // tech tree node that unlocks the type; its level caps every instance
+  maxLevel: number;
+  buildCost: number;
+  upgradeCost: number; // per level already owned
+  color: string;
+}
+
+export const STRUCTURE_DEFINITIONS: Record<StructureType, StructureDefinition> = {
+  [StructureType.TURRET]: {
+    type: StructureType.TURRET,
+    width: 24,
+    height: 18,
+    health: 80,
+    research: 'turretLevel',
+    maxLevel: 8,
+    buildCost: 800,
+    upgradeCost: 300,
+    color: '#4c1d95' // Violet 900
+  },
+  [StructureType.RADAR]: {
+    type: StructureType.RADAR,
+    width: 18,
+    height: 26,
+    health: 60,
+    research: 'targetingLevel',
+    maxLevel: 3,
+    buildCost: 600,
+    upgradeCost: 400,
+    color: '#0f766e' // Teal 700
+  },
+  [StructureType.SHIELD_GENERATOR]: {
+    type: StructureType.SHIELD_GENERATOR,
+    width: 26,
+    height: 16,
+    health: 100,
+    research: 'shieldLevel',
+    maxLevel: 5,
+    buildCost: 1000,
+    upgradeCost: 500,
+    color: '#1e40af' // Blue 800
+  }
+};
+
+export const getStructureDefinition = (type: StructureType) => STRUCTURE_DEFINITIONS[type];
+
+export const STRUCTURE_TYPES = Object.keys(STRUCTURE_DEFINITIONS) as StructureType[];
+
+// Research a structure type needs, prerequisites included
+const getResearchPath = (id: UpgradeId): UpgradeId[] =>
+  [id, ...UPGRADE_DEFINITIONS[id].requires.flatMap(r => getResearchPath(r.id))];
+
+/**
+ * Whether one campaign can research every structure type at once, i.e. no two
+ * upgrades they depend on sit in the same exclusive group.
+ */
+export const canFieldAllStructureTypes = () => {
+  const needed = new Set(STRUCTURE_TYPES.flatMap(type => getResearchPath(STRUCTURE_DEFINITIONS[type].research)));
+  const groups = [...needed].map(id => UPGRADE_DEFINITIONS[id].exclusiveGroup).filter(group => group !== undefined);
+  return new Set(groups).size === groups.length;
+};
+
+// The build phase offers every type side by side; catch a tech tree that breaks that as soon as it loads
+if (!canFieldAllStructureTypes()) throw new Error('Structure research is split across an exclusive upgrade group');
+
+export const TURRET_PRIORITIES: TurretPriority[] = ['nearest', 'dangerous', 'lowest', 'valuable', 'lead'];
+
+export const SHIELD_RADIUS = 180;
+const BATTERY_CLEARANCE = 30; // slots this close to the centre battery can't be built on
+const REPAIR_COST_PER_HEALTH = 2;
+const SELL_RATE = 0.5;
+
+// --- Per-level stats ---
+
+export const getTurretCooldown = (level: number) => Math.max(200, 1000 - (level * 100)); // ms, 0.9s at level 1 -> 0.2s
+export const getTurretRange = (level: number) => 300 + (level * 25);
+export const getRadarRange = (level: number) => 200 + (level * 100); // turrets inside it reach further
+export const getRadarBonus = (level: number) => level * 60;
+export const getShieldMaxEnergy = (level: number) => level * 100;
+export const getShieldRechargeRate = (level: number) => 3 + (level * 2); // energy per second, before the power plant's share
+export const getShieldOverloadTime = (level: number) => Math.max(3, 8 - level); // seconds a drained shield stays down
+
+/** The shield shrinks a little as it drains. */
+export const getShieldRadius = (generator: Structure) =>
+  SHIELD_RADIUS * (0.9 + (0.1 * generator.energy / getShieldMaxEnergy(generator.level)));
+
+// --- Ground slots ---
+
+export interface GroundSlot {
+  index: number;
+  x: number;
+}
+
+/** Free ground between neighbouring buildings, except where the centre battery stands. */
+export const getGroundSlots = (buildings: Building[], width: number): GroundSlot[] => {
+  const sorted = [...buildings].sort((a, b) => a.x - b.x);
+  const slots: GroundSlot[] = [];
+  for (let i = 0; i + 1 < sorted.length; i++) {
+    const x = (sorted[i].x + sorted[i].width + sorted[i + 1].x) / 2;
+    if (Math.abs(x - width / 2) >= BATTERY_CLEARANCE) slots.push({ index: i, x });
+  }
+  return slots;
+};
+
+/** Moves every structure onto its slot of the current city layout. */
+export const positionStructures = (structures: Structure[], buildings: Building[], width: number): Structure[] => {
+  const sorted = [...buildings].sort((a, b) => a.x - b.x);
+  return structures.map(s => {
+    const left = sorted[s.slot];
+    const right = sorted[s.slot + 1];
+    return left && right ? { ...s, x: (left.x + left.width + right.x) / 2 } : { ...s };
+  });
+};
+
+/** Fresh runtime state for a new level: full shields and turrets ready to fire. */
+export const resetStructure = (structure: Structure): Structure => ({
+  ...structure,
+  energy: structure.isDestroyed || structure.type !== StructureType.SHIELD_GENERATOR ? 0 : getShieldMaxEnergy(structure.level),
+  hitTime: -Infinity,
+  overloadUntil: 0,
+  nextFireTime: 0
+});
+
+export const createStructure = (id: number, type: StructureType, slot: GroundSlot): Structure => {
+  const { health } = STRUCTURE_DEFINITIONS[type];
+  return resetStructure({
+    id,
+    type,
+    slot: slot.index,
+    x: slot.x,
+    level: 1,
+    priority: 'nearest',
+    health,
+    maxHealth: health,
+    isDestroyed: false,
+    energy: 0,
+    hitTime: -Infinity,
+    overloadUntil: 0,
+    nextFireTime: 0
+  });
+};
+
+// --- Armory ---
+
+/** Highest level the research allows for instances of `type`, 0 = can't be built yet. */
+export const getStructureCap = (upgrades: UpgradeStats, type: StructureType) => {
+  const { research, maxLevel } = STRUCTURE_DEFINITIONS[type];
+  return Math.min(maxLevel, upgrades[research]);
+};
+
+export const getStructureUpgradeCost = (structure: Structure) =>
+  STRUCTURE_DEFINITIONS[structure.type].upgradeCost * structure.level;
+
+/** Credits to patch a structure up, or to rebuild it at its level if it fell. */
+export const getStructureRepairCost = (structure: Structure) => {
+  if (structure.isDestroyed) return Math.round(STRUCTURE_DEFINITIONS[structure.type].buildCost / 2);
+  return Math.ceil((structure.maxHealth - structure.health) * REPAIR_COST_PER_HEALTH);
+};
+
+/** Credits back for tearing a structure down: half of what it cost to build and upgrade. */
+export const getStructureSellValue = (structure: Structure) => {
+  const { buildCost, upgradeCost } = STRUCTURE_DEFINITIONS[structure.type];
+  const upgrades = upgradeCost * (structure.level * (structure.level - 1)) / 2;
+  return Math.floor((buildCost + upgrades) * SELL_RATE);
+};
+
+/**
+ * The defenses left after research is sold: levels above the new cap are lost,
+ * and structures that can no longer be built at all are torn down for their
+ * sell value.
+ */
+export const fitStructuresToResearch = (structures: Structure[], upgrades: UpgradeStats) => {
+  let refund = 0;
+  const kept: Structure[] = [];
+  for (const s of structures) {
+    const cap = getStructureCap(upgrades, s.type);
+    if (cap === 0) refund += getStructureSellValue(s);
+    else kept.push(s.level > cap ? { ...s, level: cap } : s);
+  }
+  return { structures: kept, refund };
+};
+
+export const repairStructure = (structure: Structure): Structure => ({
+  ...structure,
+  health: structure.maxHealth,
+  isDestroyed: false
+});
@@ -0,0 +1,167 @@
+import { UpgradeStats } from '../types';
+
+// The armory's tech tree. Each upgrade has its own cost curve and cap, may
+// need other upgrades first, and may belong to an exclusive group where owning
+// one member locks the others until a respec. The engine only ever sees the
+// resulting UpgradeStats levels.
+
+export type UpgradeId = keyof UpgradeStats;
+
+export type UpgradeBranch = 'interceptors' | 'warheads' | 'launchers' | 'defense';
+
+export interface UpgradeRequirement {
+  id: UpgradeId;
+  level: number;
+}
+
+export interface UpgradeDefinition {
+  id: UpgradeId;
+  branch: UpgradeBranch;
+  tier: number; // row in the tree view, 0 = root
+  maxLevel: number;
+  baseCost: number; // cost of the first level
+  costGrowth: number; // each level costs this much more than the one before
+  requires: UpgradeRequirement[];
+  exclusiveGroup?: string; // only one member of the group can be owned at a time
+}
+
+export const REFUND_RATE = 0.75;
+
+export const UPGRADE_BRANCHES: UpgradeBranch[] = ['interceptors', 'warheads', 'launchers', 'defense'];
+
+// Listed root first within each branch
+export const UPGRADE_DEFINITIONS: Record<UpgradeId, UpgradeDefinition> = {
+  speedLevel: {
+    id: 'speedLevel',
+    branch: 'interceptors',
+    tier: 0,
+    maxLevel: 5,
+    baseCost: 500,
+    costGrowth: 1.4,
+    requires: []
+  },
+  targetingLevel: {
+    id: 'targetingLevel',
+    branch: 'interceptors',
+    tier: 1,
+    maxLevel: 3,
+    baseCost: 600,
+    costGrowth: 1.5,
+    requires: [{ id: 'speedLevel', level: 1 }]
+  },
+  guidanceLevel: {
+    id: 'guidanceLevel',
+    branch: 'interceptors',
+    tier: 2,
+    maxLevel: 3,
+    baseCost: 1200,
+    costGrowth: 1.6,
+    requires: [{ id: 'targetingLevel', level: 2 }],
+    exclusiveGroup: 'nearMiss'
+  },
+  radiusLevel: {
+    id: 'radiusLevel',
+    branch: 'warheads',
+    tier: 0,
+    maxLevel: 5,
+    baseCost: 500,
+    costGrowth: 1.4,
+    requires: []
+  },
+  proximityLevel: {
+    id: 'proximityLevel',
+    branch: 'warheads',
+    tier: 1,
+    maxLevel: 3,
+    baseCost: 1200,
+    costGrowth: 1.6,
+    requires: [{ id: 'radiusLevel', level: 2 }],
+    exclusiveGroup: 'nearMiss'
+  },
+  rateLevel: {
+    id: 'rateLevel',
+    branch: 'launchers',
+    tier: 0,
+    maxLevel: 8, // 100ms cooldown floor
+    baseCost: 400,
+    costGrowth: 1.35,
+    requires: []
+  },
+  turretLevel: {
+    id: 'turretLevel',
+    branch: 'launchers',
+    tier: 1,
+    maxLevel: 8, // 200ms cooldown floor
+    baseCost: 1000,
+    costGrowth: 1.4,
+    requires: [{ id: 'rateLevel', level: 2 }]
+  },
+  shieldLevel: {
+    id: 'shieldLevel',
+    branch: 'defense',
+    tier: 0,
+    maxLevel: 5,
+    baseCost: 1000,
+    costGrowth: 1.5,
+    requires: []
+  }
+};
+
+export const UPGRADE_IDS = Object.keys(UPGRADE_DEFINITIONS) as UpgradeId[];
+
+export const createUpgradeStats = (): UpgradeStats => ({
+  speedLevel: 0,
+  radiusLevel: 0,
+  rateLevel: 0,
+  turretLevel: 0,
+  shieldLevel: 0,
+  targetingLevel: 0,
+  guidanceLevel: 0,
+  proximityLevel: 0
+});
+
+/** Price of the level after `currentLevel`, rounded to 50 credits. */
+export const getUpgradeCost = (id: UpgradeId, currentLevel: number) => {
+  const { baseCost, costGrowth } = UPGRADE_DEFINITIONS[id];
+  return Math.round(baseCost * Math.pow(costGrowth, currentLevel) / 50) * 50;
+};
+
+/** Credits back for selling the top level. */
+export const getRefundValue = (id: UpgradeId, currentLevel: number) =>
+  currentLevel > 0 ? Math.floor(getUpgradeCost(id, currentLevel - 1) * REFUND_RATE) : 0;
+
+/** Credits back for selling every level of every upgrade. */
+export const getRespecValue = (upgrades: UpgradeStats) =>
+  UPGRADE_IDS.reduce((sum, id) => {
+    let value = 0;
+    for (let level = upgrades[id]; level > 0; level--) value += getRefundValue(id, level);
+    return sum + value;
+  }, 0);
+
+// Owned members of the same exclusive group
+const getRivals = (upgrades: UpgradeStats, id: UpgradeId) => {
+  const group = UPGRADE_DEFINITIONS[id].exclusiveGroup;
+  return group ? UPGRADE_IDS.filter(other => other !== id && UPGRADE_DEFINITIONS[other].exclusiveGroup === group && upgrades[other] > 0) : [];
+};
+
+export type UpgradeLock =
+  | { reason: 'maxed' }
+  | { reason: 'requires'; requirement: UpgradeRequirement }
+  | { reason: 'exclusive'; rival: UpgradeId };
+
+/** Why the next level can't be bought, or null if only credits stand in the way. */
+export const getUpgradeLock = (upgrades: UpgradeStats, id: UpgradeId): UpgradeLock | null => {
+  const def = UPGRADE_DEFINITIONS[id];
+  if (upgrades[id] >= def.maxLevel) return { reason: 'maxed' };
+  const missing = def.requires.find(r => upgrades[r.id] < r.level);
+  if (missing) return { reason: 'requires', requirement: missing };
+  const [rival] = getRivals(upgrades, id);
+  if (rival) return { reason: 'exclusive', rival };
+  return null;
+};
+
+/** Selling the top level is allowed unless another owned upgrade needs it. */
+export const canRefund = (upgrades: UpgradeStats, id: UpgradeId) =>
+  upgrades[id] > 0 &&
+  !UPGRADE_IDS.some(other => upgrades[other] > 0 &&
+    UPGRADE_DEFINITIONS[other].requires.some(r => r.id === id && r.level >= upgrades[id]));
@@ -0,0 +1,51 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Locale } from '../types';
+import { MessageKey } from './he';
+import { LOCALES, MessageParams, formatNumber, loadLocale, saveLocale, translate } from './locales';
+
+interface I18nValue {
+  locale: Locale;
+  dir: 'rtl' | 'ltr';
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number) => string;
+  formatDate: (iso: string) => string;
+  formatDateTime: (iso: string) => string;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => loadLocale());
+  const { dir } = LOCALES[locale];
+
+  // Keep the document in step so the whole layout flips with the language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+    document.title = translate(locale, 'app.documentTitle');
+  }, [locale, dir]);
+
+  const setLocale = (next: Locale) => {
+    setLocaleState(next);
+    saveLocale(next);
+  };
+
+  const value: I18nValue = {
+    locale,
+    dir,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatNumber: (n) => formatNumber(locale, n),
+    formatDate: (iso) => new Date(iso).toLocaleDateString(locale),
+    formatDateTime: (iso) => new Date(iso).toLocaleString(locale)
+  };
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error("useI18n must be used inside I18nProvider");
+  return value;
+};
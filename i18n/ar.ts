@@ -0,0 +1,285 @@
+import { Messages } from './he';
+
+export const ar: Messages = {
+  'app.title': 'حراس المدينة',
+  'app.subtitle': 'منظومة دفاع جوي متقدمة',
+  'app.documentTitle': 'حراس المدينة - لعبة دفاع جوي',
+
+  'difficulty.EASY': 'سهل',
+  'difficulty.MEDIUM': 'عادي',
+  'difficulty.HARD': 'صعب',
+
+  'menu.highScore': 'أعلى نتيجة: {score}',
+  'menu.playerName': 'اسم اللاعب',
+  'menu.records': 'الأرقام القياسية',
+  'menu.start': 'ابدأ المهمة',
+  'menu.continue': 'متابعة (المرحلة {level})',
+  'menu.load': 'تحميل',
+  'menu.watchLast': 'شاهد آخر لعبة',
+  'menu.loadReplay': 'تحميل تسجيل',
+  'menu.newsSource': 'مصدر النشرات الإخبارية',
+  'menu.editor': 'محرر المراحل',
+  'menu.feedback': 'إرسال ملاحظات',
+  'menu.mute': 'كتم الصوت',
+  'menu.unmute': 'إلغاء كتم الصوت',
+
+  'pause.title': 'اللعبة متوقفة',
+  'pause.resume': 'متابعة',
+  'pause.quit': 'العودة إلى القائمة',
+  'pause.seed': 'البذرة {seed}',
+
+  'shop.levelComplete': 'اكتملت المرحلة',
+  'shop.buildingsLeft': 'المباني المتبقية',
+  'shop.bossReward': 'تم تدمير السفينة الأم',
+  'shop.title': 'مستودع الأسلحة',
+  'shop.saveName': 'اسم الحفظ',
+  'shop.save': 'حفظ اللعبة',
+  'shop.saved': 'تم الحفظ: {name}',
+  'shop.defaultSaveName': 'المرحلة {level}',
+  'shop.next': 'إلى المرحلة التالية',
+
+  'upgrade.speed': 'سرعة الاعتراض',
+  'upgrade.radius': 'الرأس الحربي',
+  'upgrade.rate': 'معدل الإطلاق',
+  'upgrade.targeting': 'منظومة التوجيه',
+  'upgrade.turret': 'برج آلي',
+  'upgrade.shield': 'درع طاقة',
+  'upgrade.guidance': 'اعتراض موجَّه',
+  'upgrade.proximity': 'صمام تقاربي',
+  'upgrade.notOwned': 'غير مشترى',
+  'upgrade.buy': 'شراء ({cost})',
+  'upgrade.upgrade': 'ترقية ({cost})',
+  'upgrade.levelOf': 'المستوى {level}/{max}',
+  'upgrade.maxed': 'في أعلى مستوى',
+  'upgrade.requires': 'يتطلب {name} بالمستوى {level}',
+  'upgrade.exclusive': 'مقفل: تم اختيار {name}',
+  'upgrade.exclusiveHint': 'أحدهما فقط: الاعتراض الموجَّه أو الصمام التقاربي',
+  'upgrade.refund': 'بيع (+{value})',
+  'upgrade.respec': 'إعادة ضبط كل الترقيات (+{value})',
+  'upgrade.branch.interceptors': 'الصواريخ الاعتراضية',
+  'upgrade.branch.warheads': 'الرؤوس الحربية',
+  'upgrade.branch.launchers': 'المنصات',
+  'upgrade.branch.defense': 'الدفاع',
+
+  'repair.title': 'ترميم المدينة',
+  'repair.repair': 'ترميم ({cost})',
+  'repair.rebuild': 'إعادة بناء ({cost})',
+  'repair.needsHospital': 'لا يوجد مستشفى قائم - يمكن إعادة بناء المستشفى فقط',
+  'building.RESIDENTIAL': 'مبانٍ سكنية',
+  'building.HOSPITAL': 'مستشفى',
+  'building.POWER_PLANT': 'محطة كهرباء',
+  'building.COMMAND_CENTER': 'مركز قيادة',
+  'building.effect.repairs': 'يتيح الترميم',
+  'building.effect.shieldRecharge': 'يشحن الدرع',
+  'building.effect.ammoResupply': 'يزوّد المنصات بالذخيرة',
+  'damage.intact': 'سليم',
+  'damage.cracked': 'متصدّع',
+  'damage.burning': 'يحترق',
+  'damage.smoking': 'متضرر بشدة',
+  'damage.destroyed': 'مدمّر',
+
+  'defense.title': 'الدفاعات الأرضية',
+  'defense.noSlots': 'لا توجد أرض فارغة بين المباني',
+  'defense.pickSlot': 'اختر موقعًا بين المباني لبناء منشأة أو إدارتها',
+  'defense.emptySlot': 'موقع فارغ',
+  'defense.build': 'بناء ({cost})',
+  'defense.needsResearch': 'يتطلب بحث: {name}',
+  'defense.researchCap': 'طوّر {name} في شجرة التقنيات للمتابعة',
+  'defense.sell': 'تفكيك (+{value})',
+  'defense.priority': 'الهدف:',
+  'structure.TURRET': 'برج آلي',
+  'structure.RADAR': 'محطة رادار',
+  'structure.SHIELD_GENERATOR': 'مولّد درع',
+  'structure.description.TURRET': 'يطلق النار على الأعداء في مداه',
+  'structure.description.RADAR': 'يزيد مدى الأبراج القريبة',
+  'structure.description.SHIELD_GENERATOR': 'قبة درع فوق محيطه',
+  'priority.nearest': 'الأقرب',
+  'priority.dangerous': 'الأخطر',
+  'priority.lowest': 'الأدنى',
+  'priority.valuable': 'الأثمن',
+  'priority.lead': 'أسرع اعتراض',
+  'priority.description.nearest': 'يطلق على العدو الأقرب إلى البرج',
+  'priority.description.dangerous': 'يطلق أولًا على ما سيصيب مبنى قائمًا',
+  'priority.description.lowest': 'يطلق على العدو الأقرب إلى الأرض',
+  'priority.description.valuable': 'يطلق على العدو الذي يساوي أكثر النقاط',
+  'priority.description.lead': 'يطلق على العدو الذي يمكن اعتراضه أسرع',
+  'shieldAbility.PULSE': 'نبضة',
+  'shieldAbility.EMITTER': 'باعث',
+  'shieldAbility.DOME': 'قبة',
+
+  'ammo.title': 'ذخيرة خاصة',
+  'ammo.STANDARD': 'عادية',
+  'ammo.HEAT_SEEKING': 'باحث عن الحرارة',
+  'ammo.CLUSTER': 'عنقودية',
+  'ammo.FLAK': 'مضاد طائرات',
+  'ammo.EMP': 'EMP',
+  'ammo.description.HEAT_SEEKING': 'يتتبع العدو الأقرب إلى نقطة التصويب',
+  'ammo.description.CLUSTER': 'تنقسم إلى حلقة من الانفجارات الصغيرة',
+  'ammo.description.FLAK': 'انفجار واسع لكنه ضعيف',
+  'ammo.description.EMP': 'يبطئ الأعداء في نطاقه دون إيذائهم',
+  'ammo.stock': '{stock}/{max}',
+  'ammo.buy': '+{count} ({cost})',
+
+  'gameOver.title': 'سقطت المدينة',
+  'gameOver.subtitle': 'دُمّرت جميع المباني. انتهت المعركة.',
+  'gameOver.reached': 'وصلت إلى المرحلة {level}',
+  'gameOver.retry': 'حاول مجددًا (من البداية)',
+  'gameOver.watchReplay': 'شاهد التسجيل',
+  'gameOver.saveReplay': 'احفظ التسجيل',
+  'gameOver.menu': 'العودة إلى القائمة الرئيسية',
+
+  'errors.history': 'ملف السجل غير صالح',
+  'errors.replay': 'ملف التسجيل غير صالح',
+  'errors.replayVersion': 'تم تسجيل هذا التسجيل بإصدار آخر من اللعبة ولا يمكن عرضه',
+  'errors.level': 'ملف المرحلة غير صالح',
+  'errors.saves': 'تعذّرت قراءة ملف الحفظ - تم تعطيل الحفظ حتى لا يُستبدل',
+
+  'editor.title': 'محرر المراحل',
+  'editor.close': 'إغلاق',
+  'editor.new': 'مرحلة جديدة',
+  'editor.loadCampaign': 'ابدأ من مرحلة في الحملة',
+  'editor.campaignOption': 'المرحلة {level}',
+  'editor.level': 'المرحلة',
+  'editor.name': 'الاسم',
+  'editor.win': 'شرط الفوز',
+  'editor.win.survive': 'الصمود حتى نهاية الوقت',
+  'editor.win.clear': 'تدمير كل الموجات',
+  'editor.clearNeedsWaves': 'مرحلة تدمير كل الموجات تحتاج إلى موجة واحدة على الأقل',
+  'editor.duration': 'المدة (ثوانٍ)',
+  'editor.boss': 'السفينة الأم',
+  'editor.city': 'المدينة',
+  'editor.buildingCount': 'المباني',
+  'editor.buildingWidth': 'العرض',
+  'editor.buildingHeight': 'الارتفاع',
+  'editor.timeline': 'الخط الزمني - انقر لإضافة موجة',
+  'editor.waves': 'الموجات ({count})',
+  'editor.noWaves': 'لا توجد موجات بعد. انقر على الخط الزمني لإضافة واحدة.',
+  'editor.wave': 'موجة عند الثانية {time}',
+  'editor.enemyType': 'العدو',
+  'editor.count': 'العدد',
+  'editor.delay': 'البداية (ثوانٍ)',
+  'editor.interval': 'الفاصل (ثوانٍ)',
+  'editor.spawnFrom': 'الظهور من (%)',
+  'editor.spawnTo': 'الظهور حتى (%)',
+  'editor.target': 'الهدف',
+  'editor.target.random': 'مبنى عشوائي',
+  'editor.target.spread': 'توزيع على المباني',
+  'editor.target.focus': 'مبنى واحد',
+  'editor.target.batteries': 'المنصات',
+  'editor.formation': 'التشكيل',
+  'editor.formation.scatter': 'متفرق',
+  'editor.formation.line': 'صف',
+  'editor.formation.column': 'رتل',
+  'editor.duplicate': 'نسخ',
+  'editor.delete': 'حذف',
+  'editor.playtest': 'جرّب المرحلة',
+  'editor.export': 'تصدير',
+  'editor.import': 'استيراد',
+  'editor.result.LEVEL_COMPLETE': 'تجربة: صمدت المدينة.',
+  'editor.result.GAME_OVER': 'تجربة: سقطت المدينة.',
+
+  'player.anonymous': 'حارس مجهول',
+
+  'hud.score': 'النقاط: {score}',
+  'hud.highScore': 'الأفضل: {score}',
+  'hud.timeLeft': 'الوقت المتبقي: {time}',
+  'hud.wavesLeft': 'الموجات المتبقية: {waves}',
+  'hud.boss': 'السفينة الأم!',
+  'hud.battery': 'البطارية: {battery} (1-3، 0)',
+  'hud.shield': 'درع {level}',
+  'hud.shieldOverload': 'حمل زائد',
+  'hud.abilityActive': 'نشط',
+  'hud.abilityLevel': 'مستوى {level}',
+
+  'battery.nearest': 'الأقرب',
+  'battery.left': 'اليسار',
+  'battery.center': 'الوسط',
+  'battery.right': 'اليمين',
+
+  'replay.header': 'تسجيل · المرحلة {level} · النقاط: {score}',
+  'replay.close': 'إغلاق التسجيل',
+
+  'saves.empty': 'لا توجد ألعاب محفوظة',
+  'saves.autosave': 'حفظ تلقائي',
+  'saves.details': 'المرحلة {level} · {difficulty} · {date}',
+  'saves.load': 'تحميل',
+  'saves.delete': 'حذف',
+
+  'records.title': 'لوحة الأرقام القياسية',
+  'records.close': 'إغلاق',
+  'records.empty': 'لا توجد أرقام قياسية في هذا المستوى بعد',
+  'records.player': 'اللاعب',
+  'records.score': 'النقاط',
+  'records.level': 'المرحلة',
+  'records.buildingsSaved': 'المباني التي أُنقذت',
+  'records.upgrades': 'الترقيات',
+  'records.date': 'التاريخ',
+  'records.history': 'سجل الألعاب',
+  'records.export': 'تصدير',
+  'records.import': 'استيراد',
+  'records.noRuns': 'لا توجد ألعاب سابقة',
+  'records.runSummary': '{date} · المرحلة {level} · {kills} اعتراضات',
+  'records.legacy': 'رقم قديم',
+  'records.legacySummary': 'أفضل نتيجة من إصدار سابق للعبة',
+  'records.unknownDate': 'غير معروف',
+  'records.kills': 'اعتراضات',
+  'records.buildingsLost': 'المباني المصابة',
+  'records.buildingsStanding': 'المباني المتبقية',
+
+  'newsSettings.gemini': 'Gemini',
+  'newsSettings.openai': 'خادم محلي (OpenAI)',
+  'newsSettings.template': 'دون اتصال (قوالب)',
+  'newsSettings.mock': 'اختبار (Mock)',
+  'newsSettings.endpoint': 'عنوان الخادم',
+  'newsSettings.model': 'النموذج',
+  'newsSettings.apiKey': 'مفتاح API',
+  'newsSettings.rememberApiKey': 'تذكّر المفتاح على هذا الجهاز',
+  'newsSettings.timeout': 'مهلة الانتظار (ثوانٍ)',
+  'newsSettings.retries': 'محاولات إضافية',
+
+  'enemy.STANDARD': 'صواريخ عادية',
+  'enemy.FAST': 'صواريخ سريعة',
+  'enemy.HEAVY': 'صواريخ ثقيلة',
+  'enemy.WOBBLY': 'صواريخ متعرجة',
+  'enemy.BULLET': 'قذائف',
+  'enemy.LASER': 'أشعة ليزر',
+  'enemy.BOMB': 'قنابل',
+  'enemy.MIRV': 'صواريخ انشطارية',
+  'enemy.BOMBER': 'قاذفات',
+  'enemy.DRONE': 'طائرات مسيّرة',
+
+  'news.flash': 'خبر عاجل',
+  'news.debrief': 'تقرير القائد',
+  'news.perfect1.headline': 'نصر كامل في الموجة {level}',
+  'news.perfect1.description': 'اعتُرضت جميع التهديدات ولم يُصب أي مبنى. السكان يخرجون إلى الشوارع لتحية طواقم الدفاع.',
+  'news.perfect2.headline': 'سماء المدينة صافية',
+  'news.perfect2.description': 'أنهت منظومة الاعتراض المرحلة {level} دون أي إصابة. جميع المباني الـ{buildingsRemaining} صامدة.',
+  'news.damaged1.headline': 'عاجل: إصابة {buildingsLost} مبانٍ في الموجة {level}',
+  'news.damaged1.description': 'فرق الإنقاذ تعمل في مواقع الإصابة. لا يزال {buildingsRemaining} مبانٍ صامدة والمعركة مستمرة.',
+  'news.damaged2.headline': 'المدينة تتلقى الضربات لكنها صامدة',
+  'news.damaged2.description': 'دُمّر {buildingsLost} مبانٍ في الرشقة الأخيرة. منظومة الدفاع تستعد للموجة التالية مع {buildingsRemaining} مبانٍ متبقية.',
+  'news.crisis1.headline': 'حالة طوارئ: المدينة على حافة الانهيار',
+  'news.crisis1.description': 'لم يبقَ سوى {buildingsRemaining} مبانٍ قائمة. يُطلب من السكان البقاء في الملاجئ حتى إشعار آخر.',
+  'news.crisis2.headline': 'الموجة {level} تترك المدينة أنقاضًا',
+  'news.crisis2.description': 'منظومة الدفاع تتمسك بالخط الأخير. كل اعتراض في الموجة التالية سيحسم مصير المدينة.',
+  'news.fallen1.headline': 'سقطت المدينة',
+  'news.fallen1.description': 'بعد {level} موجات من الهجمات انهار المبنى الأخير. قاتل المدافعون حتى اللحظة الأخيرة.',
+  'news.fallen2.headline': 'يوم حداد في المدينة',
+  'news.fallen2.description': 'دُمّرت آخر {buildingsLost} مبانٍ في الموجة {level}. انتهت معركة المدينة.',
+  'news.debrief.overview': 'انتهت المرحلة {level}. أُصيب {buildingsLost} مبانٍ ولا يزال {buildingsRemaining} صامدة.',
+  'news.debrief.overviewFallen': 'في المرحلة {level} انهارت آخر {buildingsLost} مبانٍ في المدينة.',
+  'news.debrief.threats': 'التهديدات التي اعتُرضت: {list}.',
+  'news.debrief.threatItem': '{count} {name}',
+  'news.debrief.separator': '، ',
+  'news.debrief.noThreats': 'لم يُعترض أي تهديد في هذه الموجة.',
+  'news.debrief.accuracy': 'بلغت دقة الصواريخ الاعتراضية {accuracy}% ({hits} إصابات من أصل {fired} إطلاقات).',
+  'news.debrief.combo': 'وصلت أطول سلسلة تدمير إلى مضاعف x{combo}.',
+  'news.debrief.turret': 'دمّر البرج الآلي {kills} تهديدات.',
+  'news.debrief.shield': 'امتص الدرع {hits} إصابات مباشرة.',
+  'news.debrief.bounty': 'أكسب إسقاط الطائرات المنظومة {credits} رصيدًا إضافيًا.',
+  'news.debrief.boss': 'أُسقطت السفينة الأم وكسبت المنظومة {credits} رصيدًا.',
+  'news.debrief.fallen': 'القائد: "فعلنا كل ما بوسعنا. سنتعلم من هذه المعركة."',
+  'news.debrief.perfect': 'القائد: "أداء مثالي. الطواقم تستحق كل الثناء."',
+  'news.debrief.poor': 'القائد: "أُهدرت إطلاقات كثيرة. يجب تحسين التصويب قبل الموجة التالية."',
+  'news.debrief.steady': 'القائد: "صمدت المنظومة. سنواصل التعزز استعدادًا للموجة التالية."'
+};
@@ -0,0 +1,285 @@
+import { Messages } from './he';
+
+export const en: Messages = {
+  'app.title': 'City Guardians',
+  'app.subtitle': 'Advanced Air Defense System',
+  'app.documentTitle': 'City Guardians - Air Defense Game',
+
+  'difficulty.EASY': 'Easy',
+  'difficulty.MEDIUM': 'Normal',
+  'difficulty.HARD': 'Hard',
+
+  'menu.highScore': 'High score: {score}',
+  'menu.playerName': 'Player name',
+  'menu.records': 'Records',
+  'menu.start': 'Start Mission',
+  'menu.continue': 'Continue (level {level})',
+  'menu.load': 'Load',
+  'menu.watchLast': 'Watch last game',
+  'menu.loadReplay': 'Load replay',
+  'menu.newsSource': 'News flash source',
+  'menu.editor': 'Level editor',
+  'menu.feedback': 'Send Feedback',
+  'menu.mute': 'Mute',
+  'menu.unmute': 'Unmute',
+
+  'pause.title': 'Paused',
+  'pause.resume': 'Resume',
+  'pause.quit': 'Back to menu',
+  'pause.seed': 'seed {seed}',
+
+  'shop.levelComplete': 'Level complete',
+  'shop.buildingsLeft': 'Buildings left',
+  'shop.bossReward': 'Mothership destroyed',
+  'shop.title': 'Armory',
+  'shop.saveName': 'Save name',
+  'shop.save': 'Save game',
+  'shop.saved': 'Saved: {name}',
+  'shop.defaultSaveName': 'Level {level}',
+  'shop.next': 'Next level',
+
+  'upgrade.speed': 'Interceptor speed',
+  'upgrade.radius': 'Warhead',
+  'upgrade.rate': 'Rate of fire',
+  'upgrade.targeting': 'Targeting system',
+  'upgrade.turret': 'Auto turret',
+  'upgrade.shield': 'Energy shield',
+  'upgrade.guidance': 'Guided interceptors',
+  'upgrade.proximity': 'Proximity fuse',
+  'upgrade.notOwned': 'Not owned',
+  'upgrade.buy': 'Buy ({cost})',
+  'upgrade.upgrade': 'Upgrade ({cost})',
+  'upgrade.levelOf': 'Level {level}/{max}',
+  'upgrade.maxed': 'Fully upgraded',
+  'upgrade.requires': 'Requires {name} level {level}',
+  'upgrade.exclusive': 'Locked: {name} was chosen',
+  'upgrade.exclusiveHint': 'Either/or: guided interceptors or proximity fuse',
+  'upgrade.refund': 'Sell (+{value})',
+  'upgrade.respec': 'Reset all upgrades (+{value})',
+  'upgrade.branch.interceptors': 'Interceptors',
+  'upgrade.branch.warheads': 'Warheads',
+  'upgrade.branch.launchers': 'Launchers',
+  'upgrade.branch.defense': 'Defense',
+
+  'repair.title': 'City repairs',
+  'repair.repair': 'Repair ({cost})',
+  'repair.rebuild': 'Rebuild ({cost})',
+  'repair.needsHospital': 'No hospital standing - only the hospital itself can be rebuilt',
+  'building.RESIDENTIAL': 'Homes',
+  'building.HOSPITAL': 'Hospital',
+  'building.POWER_PLANT': 'Power plant',
+  'building.COMMAND_CENTER': 'Command center',
+  'building.effect.repairs': 'Enables repairs',
+  'building.effect.shieldRecharge': 'Recharges the shield',
+  'building.effect.ammoResupply': 'Resupplies the launchers',
+  'damage.intact': 'Intact',
+  'damage.cracked': 'Cracked',
+  'damage.burning': 'On fire',
+  'damage.smoking': 'Badly damaged',
+  'damage.destroyed': 'Destroyed',
+
+  'defense.title': 'Ground defenses',
+  'defense.noSlots': 'No free ground between the buildings',
+  'defense.pickSlot': 'Pick a slot between the buildings to build or manage a structure',
+  'defense.emptySlot': 'Empty slot',
+  'defense.build': 'Build ({cost})',
+  'defense.needsResearch': 'Needs research: {name}',
+  'defense.researchCap': 'Research more {name} in the tech tree to go further',
+  'defense.sell': 'Sell (+{value})',
+  'defense.priority': 'Target:',
+  'structure.TURRET': 'Auto turret',
+  'structure.RADAR': 'Radar site',
+  'structure.SHIELD_GENERATOR': 'Shield generator',
+  'structure.description.TURRET': 'Shoots enemies in range',
+  'structure.description.RADAR': 'Extends the range of nearby turrets',
+  'structure.description.SHIELD_GENERATOR': 'Shield dome over its surroundings',
+  'priority.nearest': 'Nearest',
+  'priority.dangerous': 'Most dangerous',
+  'priority.lowest': 'Lowest',
+  'priority.valuable': 'Most valuable',
+  'priority.lead': 'Fastest intercept',
+  'priority.description.nearest': 'Shoots the enemy closest to the turret',
+  'priority.description.dangerous': 'Shoots whatever would hit a standing building first',
+  'priority.description.lowest': 'Shoots the enemy closest to the ground',
+  'priority.description.valuable': 'Shoots the enemy worth the most score',
+  'priority.description.lead': 'Shoots the enemy it can intercept soonest',
+  'shieldAbility.PULSE': 'Pulse',
+  'shieldAbility.EMITTER': 'Emitter',
+  'shieldAbility.DOME': 'Dome',
+
+  'ammo.title': 'Special ammo',
+  'ammo.STANDARD': 'Standard',
+  'ammo.HEAT_SEEKING': 'Heat-seeking',
+  'ammo.CLUSTER': 'Cluster',
+  'ammo.FLAK': 'Flak',
+  'ammo.EMP': 'EMP',
+  'ammo.description.HEAT_SEEKING': 'Locks onto the enemy nearest the aim point',
+  'ammo.description.CLUSTER': 'Splits into a ring of small blasts',
+  'ammo.description.FLAK': 'Wide but weak burst',
+  'ammo.description.EMP': 'Slows enemies in the blast without harming them',
+  'ammo.stock': '{stock}/{max}',
+  'ammo.buy': '+{count} ({cost})',
+
+  'gameOver.title': 'The City Has Fallen',
+  'gameOver.subtitle': 'Every building was destroyed. The campaign is over.',
+  'gameOver.reached': 'You reached level {level}',
+  'gameOver.retry': 'Try again (start over)',
+  'gameOver.watchReplay': 'Watch replay',
+  'gameOver.saveReplay': 'Save replay',
+  'gameOver.menu': 'Back to main menu',
+
+  'errors.history': 'The history file is not valid',
+  'errors.replay': 'The replay file is not valid',
+  'errors.replayVersion': 'This replay was recorded by a different version of the game and can no longer be played',
+  'errors.level': 'The level file is invalid',
+  'errors.saves': 'The save file could not be read - saving is disabled so it is not overwritten',
+
+  'editor.title': 'Level editor',
+  'editor.close': 'Close',
+  'editor.new': 'New level',
+  'editor.loadCampaign': 'Start from a campaign level',
+  'editor.campaignOption': 'Level {level}',
+  'editor.level': 'Level',
+  'editor.name': 'Name',
+  'editor.win': 'Win condition',
+  'editor.win.survive': 'Survive until the timer ends',
+  'editor.win.clear': 'Destroy every wave',
+  'editor.clearNeedsWaves': 'A destroy-every-wave level needs at least one wave',
+  'editor.duration': 'Duration (s)',
+  'editor.boss': 'Mothership',
+  'editor.city': 'City',
+  'editor.buildingCount': 'Buildings',
+  'editor.buildingWidth': 'Width',
+  'editor.buildingHeight': 'Height',
+  'editor.timeline': 'Timeline - click to add a wave',
+  'editor.waves': 'Waves ({count})',
+  'editor.noWaves': 'No waves yet. Click the timeline to add one.',
+  'editor.wave': 'Wave at {time}s',
+  'editor.enemyType': 'Enemy',
+  'editor.count': 'Count',
+  'editor.delay': 'Start (s)',
+  'editor.interval': 'Spacing (s)',
+  'editor.spawnFrom': 'Spawn from (%)',
+  'editor.spawnTo': 'Spawn to (%)',
+  'editor.target': 'Target',
+  'editor.target.random': 'Random building',
+  'editor.target.spread': 'Spread across buildings',
+  'editor.target.focus': 'One building',
+  'editor.target.batteries': 'Launchers',
+  'editor.formation': 'Formation',
+  'editor.formation.scatter': 'Scatter',
+  'editor.formation.line': 'Line',
+  'editor.formation.column': 'Column',
+  'editor.duplicate': 'Duplicate',
+  'editor.delete': 'Delete',
+  'editor.playtest': 'Playtest',
+  'editor.export': 'Export',
+  'editor.import': 'Import',
+  'editor.result.LEVEL_COMPLETE': 'Playtest: the city held.',
+  'editor.result.GAME_OVER': 'Playtest: the city fell.',
+
+  'player.anonymous': 'Unknown Guardian',
+
+  'hud.score': 'Score: {score}',
+  'hud.highScore': 'Best: {score}',
+  'hud.timeLeft': 'Time left: {time}',
+  'hud.wavesLeft': 'Waves left: {waves}',
+  'hud.boss': 'MOTHERSHIP',
+  'hud.battery': 'Battery: {battery} (1-3, 0)',
+  'hud.shield': 'Shield {level}',
+  'hud.shieldOverload': 'Overload',
+  'hud.abilityActive': 'Active',
+  'hud.abilityLevel': 'Level {level}',
+
+  'battery.nearest': 'nearest',
+  'battery.left': 'left',
+  'battery.center': 'center',
+  'battery.right': 'right',
+
+  'replay.header': 'Replay · level {level} · score: {score}',
+  'replay.close': 'Close replay',
+
+  'saves.empty': 'No saved games',
+  'saves.autosave': 'Autosave',
+  'saves.details': 'Level {level} · {difficulty} · {date}',
+  'saves.load': 'Load',
+  'saves.delete': 'Delete',
+
+  'records.title': 'Leaderboard',
+  'records.close': 'Close',
+  'records.empty': 'No records at this difficulty yet',
+  'records.player': 'Player',
+  'records.score': 'Score',
+  'records.level': 'Level',
+  'records.buildingsSaved': 'Buildings saved',
+  'records.upgrades': 'Upgrades',
+  'records.date': 'Date',
+  'records.history': 'Game history',
+  'records.export': 'Export',
+  'records.import': 'Import',
+  'records.noRuns': 'No previous games',
+  'records.runSummary': '{date} · level {level} · {kills} interceptions',
+  'records.legacy': 'legacy',
+  'records.legacySummary': 'Best score from an earlier version of the game',
+  'records.unknownDate': 'Unknown',
+  'records.kills': 'Interceptions',
+  'records.buildingsLost': 'Buildings hit',
+  'records.buildingsStanding': 'Buildings left',
+
+  'newsSettings.gemini': 'Gemini',
+  'newsSettings.openai': 'Local server (OpenAI)',
+  'newsSettings.template': 'Offline (templates)',
+  'newsSettings.mock': 'Testing (Mock)',
+  'newsSettings.endpoint': 'Server URL',
+  'newsSettings.model': 'Model',
+  'newsSettings.apiKey': 'API key',
+  'newsSettings.rememberApiKey': 'Remember the key on this device',
+  'newsSettings.timeout': 'Timeout (seconds)',
+  'newsSettings.retries': 'Retries',
+
+  'enemy.STANDARD': 'standard missiles',
+  'enemy.FAST': 'fast missiles',
+  'enemy.HEAVY': 'heavy missiles',
+  'enemy.WOBBLY': 'weaving missiles',
+  'enemy.BULLET': 'bullets',
+  'enemy.LASER': 'laser beams',
+  'enemy.BOMB': 'bombs',
+  'enemy.MIRV': 'MIRV carriers',
+  'enemy.BOMBER': 'bombers',
+  'enemy.DRONE': 'drones',
+
+  'news.flash': 'Breaking News',
+  'news.debrief': "Commander's debrief",
+  'news.perfect1.headline': 'Total victory in wave {level}',
+  'news.perfect1.description': 'Every threat was intercepted and not a single building was hit. Residents pour into the streets to cheer the defense crews.',
+  'news.perfect2.headline': 'Clear skies over the city',
+  'news.perfect2.description': 'The interceptor array finished level {level} without a scratch. All {buildingsRemaining} buildings stand tall.',
+  'news.damaged1.headline': 'Breaking: {buildingsLost} buildings hit in wave {level}',
+  'news.damaged1.description': 'Rescue teams are working at the impact sites. {buildingsRemaining} buildings still stand and the fight goes on.',
+  'news.damaged2.headline': 'The city takes hits but holds',
+  'news.damaged2.description': '{buildingsLost} buildings were destroyed in the last barrage. The defense array prepares for the next wave with {buildingsRemaining} buildings left.',
+  'news.crisis1.headline': 'State of emergency: the city is on the brink',
+  'news.crisis1.description': 'Only {buildingsRemaining} buildings remain standing. Residents are asked to stay in shelters until further notice.',
+  'news.crisis2.headline': 'Wave {level} leaves the city in ruins',
+  'news.crisis2.description': 'The defense array is holding the last line. Every interception in the next wave will decide the fate of the city.',
+  'news.fallen1.headline': 'The city has fallen',
+  'news.fallen1.description': 'After {level} waves of attacks the last building collapsed. The defenders fought to the very end.',
+  'news.fallen2.headline': 'A day of mourning',
+  'news.fallen2.description': 'The last {buildingsLost} buildings were destroyed in wave {level}. The battle for the city is over.',
+  'news.debrief.overview': 'Level {level} is over. {buildingsLost} buildings were hit and {buildingsRemaining} still stand.',
+  'news.debrief.overviewFallen': 'In level {level} the last {buildingsLost} buildings of the city collapsed.',
+  'news.debrief.threats': 'Threats intercepted: {list}.',
+  'news.debrief.threatItem': '{count} {name}',
+  'news.debrief.separator': ', ',
+  'news.debrief.noThreats': 'No threats were intercepted in this wave.',
+  'news.debrief.accuracy': 'Interceptor accuracy was {accuracy}% ({hits} hits out of {fired} launches).',
+  'news.debrief.combo': 'The longest kill streak reached a x{combo} multiplier.',
+  'news.debrief.turret': 'The auto turret destroyed {kills} threats.',
+  'news.debrief.shield': 'The shield absorbed {hits} direct hits.',
+  'news.debrief.bounty': 'Downed aircraft earned the array {credits} bonus credits.',
+  'news.debrief.boss': 'The mothership was brought down, earning the array {credits} credits.',
+  'news.debrief.fallen': 'Commander: "We did everything we could. We will learn from this battle."',
+  'news.debrief.perfect': 'Commander: "Flawless execution. The crews deserve every praise."',
+  'news.debrief.poor': 'Commander: "Too many launches missed. Sharpen your aim before the next wave."',
+  'news.debrief.steady': 'Commander: "The array held. We keep getting stronger for the next wave."'
+};
@@ -0,0 +1,289 @@
+// Source catalog - every other locale must provide the same keys.
+// Placeholders are written {name}; numbers passed in are formatted for the locale.
+export const he = {
+  'app.title': 'שומרי העיר',
+  'app.subtitle': 'מערכת הגנה אווירית מתקדמת',
+  'app.documentTitle': 'שומרי העיר - משחק הגנה אווירית',
+
+  'difficulty.EASY': 'קל',
+  'difficulty.MEDIUM': 'רגיל',
+  'difficulty.HARD': 'קשה',
+
+  'menu.highScore': 'שיא: {score}',
+  'menu.playerName': 'שם השחקן',
+  'menu.records': 'שיאים',
+  'menu.start': 'התחל משימה',
+  'menu.continue': 'המשך (שלב {level})',
+  'menu.load': 'טען',
+  'menu.watchLast': 'צפה במשחק האחרון',
+  'menu.loadReplay': 'טען הקלטה',
+  'menu.newsSource': 'מקור מבזקי החדשות',
+  'menu.editor': 'עורך שלבים',
+  'menu.feedback': 'שליחת משוב',
+  'menu.mute': 'השתקה',
+  'menu.unmute': 'ביטול השתקה',
+
+  'pause.title': 'משחק מושהה',
+  'pause.resume': 'המשך',
+  'pause.quit': 'חזור לתפריט',
+  'pause.seed': 'זרע {seed}',
+
+  'shop.levelComplete': 'שלב הושלם',
+  'shop.buildingsLeft': 'בניינים שנותרו',
+  'shop.bossReward': 'ספינת האם הושמדה',
+  'shop.title': 'נשקייה',
+  'shop.saveName': 'שם השמירה',
+  'shop.save': 'שמור משחק',
+  'shop.saved': 'נשמר: {name}',
+  'shop.defaultSaveName': 'שלב {level}',
+  'shop.next': 'המשך לשלב הבא',
+
+  'upgrade.speed': 'מהירות יירוט',
+  'upgrade.radius': 'ראש קרב',
+  'upgrade.rate': 'קצב אש',
+  'upgrade.targeting': 'מערכת כיוון',
+  'upgrade.turret': 'צריח אוטומטי',
+  'upgrade.shield': 'מגן אנרגיה',
+  'upgrade.guidance': 'יירוט מונחה',
+  'upgrade.proximity': 'מרעום קרבה',
+  'upgrade.notOwned': 'לא נרכש',
+  'upgrade.buy': 'רכוש ({cost})',
+  'upgrade.upgrade': 'שדרג ({cost})',
+  'upgrade.levelOf': 'רמה {level}/{max}',
+  'upgrade.maxed': 'ברמה המרבית',
+  'upgrade.requires': 'דורש {name} ברמה {level}',
+  'upgrade.exclusive': 'נעול: נבחר {name}',
+  'upgrade.exclusiveHint': 'אחד מהשניים: יירוט מונחה או מרעום קרבה',
+  'upgrade.refund': 'מכור (+{value})',
+  'upgrade.respec': 'איפוס כל השדרוגים (+{value})',
+  'upgrade.branch.interceptors': 'מיירטים',
+  'upgrade.branch.warheads': 'ראשי נפץ',
+  'upgrade.branch.launchers': 'משגרים',
+  'upgrade.branch.defense': 'הגנה',
+
+  'repair.title': 'שיקום העיר',
+  'repair.repair': 'תיקון ({cost})',
+  'repair.rebuild': 'בנייה מחדש ({cost})',
+  'repair.needsHospital': 'אין בית חולים עומד - אפשר רק לבנות אותו מחדש',
+  'building.RESIDENTIAL': 'בניין מגורים',
+  'building.HOSPITAL': 'בית חולים',
+  'building.POWER_PLANT': 'תחנת כוח',
+  'building.COMMAND_CENTER': 'מרכז פיקוד',
+  'building.effect.repairs': 'מאפשר תיקונים',
+  'building.effect.shieldRecharge': 'טוען את המגן',
+  'building.effect.ammoResupply': 'מספק תחמושת למשגרים',
+  'damage.intact': 'שלם',
+  'damage.cracked': 'סדוק',
+  'damage.burning': 'בוער',
+  'damage.smoking': 'פגוע קשה',
+  'damage.destroyed': 'הרוס',
+
+  'defense.title': 'הגנה קרקעית',
+  'defense.noSlots': 'אין מקום פנוי בין הבניינים',
+  'defense.pickSlot': 'בחר משבצת בין הבניינים כדי לבנות או לנהל מבנה',
+  'defense.emptySlot': 'משבצת פנויה',
+  'defense.build': 'בנייה ({cost})',
+  'defense.needsResearch': 'דורש מחקר: {name}',
+  'defense.researchCap': 'שדרג את {name} בעץ הטכנולוגיות כדי להמשיך',
+  'defense.sell': 'פירוק (+{value})',
+  'defense.priority': 'יעד:',
+  'structure.TURRET': 'צריח אוטומטי',
+  'structure.RADAR': 'תחנת מכ"ם',
+  'structure.SHIELD_GENERATOR': 'מחולל מגן',
+  'structure.description.TURRET': 'יורה על אויבים בטווח',
+  'structure.description.RADAR': 'מאריך את טווח הצריחים הסמוכים',
+  'structure.description.SHIELD_GENERATOR': 'כיפת מגן מעל הסביבה',
+  'priority.nearest': 'הקרוב ביותר',
+  'priority.dangerous': 'המסוכן ביותר',
+  'priority.lowest': 'הנמוך ביותר',
+  'priority.valuable': 'השווה ביותר',
+  'priority.lead': 'יירוט מהיר',
+  'priority.description.nearest': 'יורה על האויב הקרוב ביותר לצריח',
+  'priority.description.dangerous': 'יורה קודם על מה שיפגע בבניין שלם',
+  'priority.description.lowest': 'יורה על האויב הקרוב ביותר לקרקע',
+  'priority.description.valuable': 'יורה על האויב ששווה הכי הרבה נקודות',
+  'priority.description.lead': 'יורה על האויב שאפשר ליירט הכי מהר',
+  'shieldAbility.PULSE': 'פולס',
+  'shieldAbility.EMITTER': 'משדר',
+  'shieldAbility.DOME': 'כיפה',
+
+  'ammo.title': 'תחמושת מיוחדת',
+  'ammo.STANDARD': 'רגיל',
+  'ammo.HEAT_SEEKING': 'מחפש חום',
+  'ammo.CLUSTER': 'מצרר',
+  'ammo.FLAK': 'נ"מ',
+  'ammo.EMP': 'EMP',
+  'ammo.description.HEAT_SEEKING': 'ננעל על האויב הקרוב לנקודת הכיוון',
+  'ammo.description.CLUSTER': 'מתפצל לטבעת של פיצוצים קטנים',
+  'ammo.description.FLAK': 'פיצוץ רחב אך חלש',
+  'ammo.description.EMP': 'מאט את האויבים ברדיוס, בלי לפגוע בהם',
+  'ammo.stock': '{stock}/{max}',
+  'ammo.buy': '+{count} ({cost})',
+
+  'gameOver.title': 'העיר נפלה',
+  'gameOver.subtitle': 'כל הבניינים נהרסו. המערכה הסתיימה.',
+  'gameOver.reached': 'הגעת לשלב {level}',
+  'gameOver.retry': 'נסה שוב (התחל מחדש)',
+  'gameOver.watchReplay': 'צפה בהקלטה',
+  'gameOver.saveReplay': 'שמור הקלטה',
+  'gameOver.menu': 'חזור לתפריט הראשי',
+
+  'errors.history': 'קובץ ההיסטוריה אינו תקין',
+  'errors.replay': 'קובץ ההקלטה אינו תקין',
+  'errors.replayVersion': 'ההקלטה נוצרה בגרסה אחרת של המשחק ולא ניתן להציג אותה',
+  'errors.level': 'קובץ השלב אינו תקין',
+  'errors.saves': 'לא ניתן לקרוא את קובץ השמירות - השמירה הושבתה כדי לא למחוק אותו',
+
+  'editor.title': 'עורך שלבים',
+  'editor.close': 'סגירה',
+  'editor.new': 'שלב חדש',
+  'editor.loadCampaign': 'התחל משלב מהמערכה',
+  'editor.campaignOption': 'שלב {level}',
+  'editor.level': 'שלב',
+  'editor.name': 'שם',
+  'editor.win': 'תנאי ניצחון',
+  'editor.win.survive': 'לשרוד עד תום הזמן',
+  'editor.win.clear': 'להשמיד את כל הגלים',
+  'editor.clearNeedsWaves': 'בשלב מסוג השמדת כל הגלים צריך להיות לפחות גל אחד',
+  'editor.duration': 'משך (שניות)',
+  'editor.boss': 'ספינת אם',
+  'editor.city': 'העיר',
+  'editor.buildingCount': 'בניינים',
+  'editor.buildingWidth': 'רוחב',
+  'editor.buildingHeight': 'גובה',
+  'editor.timeline': 'ציר הזמן - לחץ כדי להוסיף גל',
+  'editor.waves': 'גלים ({count})',
+  'editor.noWaves': 'אין עדיין גלים. לחץ על ציר הזמן כדי להוסיף.',
+  'editor.wave': 'גל בשנייה {time}',
+  'editor.enemyType': 'אויב',
+  'editor.count': 'כמות',
+  'editor.delay': 'התחלה (שניות)',
+  'editor.interval': 'מרווח (שניות)',
+  'editor.spawnFrom': 'הופעה מ- (%)',
+  'editor.spawnTo': 'הופעה עד (%)',
+  'editor.target': 'מטרה',
+  'editor.target.random': 'בניין אקראי',
+  'editor.target.spread': 'פיזור בין בניינים',
+  'editor.target.focus': 'בניין אחד',
+  'editor.target.batteries': 'משגרים',
+  'editor.formation': 'מבנה',
+  'editor.formation.scatter': 'פזור',
+  'editor.formation.line': 'שורה',
+  'editor.formation.column': 'טור',
+  'editor.duplicate': 'שכפל',
+  'editor.delete': 'מחק',
+  'editor.playtest': 'נסה את השלב',
+  'editor.export': 'ייצא',
+  'editor.import': 'ייבא',
+  'editor.result.LEVEL_COMPLETE': 'ניסיון: העיר החזיקה מעמד.',
+  'editor.result.GAME_OVER': 'ניסיון: העיר נפלה.',
+
+  'player.anonymous': 'שומר אלמוני',
+
+  'hud.score': 'נקודות: {score}',
+  'hud.highScore': 'שיא: {score}',
+  'hud.timeLeft': 'זמן שנותר: {time}',
+  'hud.wavesLeft': 'גלים שנותרו: {waves}',
+  'hud.boss': 'ספינת אם!',
+  'hud.battery': 'סוללה: {battery} (1-3, 0)',
+  'hud.shield': 'מגן {level}',
+  'hud.shieldOverload': 'עומס יתר',
+  'hud.abilityActive': 'פעיל',
+  'hud.abilityLevel': 'דרגה {level}',
+
+  'battery.nearest': 'הקרובה',
+  'battery.left': 'שמאל',
+  'battery.center': 'מרכז',
+  'battery.right': 'ימין',
+
+  'replay.header': 'הקלטה · שלב {level} · נקודות: {score}',
+  'replay.close': 'סגירת ההקלטה',
+
+  'saves.empty': 'אין משחקים שמורים',
+  'saves.autosave': 'שמירה אוטומטית',
+  'saves.details': 'שלב {level} · {difficulty} · {date}',
+  'saves.load': 'טעינה',
+  'saves.delete': 'מחיקה',
+
+  'records.title': 'טבלת שיאים',
+  'records.close': 'סגירה',
+  'records.empty': 'עדיין אין שיאים ברמה זו',
+  'records.player': 'שחקן',
+  'records.score': 'נקודות',
+  'records.level': 'שלב',
+  'records.buildingsSaved': 'בניינים שניצלו',
+  'records.upgrades': 'שדרוגים',
+  'records.date': 'תאריך',
+  'records.history': 'היסטוריית משחקים',
+  'records.export': 'ייצוא',
+  'records.import': 'ייבוא',
+  'records.noRuns': 'אין משחקים קודמים',
+  'records.runSummary': '{date} · שלב {level} · {kills} יירוטים',
+  'records.legacy': 'שיא קודם',
+  'records.legacySummary': 'השיא מגרסה קודמת של המשחק',
+  'records.unknownDate': 'לא ידוע',
+  'records.kills': 'יירוטים',
+  'records.buildingsLost': 'בניינים שנפגעו',
+  'records.buildingsStanding': 'בניינים שנותרו',
+
+  'newsSettings.gemini': 'Gemini',
+  'newsSettings.openai': 'שרת מקומי (OpenAI)',
+  'newsSettings.template': 'ללא רשת (תבניות)',
+  'newsSettings.mock': 'בדיקות (Mock)',
+  'newsSettings.endpoint': 'כתובת השרת',
+  'newsSettings.model': 'מודל',
+  'newsSettings.apiKey': 'מפתח API',
+  'newsSettings.rememberApiKey': 'לזכור את המפתח במכשיר הזה',
+  'newsSettings.timeout': 'זמן המתנה (שניות)',
+  'newsSettings.retries': 'ניסיונות חוזרים',
+
+  'enemy.STANDARD': 'טילים רגילים',
+  'enemy.FAST': 'טילים מהירים',
+  'enemy.HEAVY': 'טילים כבדים',
+  'enemy.WOBBLY': 'טילים מתפתלים',
+  'enemy.BULLET': 'קליעים',
+  'enemy.LASER': 'קרני לייזר',
+  'enemy.BOMB': 'פצצות',
+  'enemy.MIRV': 'טילים מתפצלים',
+  'enemy.BOMBER': 'מפציצים',
+  'enemy.DRONE': 'רחפנים',
+
+  // News flash (offline reporter)
+  'news.flash': 'מבזק חדשות',
+  'news.debrief': 'תחקיר המפקד',
+  'news.perfect1.headline': 'ניצחון מוחלט בגל ה-{level}',
+  'news.perfect1.description': 'כל האיומים יורטו ואף בניין לא נפגע. תושבי העיר יוצאים לרחובות ומריעים למערך ההגנה.',
+  'news.perfect2.headline': 'שמי העיר נקיים',
+  'news.perfect2.description': 'מערך היירוט השלים את שלב {level} ללא פגיעה. כל {buildingsRemaining} הבניינים עומדים על תלם.',
+  'news.damaged1.headline': 'מבזק: {buildingsLost} בניינים נפגעו בגל ה-{level}',
+  'news.damaged1.description': 'כוחות ההצלה פועלים בזירות הפגיעה. {buildingsRemaining} בניינים עדיין עומדים והמערכה נמשכת.',
+  'news.damaged2.headline': 'העיר ספגה פגיעות אך עומדת',
+  'news.damaged2.description': '{buildingsLost} בניינים נהרסו במטח האחרון. במערך ההגנה נערכים לגל הבא עם {buildingsRemaining} בניינים שנותרו.',
+  'news.crisis1.headline': 'מצב חירום: העיר על סף קריסה',
+  'news.crisis1.description': 'רק {buildingsRemaining} בניינים נותרו עומדים. התושבים מתבקשים להישאר במרחבים המוגנים עד להודעה חדשה.',
+  'news.crisis2.headline': 'גל ה-{level} הותיר את העיר בהריסות',
+  'news.crisis2.description': 'מערך ההגנה נאחז בקו האחרון. כל יירוט בגל הבא יכריע את גורל העיר.',
+  'news.fallen1.headline': 'העיר נפלה',
+  'news.fallen1.description': 'לאחר {level} גלי תקיפה קרס הבניין האחרון. מערך ההגנה נלחם עד הרגע האחרון.',
+  'news.fallen2.headline': 'יום אבל בעיר',
+  'news.fallen2.description': '{buildingsLost} הבניינים האחרונים נהרסו בגל ה-{level}. המערכה על העיר הסתיימה.',
+  'news.debrief.overview': 'שלב {level} הסתיים. {buildingsLost} בניינים נפגעו ו-{buildingsRemaining} עדיין עומדים.',
+  'news.debrief.overviewFallen': 'בשלב {level} קרסו {buildingsLost} הבניינים האחרונים של העיר.',
+  'news.debrief.threats': 'הרכב האיומים שיורטו: {list}.',
+  'news.debrief.threatItem': '{count} {name}',
+  'news.debrief.separator': ', ',
+  'news.debrief.noThreats': 'אף איום לא יורט בגל זה.',
+  'news.debrief.accuracy': 'דיוק המיירטים עמד על {accuracy}% ({hits} פגיעות מתוך {fired} שיגורים).',
+  'news.debrief.combo': 'רצף ההשמדות הארוך ביותר הגיע למכפיל x{combo}.',
+  'news.debrief.turret': 'התותח האוטומטי השמיד {kills} איומים.',
+  'news.debrief.shield': 'המגן ספג {hits} פגיעות ישירות.',
+  'news.debrief.bounty': 'הפלת כלי טיס זיכתה את המערך ב-{credits} קרדיטים נוספים.',
+  'news.debrief.boss': 'ספינת האם הופלה והניבה למערך {credits} קרדיטים.',
+  'news.debrief.fallen': 'המפקד: "עשינו כל מה שיכולנו. נלמד מהקרב הזה."',
+  'news.debrief.perfect': 'המפקד: "ביצוע מופתי. הצוותים ראויים לכל שבח."',
+  'news.debrief.poor': 'המפקד: "יותר מדי שיגורים הוחמצו. יש לשפר את הכיוון לפני הגל הבא."',
+  'news.debrief.steady': 'המפקד: "המערך החזיק מעמד. נמשיך להתחזק לקראת הגל הבא."'
+};
+
+export type MessageKey = keyof typeof he;
+export type Messages = Record<MessageKey, string>;
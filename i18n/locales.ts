@@ -0,0 +1,47 @@
+import { Locale } from '../types';
+import { he, MessageKey, Messages } from './he';
+import { en } from './en';
+import { ar } from './ar';
+
+const STORAGE_KEY = 'shomrei_hair_locale';
+
+export const LOCALES: Record<Locale, { name: string; dir: 'rtl' | 'ltr'; languageName: string }> = {
+  he: { name: 'עברית', dir: 'rtl', languageName: 'HEBREW (עברית)' },
+  en: { name: 'English', dir: 'ltr', languageName: 'ENGLISH' },
+  ar: { name: 'العربية', dir: 'rtl', languageName: 'ARABIC (العربية)' }
+};
+
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+const CATALOGS: Record<Locale, Messages> = { he, en, ar };
+
+export type MessageParams = Record<string, string | number>;
+
+export const formatNumber = (locale: Locale, value: number) =>
+  new Intl.NumberFormat(locale).format(value);
+
+/** Looks up a message and fills its {placeholders}; numbers are formatted for the locale. */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+  const message = CATALOGS[locale][key] ?? he[key] ?? key;
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+};
+
+const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && LOCALE_CODES.includes(value as Locale);
+
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+  // First visit: follow the browser, Hebrew otherwise
+  const browser = navigator.language?.slice(0, 2);
+  return isLocale(browser) ? browser : 'he';
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
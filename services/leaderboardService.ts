@@ -0,0 +1,150 @@
+import { Difficulty, LevelRecord, RunHistoryFile, RunMode, RunRecord } from "../types";
+import { createUpgradeStats } from "../engine/upgrades";
+
+const STORAGE_KEY = 'shomrei_hair_runs';
+const PLAYER_NAME_KEY = 'shomrei_hair_player';
+const LEGACY_HIGHSCORE_KEY = 'shomrei_hair_highscore'; // single best score kept before run history
+
+export const HISTORY_VERSION = 1;
+export const LEADERBOARD_SIZE = 10;
+const MAX_HISTORY = 200;
+
+const RUN_MODES: RunMode[] = ['CAMPAIGN'];
+
+const isLevelRecord = (value: any): value is LevelRecord =>
+  value &&
+  typeof value.level === 'number' &&
+  typeof value.enemiesDestroyed === 'number' &&
+  typeof value.buildingsLost === 'number' &&
+  typeof value.buildingsStanding === 'number' &&
+  typeof value.score === 'number';
+
+// Runs written before `mode` existed are campaign runs; `upgrades` may miss
+// research added since, which normalizeRuns fills in at level 0
+const isRunRecord = (value: any): value is RunRecord =>
+  value &&
+  typeof value.id === 'string' &&
+  (value.mode === undefined || RUN_MODES.includes(value.mode)) &&
+  typeof value.playerName === 'string' &&
+  typeof value.score === 'number' &&
+  typeof value.seed === 'number' &&
+  typeof value.levelReached === 'number' &&
+  typeof value.buildingsSaved === 'number' &&
+  typeof value.enemiesDestroyed === 'number' &&
+  typeof value.upgradesBought === 'number' &&
+  typeof value.date === 'string' &&
+  Object.values(Difficulty).includes(value.difficulty) &&
+  value.upgrades && typeof value.upgrades === 'object' &&
+  Object.values(value.upgrades).every(n => typeof n === 'number') &&
+  Array.isArray(value.levels) && value.levels.every(isLevelRecord) &&
+  (value.legacy === undefined || typeof value.legacy === 'boolean');
+
+const normalizeRuns = (data: any): RunRecord[] => {
+  if (!data || data.version !== HISTORY_VERSION || !Array.isArray(data.runs)) {
+    throw new Error('Invalid run history file');
+  }
+  return data.runs.filter(isRunRecord).map((run: RunRecord) => ({
+    ...run,
+    mode: run.mode ?? 'CAMPAIGN',
+    upgrades: { ...createUpgradeStats(), ...run.upgrades }
+  }));
+};
+
+export const loadRunHistory = (): RunRecord[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeRuns(JSON.parse(raw)) : [];
+  } catch (error) {
+    console.error("History Error:", error);
+    return [];
+  }
+};
+
+/** Stores the history; `saved` is false when storage refused the write. */
+const writeRunHistory = (runs: RunRecord[]) => {
+  // Newest first; trim the tail but never drop a leaderboard entry
+  const sorted = [...runs].sort((a, b) => b.date.localeCompare(a.date));
+  const keep = new Set(
+    Object.values(Difficulty).flatMap(d => getLeaderboard(sorted, d).map(r => r.id))
+  );
+  const trimmed = sorted.filter((run, i) => i < MAX_HISTORY || keep.has(run.id));
+
+  const file: RunHistoryFile = { version: HISTORY_VERSION, runs: trimmed };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+    return { runs: trimmed, saved: true };
+  } catch (error) {
+    console.error("History Error:", error);
+    return { runs: trimmed, saved: false };
+  }
+};
+
+export const recordRun = (run: RunRecord): RunRecord[] => writeRunHistory([run, ...loadRunHistory()]).runs;
+
+/**
+ * Loads the run history, first turning the best score of the old single
+ * high-score key into a legacy run so returning players keep it. The old game
+ * had no difficulty setting worth tracking apart, so it lands on MEDIUM, the
+ * difficulty it started on. When it was set is unknown, so it is dated at the
+ * epoch; the old key is only removed once the history has been written.
+ */
+export const migrateLegacyHighScore = (): RunRecord[] => {
+  const runs = loadRunHistory();
+  const legacyScore = parseInt(localStorage.getItem(LEGACY_HIGHSCORE_KEY) ?? '', 10);
+  if (!(legacyScore > 0)) return runs;
+
+  const legacy: RunRecord = {
+    id: 'legacy_highscore',
+    mode: 'CAMPAIGN',
+    playerName: loadPlayerName(),
+    difficulty: Difficulty.MEDIUM,
+    seed: 0,
+    date: new Date(0).toISOString(),
+    score: legacyScore,
+    levelReached: 0,
+    buildingsSaved: 0,
+    enemiesDestroyed: 0,
+    upgradesBought: 0,
+    upgrades: createUpgradeStats(),
+    levels: [],
+    legacy: true
+  };
+  if (runs.some(r => r.id === legacy.id)) {
+    localStorage.removeItem(LEGACY_HIGHSCORE_KEY);
+    return runs;
+  }
+  const { runs: migrated, saved } = writeRunHistory([legacy, ...runs]);
+  if (saved) localStorage.removeItem(LEGACY_HIGHSCORE_KEY);
+  return migrated;
+};
+
+export const clearRunHistory = () => writeRunHistory([]).runs;
+
+/** Top runs for one difficulty (and mode), best score first. */
+export const getLeaderboard = (runs: RunRecord[], difficulty: Difficulty, mode: RunMode = 'CAMPAIGN') =>
+  runs
+    .filter(r => r.difficulty === difficulty && r.mode === mode)
+    .sort((a, b) => b.score - a.score || b.levelReached - a.levelReached || a.date.localeCompare(b.date))
+    .slice(0, LEADERBOARD_SIZE);
+
+export const getBestScore = (runs: RunRecord[], difficulty: Difficulty) =>
+  getLeaderboard(runs, difficulty)[0]?.score ?? 0;
+
+export const exportRunHistory = (runs: RunRecord[]) =>
+  JSON.stringify({ version: HISTORY_VERSION, runs } as RunHistoryFile, null, 2);
+
+/** Merges an exported history file into local storage; runs already present are skipped. */
+export const importRunHistory = (json: string): RunRecord[] => {
+  const imported = normalizeRuns(JSON.parse(json));
+  const existing = loadRunHistory();
+  const ids = new Set(existing.map(r => r.id));
+  return writeRunHistory([...existing, ...imported.filter(r => !ids.has(r.id))]).runs;
+};
+
+export const createRunId = () => `run_${Date.now().toString(36)}_${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+export const loadPlayerName = () => localStorage.getItem(PLAYER_NAME_KEY) ?? '';
+
+export const savePlayerName = (name: string) => {
+  localStorage.setItem(PLAYER_NAME_KEY, name);
+};
@@ -0,0 +1,40 @@
+import { NewsContext, NewsProvider, NewsReport } from "../types";
+
+// Predictable provider for development and tests: echoes the context back,
+// optionally after a delay or with a failure to exercise timeouts and retries.
+
+export interface MockNewsOptions {
+  delayMs?: number;
+  failTimes?: number;
+  report?: (context: NewsContext) => NewsReport;
+}
+
+const echoReport = ({ outcome, level, buildingsLost, buildingsRemaining, combat }: NewsContext): NewsReport => ({
+  headline: `[MOCK] ${outcome} ${level}`,
+  description: `lost=${buildingsLost} remaining=${buildingsRemaining}`,
+  debrief: [JSON.stringify(combat)]
+});
+
+export const createMockProvider = ({ delayMs = 0, failTimes = 0, report = echoReport }: MockNewsOptions = {}): NewsProvider => {
+  let failuresLeft = failTimes;
+
+  return {
+    id: 'mock',
+    generateReport: (context, signal) => new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          reject(new Error('Mock provider failure'));
+        } else {
+          resolve(report(context));
+        }
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    })
+  };
+};
@@ -0,0 +1,65 @@
+import { CombatStats, Locale, NewsContext, NewsReport } from "../types";
+import { LOCALES } from "../i18n/locales";
+
+// Shared by every remote provider: one prompt, one expected response shape.
+
+export const getNewsReportFields = (locale: Locale) => {
+  const { languageName } = LOCALES[locale];
+  return {
+    headline: `A short, catchy, dramatic headline in ${languageName}`,
+    description: `A 1-2 sentence summary of the situation in ${languageName}`,
+    debrief: `A commander's after-action debrief in ${languageName}, 2-4 paragraphs, one paragraph per item`
+  };
+};
+
+/** Share of fired interceptors whose blast damaged an enemy, 0-100. */
+export const getInterceptorAccuracy = ({ interceptorsFired, interceptorsHit }: CombatStats) =>
+  interceptorsFired > 0 ? Math.round((interceptorsHit / interceptorsFired) * 100) : 0;
+
+const getTone = ({ outcome, buildingsLost, buildingsRemaining }: NewsContext) => {
+  if (outcome === 'GAME_OVER') return "mournful - the city has fallen";
+  if (buildingsRemaining <= 1) return "disastrous and panicked";
+  if (buildingsLost === 0) return "hopeful and triumphant";
+  return "serious and urgent";
+};
+
+const describeCombat = (combat: CombatStats) => {
+  const kills = Object.entries(combat.killsByType).map(([type, count]) => `${type} ${count}`).join(', ');
+  return `
+      - Enemies destroyed by type: ${kills || 'none'}
+      - Best combo multiplier: x${combat.bestCombo}
+      - Missiles absorbed by the shield: ${combat.shieldHits}
+      - Auto-turret kills: ${combat.turretKills}
+      - Interceptor accuracy: ${getInterceptorAccuracy(combat)}% (${combat.interceptorsHit}/${combat.interceptorsFired})
+      - Bonus credits for downed aircraft: ${combat.bonusCredits}
+      - Mothership destroyed: ${combat.bossReward > 0 ? 'yes' : 'no'}`;
+};
+
+export const buildNewsPrompt = (context: NewsContext) => `
+      You are a news reporter in a fictional city under missile attack.
+      The current situation is:
+      - ${context.outcome === 'GAME_OVER' ? 'Level where the city fell' : 'Level passed'}: ${context.level}
+      - Buildings destroyed in this attack: ${context.buildingsLost}
+      - Buildings remaining standing: ${context.buildingsRemaining}${describeCombat(context.combat)}
+      - General Tone: ${getTone(context)}
+
+      Generate a Breaking News flash in ${LOCALES[context.locale].languageName}.
+      It should be dramatic.
+      Add a debrief from the air-defense commander that refers to the numbers above.
+    `;
+
+/** Checks a provider's answer against the NewsReport shape; throws when it doesn't fit. */
+export const parseNewsReport = (value: unknown): NewsReport => {
+  const data = typeof value === 'string' ? JSON.parse(value) : value;
+  const headline = typeof data?.headline === 'string' ? data.headline.trim() : '';
+  const description = typeof data?.description === 'string' ? data.description.trim() : '';
+  if (!headline || !description) {
+    throw new Error('News report does not match the expected schema');
+  }
+  if (data.debrief !== undefined && !(Array.isArray(data.debrief) && data.debrief.every((p: unknown) => typeof p === 'string'))) {
+    throw new Error('News report debrief must be a list of paragraphs');
+  }
+  // Small local models sometimes skip the debrief; the flash still stands on its own
+  const debrief = (data.debrief ?? []).map((p: string) => p.trim()).filter(Boolean);
+  return { headline, description, debrief };
+};
@@ -0,0 +1,134 @@
+import { NewsContext, NewsProvider, NewsProviderKind, NewsReport, NewsSettings } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiProvider } from "./openAiNewsService";
+import { createMockProvider } from "./mockNewsService";
+import { templateNewsProvider } from "./templateNewsService";
+
+const STORAGE_KEY = 'shomrei_hair_news';
+const SESSION_KEY_STORAGE_KEY = 'shomrei_hair_news_key'; // sessionStorage, for keys the player didn't ask to remember
+
+export const NEWS_PROVIDER_KINDS: NewsProviderKind[] = ['gemini', 'openai', 'template', 'mock'];
+
+const RETRY_DELAY = 500;
+
+export const getDefaultNewsSettings = (): NewsSettings => ({
+  // Without a build-time API key the reporter starts on the offline templates
+  provider: process.env.API_KEY ? 'gemini' : 'template',
+  endpoint: 'http://localhost:11434/v1',
+  model: '',
+  apiKey: '',
+  rememberApiKey: false,
+  timeoutMs: 8000,
+  retries: 2
+});
+
+export const loadNewsSettings = (): NewsSettings => {
+  const defaults = getDefaultNewsSettings();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) : {};
+    const rememberApiKey = saved.rememberApiKey === true;
+    const storedKey = rememberApiKey ? saved.apiKey : sessionStorage.getItem(SESSION_KEY_STORAGE_KEY) ?? saved.apiKey;
+    const settings: NewsSettings = {
+      provider: NEWS_PROVIDER_KINDS.includes(saved.provider) ? saved.provider : defaults.provider,
+      endpoint: typeof saved.endpoint === 'string' ? saved.endpoint : defaults.endpoint,
+      model: typeof saved.model === 'string' ? saved.model : defaults.model,
+      apiKey: typeof storedKey === 'string' ? storedKey : defaults.apiKey,
+      rememberApiKey,
+      timeoutMs: Number.isFinite(saved.timeoutMs) && saved.timeoutMs > 0 ? saved.timeoutMs : defaults.timeoutMs,
+      retries: Number.isInteger(saved.retries) && saved.retries >= 0 ? saved.retries : defaults.retries
+    };
+    // Settings from before the opt-in kept the key on disk; move it to the session
+    if (!rememberApiKey && saved.apiKey) saveNewsSettings(settings);
+    return settings;
+  } catch (error) {
+    console.error("News Error:", error);
+    return defaults;
+  }
+};
+
+/** Stores the settings; the API key only reaches localStorage if the player opted in. */
+export const saveNewsSettings = (settings: NewsSettings) => {
+  if (settings.rememberApiKey) {
+    sessionStorage.removeItem(SESSION_KEY_STORAGE_KEY);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } else {
+    sessionStorage.setItem(SESSION_KEY_STORAGE_KEY, settings.apiKey);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, apiKey: '' }));
+  }
+};
+
+export const createNewsProvider = (settings: NewsSettings): NewsProvider => {
+  switch (settings.provider) {
+    case 'gemini': {
+      const apiKey = settings.apiKey || process.env.API_KEY || '';
+      // No key, no Gemini - stay on the offline reporter
+      if (!apiKey) return templateNewsProvider;
+      return createGeminiProvider(apiKey, settings.model || undefined);
+    }
+    case 'openai':
+      return createOpenAiProvider(settings.endpoint, settings.model || undefined, settings.apiKey);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return templateNewsProvider;
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateWithTimeout = async (provider: NewsProvider, context: NewsContext, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`News provider timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([provider.generateReport(context, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/** Asks the provider up to `retries + 1` times, each attempt bounded by `timeoutMs`. */
+export const generateWithRetry = async (
+  provider: NewsProvider,
+  context: NewsContext,
+  { timeoutMs, retries }: Pick<NewsSettings, 'timeoutMs' | 'retries'>
+): Promise<NewsReport> => {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) await wait(RETRY_DELAY * attempt);
+    try {
+      return await generateWithTimeout(provider, context, timeoutMs);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// One report per battle: reopening an overlay never asks the provider twice
+const cache = new Map<string, Promise<NewsReport>>();
+
+const getCacheKey = (provider: NewsProvider, context: NewsContext) =>
+  `${provider.id}:${JSON.stringify(context)}`;
+
+export const fetchNewsReport = (context: NewsContext, settings: NewsSettings = loadNewsSettings()) => {
+  const provider = createNewsProvider(settings);
+  const key = getCacheKey(provider, context);
+  let report = cache.get(key);
+  if (!report) {
+    report = generateWithRetry(provider, context, settings).catch(error => {
+      console.error("News Error:", error);
+      cache.delete(key);
+      return templateNewsProvider.generateReport(context);
+    });
+    cache.set(key, report);
+  }
+  return report;
+};
@@ -0,0 +1,43 @@
+import { NewsProvider } from "../types";
+import { getNewsReportFields, buildNewsPrompt, parseNewsReport } from "./newsSchema";
+
+// Talks to any server exposing the OpenAI chat completions API
+// (llama.cpp, Ollama, LM Studio, vLLM...), so the reporter can run fully offline.
+
+export const OPENAI_DEFAULT_MODEL = "llama3";
+
+export const createOpenAiProvider = (endpoint: string, model = OPENAI_DEFAULT_MODEL, apiKey = ''): NewsProvider => {
+  const url = `${endpoint.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: `openai:${url}:${model}`,
+    generateReport: async (context, signal) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+      const fields = getNewsReportFields(context.locale);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          response_format: { type: 'json_object' },
+          messages: [
+            {
+              role: 'system',
+              content: `Reply with a JSON object only: {"headline": "${fields.headline}", "description": "${fields.description}", "debrief": ["${fields.debrief}"]}`
+            },
+            { role: 'user', content: buildNewsPrompt(context) }
+          ]
+        })
+      });
+
+      if (!response.ok) throw new Error(`News endpoint answered ${response.status}`);
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error("No response text");
+      return parseNewsReport(content);
+    }
+  };
+};
@@ -0,0 +1,239 @@
+import { Building, BuildingType, CampaignSnapshot, Difficulty, SaveFile, SaveSlot, Structure, StructureType } from "../types";
+import { createAmmoStock } from "../engine/ammo";
+import { createStructure, getGroundSlots, getStructureCap, getStructureSellValue } from "../engine/structures";
+
+const STORAGE_KEY = 'shomrei_hair_saves';
+const BACKUP_KEY = 'shomrei_hair_saves_backup'; // last save file that couldn't be read
+
+export const SAVE_VERSION = 9;
+export const AUTOSAVE_SLOT_ID = 'autosave';
+
+// Each entry upgrades a save file from `version` to `version + 1`.
+// Add a step here whenever CampaignSnapshot changes shape.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // v2: campaigns keep their per-level run stats for the run history
+  1: (data) => ({
+    ...data,
+    slots: (data.slots ?? []).map((slot: any) => ({
+      ...slot,
+      campaign: { ...slot.campaign, levelRecords: [] }
+    }))
+  }),
+  // v3: buildings have health instead of being either standing or destroyed
+  2: (data) => ({
+    ...data,
+    slots: (data.slots ?? []).map((slot: any) => ({
+      ...slot,
+      campaign: {
+        ...slot.campaign,
+        city: {
+          ...slot.campaign?.city,
+          buildings: (slot.campaign?.city?.buildings ?? []).map((b: any) => ({
+            ...b,
+            health: b.isDestroyed ? 0 : 100,
+            maxHealth: 100
+          }))
+        }
+      }
+    }))
+  }),
+  // v4: buildings have a type; every building before it was a plain home
+  3: (data) => ({
+    ...data,
+    slots: (data.slots ?? []).map((slot: any) => ({
+      ...slot,
+      campaign: {
+        ...slot.campaign,
+        city: {
+          ...slot.campaign?.city,
+          buildings: (slot.campaign?.city?.buildings ?? []).map((b: any) => ({ ...b, type: BuildingType.RESIDENTIAL }))
+        }
+      }
+    }))
+  }),
+  // v5: the tech tree adds guided interceptors
+  4: (data) => ({
+    ...data,
+    slots: (data.slots ?? []).map((slot: any) => ({
+      ...slot,
+      campaign: { ...slot.campaign, upgrades: { ...slot.campaign?.upgrades, guidanceLevel: 0 } }
+    }))
+  }),
+  // v6: special ammo bought in the armory; nobody had any yet
+  5: (data) => ({
+    ...data,
+    slots: (data.slots ?? []).map((slot: any) => ({
+      ...slot,
+      campaign: { ...slot.campaign, ammo: createAmmoStock() }
+    }))
+  }),
+  // v7: the turret and shield are built on the ground. Each researched one
+  // becomes a structure on its own slot at the level the research allows (saves
+  // from before the tech tree can own both); one that finds no free slot is
+  // paid back at its sell value.
+  6: (data) => ({
+    ...data,
+    slots: (data.slots ?? []).map((slot: any) => {
+      const upgrades = slot.campaign?.upgrades ?? {};
+      const buildings: Building[] = slot.campaign?.city?.buildings ?? [];
+      // The city was spread evenly with the same gap at both ends, which gives back its width
+      const width = buildings.reduce((edge, b) => Math.max(edge, b.x + b.width), 0) + Math.min(...buildings.map(b => b.x));
+      const groundSlots = buildings.length > 0 ? getGroundSlots(buildings, width) : [];
+
+      const structures: Structure[] = [];
+      let refund = 0;
+      for (const type of [StructureType.TURRET, StructureType.SHIELD_GENERATOR]) {
+        const level = getStructureCap(upgrades, type);
+        if (level === 0) continue;
+        const groundSlot = groundSlots[structures.length];
+        const structure = { ...createStructure(structures.length, type, groundSlot ?? { index: 0, x: 0 }), level };
+        if (groundSlot) structures.push(structure);
+        else refund += getStructureSellValue(structure);
+      }
+      return {
+        ...slot,
+        campaign: {
+          ...slot.campaign,
+          credits: (slot.campaign?.credits ?? 0) + refund,
+          city: { ...slot.campaign?.city, structures }
+        }
+      };
+    })
+  }),
+  // v8: the tech tree adds proximity fuses
+  7: (data) => ({
+    ...data,
+    slots: (data.slots ?? []).map((slot: any) => ({
+      ...slot,
+      campaign: { ...slot.campaign, upgrades: { ...slot.campaign?.upgrades, proximityLevel: 0 } }
+    }))
+  }),
+  // v9: campaigns count their armory purchases; earlier ones weren't counted
+  8: (data) => ({
+    ...data,
+    slots: (data.slots ?? []).map((slot: any) => ({
+      ...slot,
+      campaign: { ...slot.campaign, upgradesBought: 0 }
+    }))
+  })
+};
+
+const migrate = (data: any): SaveFile => {
+  let current = data;
+  let version = typeof current?.version === 'number' ? current.version : 0;
+
+  while (version < SAVE_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) throw new Error(`No migration from save version ${version}`);
+    current = upgrade(current);
+    version += 1;
+    current.version = version;
+  }
+
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save version ${version} is newer than this game (${SAVE_VERSION})`);
+  }
+  return current as SaveFile;
+};
+
+const isCampaignSnapshot = (value: any): value is CampaignSnapshot =>
+  value &&
+  typeof value.level === 'number' &&
+  typeof value.credits === 'number' &&
+  typeof value.seed === 'number' &&
+  typeof value.buildingsRemaining === 'number' &&
+  Object.values(Difficulty).includes(value.difficulty) &&
+  value.upgrades && typeof value.upgrades === 'object' &&
+  value.ammo && typeof value.ammo === 'object' &&
+  value.city && Array.isArray(value.city.buildings) && Array.isArray(value.city.structures) && typeof value.city.score === 'number' &&
+  Array.isArray(value.levelRecords) &&
+  typeof value.upgradesBought === 'number';
+
+const isSaveSlot = (value: any): value is SaveSlot =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.savedAt === 'string' &&
+  isCampaignSnapshot(value.campaign);
+
+// What was found in storage. A file that can't be read or migrated is never
+// written over: saving on top of it would replace every slot the player had.
+// Slots that don't validate are carried along untouched instead of dropped.
+type SaveFileRead =
+  | { ok: true; file: SaveFile; unreadableSlots: unknown[] }
+  | { ok: false };
+
+const readSaveFile = (): SaveFileRead => {
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ok: true, file: { version: SAVE_VERSION, slots: [] }, unreadableSlots: [] };
+    const file = migrate(JSON.parse(raw));
+    const slots: unknown[] = Array.isArray(file.slots) ? file.slots : [];
+    return {
+      ok: true,
+      file: { version: SAVE_VERSION, slots: slots.filter(isSaveSlot) },
+      unreadableSlots: slots.filter(slot => !isSaveSlot(slot))
+    };
+  } catch (error) {
+    console.error("Save Error:", error);
+    // Keep a copy where later versions (or the player) can still get at it
+    if (raw !== null) {
+      try {
+        localStorage.setItem(BACKUP_KEY, raw);
+      } catch (backupError) {
+        console.error("Save Error:", backupError);
+      }
+    }
+    return { ok: false };
+  }
+};
+
+const writeSaveFile = (read: Extract<SaveFileRead, { ok: true }>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...read.file, slots: [...read.file.slots, ...read.unreadableSlots] }));
+    return true;
+  } catch (error) {
+    console.error("Save Error:", error);
+    return false;
+  }
+};
+
+/** Whether the stored saves could be read, and so may be written to. */
+export const canWriteSaves = () => readSaveFile().ok;
+
+/** All slots, most recently saved first. */
+export const listSaveSlots = (): SaveSlot[] => {
+  const read = readSaveFile();
+  return read.ok ? read.file.slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt)) : [];
+};
+
+export const getLatestSave = (): SaveSlot | null => listSaveSlots()[0] ?? null;
+
+/** Stores the campaign in slot `id`; null if the saves couldn't be read or written. */
+export const saveCampaign = (id: string, name: string, campaign: CampaignSnapshot): SaveSlot | null => {
+  const read = readSaveFile();
+  if (!read.ok) return null;
+  const slot: SaveSlot = {
+    id,
+    name,
+    savedAt: new Date().toISOString(),
+    campaign: JSON.parse(JSON.stringify(campaign))
+  };
+  read.file.slots = [...read.file.slots.filter(s => s.id !== id), slot];
+  return writeSaveFile(read) ? slot : null;
+};
+
+/** Stores the campaign in the single autosave slot, under the given (translated) name. */
+export const autosaveCampaign = (campaign: CampaignSnapshot, name: string) =>
+  saveCampaign(AUTOSAVE_SLOT_ID, name, campaign);
+
+export const createSlotId = () => `slot_${Date.now().toString(36)}`;
+
+/** Removes slot `id`; false if the saves couldn't be read or written. */
+export const deleteSaveSlot = (id: string) => {
+  const read = readSaveFile();
+  if (!read.ok) return false;
+  read.file.slots = read.file.slots.filter(s => s.id !== id);
+  return writeSaveFile(read);
+};
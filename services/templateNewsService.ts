@@ -0,0 +1,94 @@
+import { CombatStats, EnemyType, NewsContext, NewsProvider, NewsReport } from "../types";
+import { MessageKey } from "../i18n/he";
+import { translate } from "../i18n/locales";
+import { getInterceptorAccuracy } from "./newsSchema";
+
+// Offline stand-in for the AI reporter: fills the catalog's news templates from the level stats.
+// The template is picked from the level number so the same battle always reads the same.
+
+type Template = [headline: MessageKey, description: MessageKey];
+
+const PERFECT: Template[] = [
+  ['news.perfect1.headline', 'news.perfect1.description'],
+  ['news.perfect2.headline', 'news.perfect2.description']
+];
+
+const DAMAGED: Template[] = [
+  ['news.damaged1.headline', 'news.damaged1.description'],
+  ['news.damaged2.headline', 'news.damaged2.description']
+];
+
+const CRISIS: Template[] = [
+  ['news.crisis1.headline', 'news.crisis1.description'],
+  ['news.crisis2.headline', 'news.crisis2.description']
+];
+
+const FALLEN: Template[] = [
+  ['news.fallen1.headline', 'news.fallen1.description'],
+  ['news.fallen2.headline', 'news.fallen2.description']
+];
+
+const pickTemplates = ({ outcome, buildingsLost, buildingsRemaining }: NewsContext) => {
+  if (outcome === 'GAME_OVER') return FALLEN;
+  if (buildingsLost === 0) return PERFECT;
+  if (buildingsRemaining <= 1) return CRISIS;
+  return DAMAGED;
+};
+
+const describeThreats = ({ locale }: NewsContext, combat: CombatStats) => {
+  const kills = (Object.entries(combat.killsByType) as [EnemyType, number][])
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => translate(locale, 'news.debrief.threatItem', { count, name: translate(locale, `enemy.${type}`) }));
+  return kills.length > 0
+    ? translate(locale, 'news.debrief.threats', { list: kills.join(translate(locale, 'news.debrief.separator')) })
+    : translate(locale, 'news.debrief.noThreats');
+};
+
+const describeDefense = ({ locale }: NewsContext, combat: CombatStats) => {
+  const lines = [
+    translate(locale, 'news.debrief.accuracy', {
+      accuracy: getInterceptorAccuracy(combat),
+      hits: combat.interceptorsHit,
+      fired: combat.interceptorsFired
+    })
+  ];
+  if (combat.bestCombo > 1) lines.push(translate(locale, 'news.debrief.combo', { combo: combat.bestCombo }));
+  if (combat.turretKills > 0) lines.push(translate(locale, 'news.debrief.turret', { kills: combat.turretKills }));
+  if (combat.shieldHits > 0) lines.push(translate(locale, 'news.debrief.shield', { hits: combat.shieldHits }));
+  if (combat.bonusCredits > 0) lines.push(translate(locale, 'news.debrief.bounty', { credits: combat.bonusCredits }));
+  if (combat.bossReward > 0) lines.push(translate(locale, 'news.debrief.boss', { credits: combat.bossReward }));
+  return lines.join(' ');
+};
+
+const assess = ({ locale, outcome, buildingsLost }: NewsContext, combat: CombatStats) => {
+  const accuracy = getInterceptorAccuracy(combat);
+  if (outcome === 'GAME_OVER') return translate(locale, 'news.debrief.fallen');
+  if (buildingsLost === 0 && accuracy >= 60) return translate(locale, 'news.debrief.perfect');
+  if (accuracy < 30) return translate(locale, 'news.debrief.poor');
+  return translate(locale, 'news.debrief.steady');
+};
+
+const buildDebrief = (context: NewsContext) => {
+  const { locale, outcome, level, buildingsLost, buildingsRemaining, combat } = context;
+  const overview = translate(locale, outcome === 'GAME_OVER' ? 'news.debrief.overviewFallen' : 'news.debrief.overview', {
+    level, buildingsLost, buildingsRemaining
+  });
+  return [overview, describeThreats(context, combat), describeDefense(context, combat), assess(context, combat)];
+};
+
+export const generateTemplateReport = (context: NewsContext): NewsReport => {
+  const templates = pickTemplates(context);
+  const [headline, description] = templates[context.level % templates.length];
+  const { locale, level, buildingsLost, buildingsRemaining } = context;
+  const params = { level, buildingsLost, buildingsRemaining };
+  return {
+    headline: translate(locale, headline, params),
+    description: translate(locale, description, params),
+    debrief: buildDebrief(context)
+  };
+};
+
+export const templateNewsProvider: NewsProvider = {
+  id: 'template',
+  generateReport: async (context) => generateTemplateReport(context)
+};
@@ -4,12 +4,78 @@ export interface Point {
   y: number;
 }
 
+export enum BuildingType {
+  RESIDENTIAL = 'RESIDENTIAL',
+  HOSPITAL = 'HOSPITAL',
+  POWER_PLANT = 'POWER_PLANT',
+  COMMAND_CENTER = 'COMMAND_CENTER'
+}
+
 export interface Building {
   id: number;
+  type: BuildingType;
   x: number;
   y: number;
   width: number;
   height: number;
+  health: number;
+  maxHealth: number;
+  isDestroyed: boolean; // health reached 0
+}
+
+// Defenses the player builds on the ground between buildings, see engine/structures.ts
+export enum StructureType {
+  TURRET = 'TURRET',
+  RADAR = 'RADAR',
+  SHIELD_GENERATOR = 'SHIELD_GENERATOR'
+}
+
+// Which enemy in range a turret shoots first
+export type TurretPriority =
+  | 'nearest'    // closest to the turret
+  | 'dangerous'  // would do the most damage to the city if it landed
+  | 'lowest'     // closest to the ground
+  | 'valuable'   // worth the most score and bounty
+  | 'lead';      // quickest to reach where it is heading
+
+export interface Structure {
+  id: number;
+  type: StructureType;
+  slot: number; // ground slot: the gap right of the building with this index, counting from the left
+  x: number; // centre, derived from the slot whenever the city is laid out
+  level: number;
+  priority: TurretPriority;
+  health: number;
+  maxHealth: number;
+  isDestroyed: boolean;
+  // Reset at the start of every level
+  energy: number; // shield generators
+  hitTime: number; // clock (ms) of the last hit on its shield
+  overloadUntil: number; // shield generators: level time (seconds) a drained shield comes back, 0 = not overloaded
+  nextFireTime: number; // turrets: clock (ms) it can fire again
+}
+
+// Player-activated uses of the shield generators' energy, see engine/shieldAbilities.ts
+export enum ShieldAbility {
+  PULSE = 'PULSE',
+  EMITTER = 'EMITTER',
+  DOME = 'DOME'
+}
+
+export interface ShieldAbilityState {
+  readyAt: number; // level time (seconds) its cooldown ends
+  activeUntil: number; // level time its effect ends
+}
+
+export type BatteryId = 'left' | 'center' | 'right';
+
+// Interceptor launcher with its own ammo stock
+export interface Battery {
+  id: BatteryId;
+  x: number;
+  y: number;
+  ammo: number;
+  maxAmmo: number;
   isDestroyed: boolean;
 }
 
@@ -20,7 +86,10 @@ export enum EnemyType {
   WOBBLY = 'WOBBLY',
   BULLET = 'BULLET',
   LASER = 'LASER',
-  BOMB = 'BOMB'
+  BOMB = 'BOMB',
+  MIRV = 'MIRV',
+  BOMBER = 'BOMBER',
+  DRONE = 'DRONE'
 }
 
 export interface EnemyMissile {
@@ -40,8 +109,27 @@ export interface EnemyMissile {
   health: number;
   maxHealth: number;
   hitByExplosionIds: number[];
+  splitY?: number; // MIRV: altitude where it releases its warheads
+  hoverY?: number; // LASER: altitude where it stops to charge
+  charge?: number; // LASER: 0 to 1 while charging, undefined while descending
+  nextLaunchTime?: number; // Aircraft: level time (seconds) of the next missile launch
+  slowUntil?: number; // level time (seconds) an EMP hit stops slowing it down
 }
 
+// What the interceptors are loaded with, see engine/ammo.ts for their definitions
+export enum AmmoType {
+  STANDARD = 'STANDARD',
+  HEAT_SEEKING = 'HEAT_SEEKING',
+  CLUSTER = 'CLUSTER',
+  FLAK = 'FLAK',
+  EMP = 'EMP'
+}
+
+export type SpecialAmmoType = Exclude<AmmoType, AmmoType.STANDARD>;
+
+// Rounds of each special ammo type; standard rounds only come from the batteries
+export type AmmoStock = Record<SpecialAmmoType, number>;
+
 export interface Interceptor {
   id: number;
   x: number;
@@ -53,6 +141,8 @@ export interface Interceptor {
   speed: number;
   exploded: boolean;
   trail: Point[];
+  ammo: AmmoType;
+  lockedEnemyId?: number; // guided and heat-seeking interceptors steer onto this enemy
 }
 
 export interface Projectile {
@@ -72,6 +162,34 @@ export interface Explosion {
   currentRadius: number;
   maxRadius: number;
   alpha: number; // For fading out
+  fromInterceptor?: boolean; // Player shot - counts towards accuracy
+  scored?: boolean;          // Already damaged an enemy
+  ammo?: AmmoType;           // Special interceptor blast - decides its damage and side effects
+}
+
+// Instant laser shot, kept around only while it fades
+export interface Beam {
+  id: number;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  alpha: number;
+}
+
+// Boss level mothership, see engine/boss.ts for its definition
+export interface Boss {
+  x: number; // hull centre
+  y: number;
+  cruiseY: number; // descends to this altitude before it starts attacking
+  health: number;
+  maxHealth: number;
+  phase: number;
+  direction: 1 | -1;
+  nextAttackTime: number; // level time in seconds
+  hitByExplosionIds: number[];
+  hitTime: number; // clock of the last damaging hit, for the flash
+  reward: number; // credits for the kill
 }
 
 export enum GameState {
@@ -80,6 +198,9 @@ export enum GameState {
   LEVEL_COMPLETE = 'LEVEL_COMPLETE',
   GAME_OVER = 'GAME_OVER',
   PAUSED = 'PAUSED',
+  REPLAY = 'REPLAY',
+  RECORDS = 'RECORDS',
+  EDITOR = 'EDITOR',
 }
 
 export enum Difficulty {
@@ -91,6 +212,38 @@ export enum Difficulty {
 export interface NewsReport {
   headline: string;
   description: string;
+  debrief: string[]; // Commander's after-action paragraphs
+}
+
+export type Locale = 'he' | 'en' | 'ar';
+
+export type NewsOutcome = 'LEVEL_COMPLETE' | 'GAME_OVER';
+
+export interface NewsContext {
+  locale: Locale;
+  outcome: NewsOutcome;
+  level: number;
+  buildingsLost: number;
+  buildingsRemaining: number;
+  combat: CombatStats;
+}
+
+// Anything that can turn a battle summary into a news flash
+export interface NewsProvider {
+  id: string;
+  generateReport: (context: NewsContext, signal?: AbortSignal) => Promise<NewsReport>;
+}
+
+export type NewsProviderKind = 'gemini' | 'openai' | 'template' | 'mock';
+
+export interface NewsSettings {
+  provider: NewsProviderKind;
+  endpoint: string; // base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+  model: string;    // empty = the provider's default model
+  apiKey: string;   // empty = the build-time API_KEY (Gemini) or no auth header
+  rememberApiKey: boolean; // keep the key in localStorage; otherwise it lasts until the tab closes
+  timeoutMs: number;
+  retries: number;
 }
 
 export interface UpgradeStats {
@@ -100,4 +253,291 @@ export interface UpgradeStats {
   turretLevel: number;
   shieldLevel: number;
   targetingLevel: number;
-}
\ No newline at end of file
+  guidanceLevel: number;
+  proximityLevel: number;
+}
+
+// --- Simulation Engine ---
+
+export type SoundEffect = 'warning' | 'shoot' | 'dry_fire' | 'explode_normal' | 'explode_heavy' | 'turret_shoot' | 'shield_hit' | 'nuke' | 'mirv_warning' | 'mirv_split' | 'laser_charge' | 'laser_fire' | 'bullet_burst' | 'aircraft' | 'boss_warning' | 'boss_hit' | 'boss_phase' | 'boss_destroyed' | 'ammo_select' | 'emp' | 'shield_overload' | 'shield_restore' | 'shield_pulse' | 'shield_dome';
+
+export interface EngineConfig {
+  width: number;
+  height: number;
+  level: number;
+  difficulty: Difficulty;
+  upgrades: UpgradeStats;
+  ammo?: AmmoStock; // special rounds brought into the level, omitted = none
+  seed: number;
+  // Wave script to play; omitted = the campaign's definition for this level, null = procedural
+  script?: LevelDefinition | null;
+}
+
+export type EngineStatus = 'RUNNING' | 'LEVEL_COMPLETE' | 'GAME_OVER';
+
+export interface EngineState {
+  width: number;
+  height: number;
+  level: number;
+  difficulty: Difficulty;
+  upgrades: UpgradeStats;
+  seed: number;
+  rngState: number; // Seeded PRNG state, see engine/random.ts
+  status: EngineStatus;
+
+  // Simulation clock in ms, advanced only by step()
+  clock: number;
+  nextId: number;
+
+  buildings: Building[];
+  enemies: EnemyMissile[];
+  interceptors: Interceptor[];
+  explosions: Explosion[];
+  projectiles: Projectile[];
+  beams: Beam[];
+  boss: Boss | null; // only on boss levels, which end on the kill instead of the timer
+
+  // Authored waves, null on procedural levels
+  script: LevelDefinition | null;
+  nextWave: number; // index into script.waves (sorted by delay)
+  spawnQueue: ScriptedSpawn[]; // enemies of triggered waves still waiting for their slot
+
+  // Rebuilt and refilled at the start of every level
+  batteries: Battery[];
+  selectedBattery: BatteryId | null; // null = nearest battery with ammo
+
+  // Built between levels; damage carries over like the buildings'
+  structures: Structure[];
+  shieldAbilities: Record<ShieldAbility, ShieldAbilityState>;
+  shieldEmitter: Point | null; // where the projected dome sits while EMITTER is active
+
+  // Bought in the armory; whatever is left carries over to the next level
+  ammoStock: AmmoStock;
+  selectedAmmo: AmmoType;
+
+  crosshair: Point;
+  lastShotTime: number;
+
+  score: number;
+  multiplier: number;
+  lastKillTime: number;
+
+  levelTime: number; // seconds
+  nextSpawnTime: number; // seconds
+  warningPlayed: boolean;
+  nextResupplyTime: number; // seconds, while the command center stands
+
+  buildingsLostInLevel: number;
+  enemiesDestroyed: number;
+  combat: CombatStats;
+}
+
+export interface EngineInput {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  fire: boolean;
+  // Absolute crosshair position (mouse / touch) set since the previous step
+  aim: Point | null;
+  // Explicit shots (mouse / touch) queued since the previous step
+  fireTargets: Point[];
+  // Battery picked since the previous step ('nearest' = automatic choice)
+  selectBattery: BatteryId | 'nearest' | null;
+  // Ammo type picked since the previous step
+  selectAmmo: AmmoType | null;
+  // Shield ability used since the previous step
+  shieldAbility: ShieldAbility | null;
+}
+
+// City, ground defenses and score handed from one level to the next
+export type LevelCarryOver = Pick<EngineState, 'buildings' | 'structures' | 'score'>;
+
+// After-action numbers for a single level
+export interface CombatStats {
+  killsByType: Partial<Record<EnemyType, number>>;
+  bestCombo: number;
+  shieldHits: number;
+  turretKills: number;
+  interceptorsFired: number;
+  interceptorsHit: number; // Interceptor blasts that damaged at least one enemy
+  bonusCredits: number; // Bounties for downed aircraft, paid out in the armory
+  bossReward: number; // Credits for destroying the mothership, 0 if there was none
+}
+
+export interface LevelResult {
+  buildingsLost: number;
+  enemiesDestroyed: number;
+  combat: CombatStats;
+  city: LevelCarryOver;
+  cityCredits: number; // armory payout of the buildings that stood through the level, before the city grew
+  ammo: AmmoStock; // special rounds left over
+}
+
+export type EngineEvent =
+  | { type: 'sound'; sound: SoundEffect; intensity?: number }
+  | { type: 'kill'; enemy: EnemyMissile; points: number; multiplier: number }
+  | { type: 'comboReset' }
+  | { type: 'buildingDamaged'; building: Building }
+  | { type: 'buildingDestroyed'; building: Building }
+  | { type: 'structureDestroyed'; structure: Structure }
+  | { type: 'batteryDestroyed'; battery: Battery }
+  | { type: 'levelComplete'; buildingsLost: number; enemiesDestroyed: number; cityCredits: number }
+  | { type: 'gameOver'; score: number };
+
+export interface StepResult {
+  state: EngineState;
+  events: EngineEvent[];
+}
+
+// --- Level Definitions ---
+
+// Which buildings the enemies of a wave go for
+export type TargetPolicy =
+  | 'random'     // each enemy picks any standing building
+  | 'spread'     // a different building per enemy while there are enough
+  | 'focus'      // the whole wave on one building
+  | 'batteries'; // the launchers, falling back to buildings
+
+// Where along the spawn range the enemies of a wave appear
+export type Formation =
+  | 'scatter' // random positions
+  | 'line'    // evenly spaced across the range
+  | 'column'; // all from the same point
+
+// 'survive' ends on the timer, 'clear' once every wave has spawned and the sky is empty
+export type WinCondition = 'survive' | 'clear';
+
+export interface WaveDefinition {
+  delay: number; // seconds after the level starts
+  enemyType: EnemyType;
+  count: number;
+  spawnX: [number, number]; // fractions of the screen width
+  target: TargetPolicy;
+  formation: Formation;
+  interval: number; // seconds between the enemies of the wave, 0 = all at once
+}
+
+// Evenly spaced row of buildings, laid out by createCity in engine/buildings.ts
+export interface CityLayout {
+  count: number;
+  width: number; // px of a residential building; the other types scale with it
+  height: number; // px
+}
+
+export interface LevelDefinition {
+  level: number;
+  name?: string;
+  city?: CityLayout; // used when the level starts a fresh city; defaults to DEFAULT_CITY
+  duration?: number; // seconds, for 'survive' levels; defaults to LEVEL_DURATION
+  win: WinCondition;
+  boss?: boolean; // also brings the mothership, which ends the level on its kill
+  waves: WaveDefinition[];
+}
+
+// File format for sharing level sets
+export interface LevelPack {
+  version: number;
+  levels: LevelDefinition[];
+}
+
+export interface ScriptedSpawn {
+  time: number; // level time in seconds
+  type: EnemyType;
+  startX: number;
+  targetX: number;
+}
+
+// --- Replays ---
+
+export interface ReplayFrame {
+  k?: number; // held controls bitmask (up, down, left, right, fire)
+  a?: [number, number]; // absolute aim set this frame
+  s?: number[]; // fire targets as flattened x,y pairs
+  b?: number; // battery picked this frame, index into BATTERY_SELECTIONS
+  m?: number; // ammo type picked this frame, index into AMMO_TYPES
+  h?: number; // shield ability used this frame, index into SHIELD_ABILITIES
+}
+
+export interface ReplayLevel {
+  level: number;
+  width: number;
+  height: number;
+  upgrades: UpgradeStats;
+  ammo: AmmoStock;
+  buildings: Building[];
+  structures: Structure[];
+  startScore: number;
+  frames: ReplayFrame[];
+  pauses: number[]; // frame indices where the player paused
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  difficulty: Difficulty;
+  fixedStep?: number; // seconds per frame when frames carry no delta
+  recordedAt: string;
+  levels: ReplayLevel[];
+}
+
+// --- Campaign Saves ---
+
+export interface CampaignSnapshot {
+  level: number; // last completed level - resumes in the armory before level + 1
+  credits: number;
+  upgrades: UpgradeStats;
+  ammo: AmmoStock;
+  difficulty: Difficulty;
+  seed: number;
+  buildingsRemaining: number;
+  city: LevelCarryOver;
+  levelRecords: LevelRecord[]; // per-level stats of the run so far
+  upgradesBought: number; // armory purchases so far: research, ammo packs, defenses and repairs
+}
+
+export interface SaveSlot {
+  id: string;
+  name: string;
+  savedAt: string; // ISO date
+  campaign: CampaignSnapshot;
+}
+
+export interface SaveFile {
+  version: number;
+  slots: SaveSlot[];
+}
+
+// --- Leaderboard & Run History ---
+
+export type RunMode = 'CAMPAIGN';
+
+export interface LevelRecord {
+  level: number;
+  buildingsLost: number;
+  buildingsStanding: number;
+  enemiesDestroyed: number;
+  score: number; // total score when the level ended
+}
+
+export interface RunRecord {
+  id: string;
+  mode: RunMode;
+  playerName: string;
+  difficulty: Difficulty;
+  seed: number;
+  date: string; // ISO date
+  score: number;
+  levelReached: number;
+  buildingsSaved: number; // buildings standing at the end of each completed level, summed
+  enemiesDestroyed: number;
+  upgradesBought: number;
+  upgrades: UpgradeStats;
+  levels: LevelRecord[];
+  legacy?: boolean; // best score kept by the game before run history existed; only the score is known
+}
+
+export interface RunHistoryFile {
+  version: number;
+  runs: RunRecord[];
+}